@@ -1,16 +1,27 @@
-import { useRef, useState, useCallback } from 'react'
+import { useRef, useState, useCallback, useEffect, useMemo } from 'react'
 import { Canvas } from '@react-three/fiber'
 import { OrbitControls } from '@react-three/drei'
 import type { HistoryContextValue } from '../../hooks/useHistory'
-import type { Polygon, Building } from './types'
+import { useShadingAnalysis } from '../../hooks/useShadingAnalysis'
+import type { Polygon, Building, PanelArray, PVModule, HeatmapMode, Selection } from './types'
 import { Scene } from './scene'
-import { Toolbox, StatusBar, PolygonActions, CalibrationPanel, MeasurementPanel, TimeControl, CompassDisplay } from './ui'
-import { CanvasProvider, useCanvasContext, ToolProvider } from './context'
+import { Toolbox, StatusBar, PolygonActions, TransformPanel, CalibrationPanel, MeasurementPanel, PanelLayoutPanel, TimeControl, HeatmapLegend, CompassDisplay } from './ui'
+import { CanvasProvider, useCanvasContext, ToolProvider, useToolContext } from './context'
 import { useToolManager } from './tools'
+import { EXPORT_ERROR_DURATION } from './constants'
+import { isObstruction } from '../../utils/obstructions'
+import { buildHeatmapData } from '../../utils/heatmap'
+import { exportGLB } from '../../utils/gltf'
+import { getUnitsPerMeter } from '../../utils/geometry'
+import type { ShadingAnalysis } from '../../utils/shading'
+import type { WeatherData } from '../../utils/tmy'
+import type { SnapSettings } from '../../utils/snapping'
+import { isSelectionEmpty, getSelectedPolygonIds } from '../../utils/selection'
+import type { ScreenRect } from '../../utils/selection'
 import './Canvas3D.css'
 
 // Re-export types for backwards compatibility
-export type { Polygon, Building } from './types'
+export type { Polygon, Building, PanelArray, PVModule } from './types'
 
 export interface Canvas3DProps {
   width?: number | string
@@ -21,6 +32,10 @@ export interface Canvas3DProps {
   outlineColor?: string
   polygons?: Polygon[]
   buildings?: Building[]
+  /** Controlled PV panel arrays */
+  panelArrays?: PanelArray[]
+  /** PV module catalog offered by the module layout tool (default: generic 400 and 450 Wp modules) */
+  modules?: PVModule[]
   /** Enable shadow casting for buildings (default: true) */
   shadows?: boolean
   /** Time of day in hours (0-24), affects sun position and shadows (default: 10) */
@@ -33,26 +48,65 @@ export interface Canvas3DProps {
   longitude?: number
   /** Date for sun position calculation (default: current date) */
   date?: Date
+  /** Insolation heatmap shown on roof faces and panels (default: 'off'); requires latitude and longitude */
+  heatmap?: HeatmapMode
+  /** Show the heatmap selector and legend when latitude and longitude are set (default: false) */
+  showHeatmapControl?: boolean
+  /** Precomputed shading analysis for the heatmap; analyzed internally when omitted */
+  shading?: ShadingAnalysis | null
+  /** Typical-year irradiance (see parseTmyCsv) for the heatmap, instead of the clear-sky model */
+  weather?: WeatherData
   /** Pixels per meter ratio for scaling calculations */
   pixelsPerMeter?: number
+  /** Image to show instead of an uploaded one, as a URL or data URL (e.g. from a saved project) */
+  imageUrl?: string
+  /** Move corners at the same position in adjacent polygons together when dragging (default: true) */
+  shareVertices?: boolean
+  /** Merge neighbouring corners closer than this (in Three.js units) when a polygon is drawn or a corner dragged (default: DEFAULT_VALIDATION_TOLERANCE) */
+  vertexMergeTolerance?: number
+  /** Controlled selection of polygons, corners and buildings */
+  selection?: Selection
+  /** Controlled snapping settings for drawing and dragging points (default: DEFAULT_SNAP_SETTINGS) */
+  snapping?: SnapSettings
+  /** Show a toolbar button that toggles snapping (default: true) */
+  showSnapControl?: boolean
+  /** Show a toolbar button that downloads the buildings and panels as a GLB file (default: false) */
+  showExportButton?: boolean
   /** History context for undo/redo support */
   historyContext?: HistoryContextValue
   onImageLoad?: (file: File) => void
   onImageDimensionsChange?: (width: number, height: number) => void
   onPolygonsChange?: (polygons: Polygon[]) => void
   onBuildingsChange?: (buildings: Building[]) => void
+  onPanelArraysChange?: (panelArrays: PanelArray[]) => void
   onTimeOfDayChange?: (time: number) => void
+  onHeatmapChange?: (heatmap: HeatmapMode) => void
+  /** Callback when downloading the GLB file fails; the status bar shows the error either way */
+  onExportError?: (error: unknown) => void
+  /** Callback when the shading analysis behind the heatmap fails; the previous analysis is kept */
+  onShadingError?: (error: unknown) => void
   onPixelsPerMeterChange?: (pixelsPerMeter: number) => void
+  onSnappingChange?: (snapping: SnapSettings) => void
+  onSelectionChange?: (selection: Selection) => void
 }
 
 export function Canvas3D(props: Canvas3DProps) {
   const {
     polygons: controlledPolygons,
     buildings: controlledBuildings,
+    panelArrays: controlledPanelArrays,
+    modules,
     historyContext,
     pixelsPerMeter,
+    shareVertices,
+    vertexMergeTolerance,
     onPolygonsChange,
     onBuildingsChange,
+    onPanelArraysChange,
+    snapping,
+    onSnappingChange,
+    selection,
+    onSelectionChange,
     ...restProps
   } = props
 
@@ -60,12 +114,19 @@ export function Canvas3D(props: Canvas3DProps) {
     <CanvasProvider
       controlledPolygons={controlledPolygons}
       controlledBuildings={controlledBuildings}
+      controlledPanelArrays={controlledPanelArrays}
+      modules={modules}
       historyContext={historyContext}
       pixelsPerMeter={pixelsPerMeter}
+      shareVertices={shareVertices}
+      vertexMergeTolerance={vertexMergeTolerance}
+      controlledSelection={selection}
       onPolygonsChange={onPolygonsChange}
       onBuildingsChange={onBuildingsChange}
+      onPanelArraysChange={onPanelArraysChange}
+      onSelectionChange={onSelectionChange}
     >
-      <ToolProvider>
+      <ToolProvider snapSettings={snapping} onSnapSettingsChange={onSnappingChange}>
         <Canvas3DInner {...restProps} historyContext={historyContext} />
       </ToolProvider>
     </CanvasProvider>
@@ -87,10 +148,20 @@ function Canvas3DInner({
   latitude,
   longitude,
   date,
+  heatmap: controlledHeatmap,
+  showHeatmapControl = false,
+  shading: providedShading,
+  weather,
+  imageUrl: providedImageUrl,
+  showSnapControl = true,
+  showExportButton = false,
   historyContext,
   onImageLoad,
   onImageDimensionsChange,
   onTimeOfDayChange,
+  onHeatmapChange,
+  onExportError,
+  onShadingError,
 }: Canvas3DInnerProps) {
   // Get canvas context
   const {
@@ -102,26 +173,41 @@ function Canvas3DInner({
     imageWidth,
     polygons,
     buildings,
+    panelArrays,
+    modules,
     isDraggingPoint,
     pixelsPerMeter,
     planeWidth,
+    selection,
   } = useCanvasContext()
 
   // Get tool manager
   const toolManager = useToolManager()
+  const { snapSettings, setSnapSettings } = useToolContext()
 
   // Derive tool flags from active tool
-  const isAddingPolygon = toolManager.activeTool === 'polygon'
+  const isAddingPolygon = toolManager.activeTool === 'polygon' || toolManager.activeTool === 'obstruction'
+  const isDrawingRectangle = toolManager.activeTool === 'rectangle'
+  const isSplitting = toolManager.activeTool === 'split'
   const isAddingLine = toolManager.activeTool === 'line'
   const isAddingBuilding = toolManager.activeTool === 'building'
   const isPerpendicular = toolManager.activeTool === 'perpendicular'
   const isCalibrating = toolManager.activeTool === 'calibration'
   const isMeasuring = toolManager.activeTool === 'measurement'
+  const isPlacingPanels = toolManager.activeTool === 'panels'
+  const isSelecting = toolManager.activeTool === 'select'
+
+  // Roof outlines and obstructions are drawn the same way
+  const drawingTool = toolManager.activeTool === 'obstruction' ? toolManager.obstructionTool : toolManager.polygonTool
 
   // Local UI state
   const [isDragging, setIsDragging] = useState(false)
   const [compassRotation, setCompassRotation] = useState(0)
   const [internalTimeOfDay, setInternalTimeOfDay] = useState(10)
+  const [internalHeatmap, setInternalHeatmap] = useState<HeatmapMode>('off')
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const [selectionBox, setSelectionBox] = useState<ScreenRect | null>(null)
 
   const inputRef = useRef<HTMLInputElement>(null)
   const orbitControlsRef = useRef<React.ComponentRef<typeof OrbitControls> | null>(null)
@@ -136,26 +222,72 @@ function Canvas3DInner({
     onTimeOfDayChange?.(newTime)
   }, [controlledTimeOfDay, onTimeOfDayChange])
 
+  // Heatmap mode can be controlled or uncontrolled
+  const heatmap = controlledHeatmap !== undefined ? controlledHeatmap : internalHeatmap
+
+  const handleHeatmapChange = useCallback((newHeatmap: HeatmapMode) => {
+    if (controlledHeatmap === undefined) {
+      setInternalHeatmap(newHeatmap)
+    }
+    onHeatmapChange?.(newHeatmap)
+  }, [controlledHeatmap, onHeatmapChange])
+
+  // Analyze shading only while the heatmap is shown and no analysis is provided
+  const { analysis: internalShading, error: shadingError } = useShadingAnalysis({
+    polygons,
+    buildings,
+    panelArrays,
+    latitude,
+    longitude,
+    date,
+    weather,
+    enabled: heatmap !== 'off' && providedShading === undefined,
+  })
+  const shading = providedShading !== undefined ? providedShading : internalShading
+
+  useEffect(() => {
+    if (shadingError) onShadingError?.(shadingError)
+  }, [shadingError, onShadingError])
+
+  const heatmapData = useMemo(
+    () => (heatmap !== 'off' && shading && latitude !== undefined ? buildHeatmapData(shading, heatmap, latitude) : null),
+    [heatmap, shading, latitude]
+  )
+
+  const hasLocation = latitude !== undefined && longitude !== undefined
+
+  const selectedPolygonIds = useMemo(() => getSelectedPolygonIds(buildings, selection), [buildings, selection])
+
   // Use outline color prop or tool manager's calculated color
   const currentColor = outlineColor || toolManager.currentColor
 
-  // File handling
-  const handleFile = useCallback(
-    (file: File) => {
-      if (!file.type.startsWith('image/')) return
-
-      const url = URL.createObjectURL(file)
+  // Shows an image once its dimensions are known
+  const loadImage = useCallback(
+    (url: string, onLoad?: () => void) => {
       const img = new Image()
       img.onload = () => {
         setAspectRatio(img.width / img.height)
         setImageWidth(img.width)
         setImageUrl(url)
-        onImageLoad?.(file)
+        onLoad?.()
         onImageDimensionsChange?.(img.width, img.height)
       }
       img.src = url
     },
-    [setImageUrl, setAspectRatio, setImageWidth, onImageLoad, onImageDimensionsChange]
+    [setImageUrl, setAspectRatio, setImageWidth, onImageDimensionsChange]
+  )
+
+  useEffect(() => {
+    if (providedImageUrl) loadImage(providedImageUrl)
+  }, [providedImageUrl, loadImage])
+
+  // File handling
+  const handleFile = useCallback(
+    (file: File) => {
+      if (!file.type.startsWith('image/')) return
+      loadImage(URL.createObjectURL(file), () => onImageLoad?.(file))
+    },
+    [loadImage, onImageLoad]
   )
 
   const handleDrop = useCallback(
@@ -197,6 +329,40 @@ function Canvas3DInner({
     }
   }, [imageUrl])
 
+  // Download the model as model.glb, in meters when the scale is known
+  const handleExport = useCallback(async () => {
+    setIsExporting(true)
+    setExportError(null)
+    try {
+      const buffer = await exportGLB({
+        polygons,
+        buildings,
+        panelArrays,
+        imageUrl,
+        aspectRatio,
+        unitsPerMeter: getUnitsPerMeter(pixelsPerMeter, imageWidth) ?? undefined,
+      })
+      const url = URL.createObjectURL(new Blob([buffer], { type: 'model/gltf-binary' }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = 'model.glb'
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      setExportError(`Export failed: ${error instanceof Error ? error.message : String(error)}`)
+      onExportError?.(error)
+    } finally {
+      setIsExporting(false)
+    }
+  }, [polygons, buildings, panelArrays, imageUrl, aspectRatio, pixelsPerMeter, imageWidth, onExportError])
+
+  // Keep an export error in the status bar for a while, then go back to the tool's hints
+  useEffect(() => {
+    if (!exportError) return
+    const timeout = window.setTimeout(() => setExportError(null), EXPORT_ERROR_DURATION)
+    return () => window.clearTimeout(timeout)
+  }, [exportError])
+
   // Get handlers from tool manager (properly typed now)
   const handlers = toolManager.handlers
 
@@ -236,12 +402,14 @@ function Canvas3DInner({
           latitude={latitude}
           longitude={longitude}
           date={date}
-          isAddingPolygon={isAddingPolygon}
+          isAddingPolygon={isAddingPolygon || isDrawingRectangle || isSplitting}
           isAddingLine={isAddingLine}
           isAddingBuilding={isAddingBuilding}
           isPerpendicular={isPerpendicular}
           isCalibrating={isCalibrating}
           isMeasuring={isMeasuring}
+          isPlacingPanels={isPlacingPanels}
+          isSelecting={isSelecting}
           calibrationPoints={toolManager.calibrationPoints}
           measurementPoints={toolManager.measurementPoints}
           selectedLinePoints={toolManager.selectedLinePoints}
@@ -255,14 +423,24 @@ function Canvas3DInner({
                 }
               : null
           }
+          rectanglePreview={isDrawingRectangle ? toolManager.rectangleTool.state.previewPoints : null}
+          cutPreview={isSplitting ? toolManager.splitTool.state.previewPoints : null}
+          selection={selection}
+          selectedPolygonIds={selectedPolygonIds}
+          selectionCenter={toolManager.selectTool.selectionCenter}
+          transformMode={toolManager.selectTool.state.transformMode}
           polygons={polygons}
           buildings={buildings}
+          panelArrays={panelArrays}
+          heatmap={heatmapData}
           currentPoints={toolManager.currentPoints}
           currentColor={currentColor}
+          snapIndicator={toolManager.snapIndicator}
           pixelsPerMeter={pixelsPerMeter}
           imageWidth={imageWidth}
           planeWidth={planeWidth}
           onPlaneClick={handlers.onPlaneClick!}
+          onPlaneHover={handlers.onPlaneHover!}
           onCalibrationClick={handlers.onPlaneClick!}
           onMeasurementClick={handlers.onPlaneClick!}
           onPointDragStart={handlers.onPointDragStart!}
@@ -271,15 +449,31 @@ function Canvas3DInner({
           onPointDelete={handlers.onPointDelete!}
           onAddPointOnEdge={handlers.onEdgeClick!}
           onPointSelect={handlers.onPointClick!}
-          onClosePolygon={toolManager.polygonTool.handleFinishPolygon}
+          onClosePolygon={drawingTool.handleFinishPolygon}
           onPolygonClick={handlers.onPolygonClick!}
+          onPointToggleSelect={handlers.onPointClick!}
+          onBuildingSelect={handlers.onBuildingClick!}
           onDeleteBuilding={handlers.onBuildingClick!}
+          onRoofFaceClick={handlers.onRoofFaceClick!}
+          onDeletePanelArray={handlers.onPanelArrayClick!}
+          onSelectionBoxChange={setSelectionBox}
+          onBoxSelect={toolManager.selectTool.onBoxSelect}
+          onTransformStart={toolManager.selectTool.onTransformStart}
+          onTransform={toolManager.selectTool.onTransform}
+          onTransformEnd={toolManager.selectTool.onTransformEnd}
           orbitControlsRef={orbitControlsRef}
           isDraggingPoint={isDraggingPoint}
           onCompassRotationChange={setCompassRotation}
         />
       </Canvas>
 
+      {selectionBox && (
+        <div
+          className="canvas3d-selection-box"
+          style={{ left: selectionBox.left, top: selectionBox.top, width: selectionBox.width, height: selectionBox.height }}
+        />
+      )}
+
       {imageUrl && (
         <div className="canvas3d-top-right">
           {showTimeControl && (
@@ -288,6 +482,13 @@ function Canvas3DInner({
               onTimeChange={handleTimeOfDayChange}
             />
           )}
+          {showHeatmapControl && hasLocation && (
+            <HeatmapLegend
+              mode={heatmap}
+              range={heatmapData}
+              onModeChange={handleHeatmapChange}
+            />
+          )}
           <CompassDisplay rotation={compassRotation} />
         </div>
       )}
@@ -297,7 +498,12 @@ function Canvas3DInner({
           activeTool={toolManager.activeTool}
           onSelectTool={toolManager.setActiveTool}
           polygonsCount={polygons.length}
+          roofPolygonsCount={polygons.filter((p) => !isObstruction(p)).length}
           historyContext={historyContext}
+          snapEnabled={snapSettings.enabled}
+          onToggleSnap={showSnapControl ? () => setSnapSettings({ ...snapSettings, enabled: !snapSettings.enabled }) : undefined}
+          onExport={showExportButton ? handleExport : undefined}
+          isExporting={isExporting}
         />
       )}
 
@@ -305,13 +511,26 @@ function Canvas3DInner({
         <PolygonActions
           canUndo={toolManager.currentPoints.length > 0}
           canFinish={toolManager.currentPoints.length >= 3}
-          onUndo={toolManager.polygonTool.handleUndoPoint}
-          onFinish={toolManager.polygonTool.handleFinishPolygon}
+          onUndo={drawingTool.handleUndoPoint}
+          onFinish={drawingTool.handleFinishPolygon}
           onCancel={handlers.onCancel!}
         />
       )}
 
-      <StatusBar text={toolManager.statusText} />
+      {isSelecting && !isSelectionEmpty(selection) && (
+        <TransformPanel
+          mode={toolManager.selectTool.state.transformMode}
+          onModeChange={toolManager.selectTool.setTransformMode}
+          onClear={toolManager.selectTool.clearSelection}
+          canCopy={selectedPolygonIds.length > 0}
+          canPaste={toolManager.selectTool.canPaste}
+          onCopy={toolManager.selectTool.onCopy}
+          onPaste={toolManager.selectTool.onPaste}
+          onDuplicate={toolManager.selectTool.onDuplicate}
+        />
+      )}
+
+      <StatusBar text={exportError ?? toolManager.statusText} />
 
       {isCalibrating && (
         <CalibrationPanel
@@ -334,6 +553,20 @@ function Canvas3DInner({
           onClear={toolManager.measurementTool.handleClearMeasurement}
         />
       )}
+
+      {isPlacingPanels && (
+        <PanelLayoutPanel
+          show={toolManager.panelTool.state.isCalibrated}
+          modules={modules}
+          selectedModule={toolManager.panelTool.state.module}
+          settings={toolManager.panelTool.state.settings}
+          panelCount={panelArrays.reduce((count, array) => count + array.panels.length, 0)}
+          totalPower={panelArrays.reduce((power, array) => power + array.panels.length * array.module.power, 0)}
+          onModuleChange={toolManager.panelTool.setPanelModuleId}
+          onSettingsChange={toolManager.panelTool.setPanelSettings}
+          onClear={toolManager.panelTool.handleClearPanelArrays}
+        />
+      )}
     </div>
   )
 }
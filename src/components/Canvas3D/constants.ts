@@ -1,8 +1,59 @@
+import type { PanelLayoutSettings, PVModule } from './types'
+import type { SnapKind } from '../../utils/snapping'
+
 export const OUTLINE_HEIGHT = 0.01
 export const POINT_SIZE = 0.05
 export const POINT_SIZE_HOVER = 0.07
 export const BASE_CAMERA_DISTANCE = 8 // Reference distance for point size scaling
 export const PLANE_WIDTH = 5
 export const MIN_DISTANCE_FROM_POINT = 0.15
+export const DEFAULT_ROOF_PITCH = 30 // degrees
+export const PANEL_OFFSET = 0.005 // lift panels above the surface to avoid z-fighting
+export const PANEL_COLOR = '#1e3a8a'
+export const SELECTION_COLOR = '#00ff00'
+export const CLICK_DRAG_TOLERANCE = 4 // pixels the pointer may move for a press to still count as a click
+export const ISSUE_ERROR_COLOR = '#ff1744' // outline problems that break extrusion or roof faces
+export const ISSUE_WARNING_COLOR = '#ffab00'
+export const PASTE_OFFSET = 0.2 // shift of pasted polygons along X and Z, so they don't cover the originals
+export const EXPORT_ERROR_DURATION = 6000 // how long a failed export stays in the status bar, in milliseconds
+
+export const SNAP_COLORS: Record<SnapKind, string> = {
+  vertex: '#ff00ff',
+  midpoint: '#00ffff',
+  edge: '#00ff88',
+  angle: '#ffaa00',
+  parallel: '#ffaa00',
+  perpendicular: '#ffaa00',
+  grid: '#aaaaaa',
+}
+
+export const DEFAULT_PV_MODULES: PVModule[] = [
+  {
+    id: 'generic-400',
+    name: 'Generic 400 Wp',
+    width: 1.13,
+    height: 1.72,
+    power: 400,
+    efficiency: 0.205,
+    temperatureCoefficient: -0.35,
+  },
+  {
+    id: 'generic-450',
+    name: 'Generic 450 Wp',
+    width: 1.13,
+    height: 1.96,
+    power: 450,
+    efficiency: 0.203,
+    temperatureCoefficient: -0.34,
+  },
+]
+
+export const DEFAULT_PANEL_LAYOUT: PanelLayoutSettings = {
+  orientation: 'portrait',
+  rowSpacing: 0.02,
+  columnSpacing: 0.02,
+  setback: 0.3,
+}
 
 export const COLORS = ['#ff4444', '#44ff44', '#4444ff', '#ffff44', '#ff44ff', '#44ffff']
+export const OBSTRUCTION_COLOR = '#ff8c00'
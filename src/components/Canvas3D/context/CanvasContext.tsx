@@ -1,7 +1,11 @@
 import { createContext, useContext, useState, useCallback, useEffect, useMemo } from 'react'
-import type { Polygon, Building } from '../types'
+import * as THREE from 'three'
+import type { Polygon, Building, RoofFace, PanelArray, PVModule, Selection } from '../types'
 import type { HistoryContextValue } from '../../../hooks/useHistory'
-import { PLANE_WIDTH } from '../constants'
+import { PLANE_WIDTH, DEFAULT_PV_MODULES } from '../constants'
+import { getBuildingRoof } from '../../../utils/roof'
+import { EMPTY_SELECTION } from '../../../utils/selection'
+import { DEFAULT_VALIDATION_TOLERANCE } from '../../../utils/validation'
 
 export interface CanvasContextValue {
   // Image state
@@ -24,9 +28,20 @@ export interface CanvasContextValue {
   buildings: Building[]
   setBuildings: (buildings: Building[]) => void
 
+  // PV panel arrays
+  panelArrays: PanelArray[]
+  setPanelArrays: (panelArrays: PanelArray[]) => void
+
+  // PV module catalog
+  modules: PVModule[]
+
   // History
   historyContext?: HistoryContextValue
 
+  // Selected polygons, corners and buildings
+  selection: Selection
+  setSelection: (selection: Selection) => void
+
   // Drag state
   isDraggingPoint: boolean
   setIsDraggingPoint: (dragging: boolean) => void
@@ -36,42 +51,93 @@ export interface CanvasContextValue {
 
   // Measurement
   pixelsPerMeter: number | null
+
+  // Editing
+  /** Whether corners at the same position in several polygons move together */
+  shareVertices: boolean
+  /** Distance below which neighbouring corners are merged when a polygon is drawn or edited */
+  vertexMergeTolerance: number
 }
 
 const CanvasContext = createContext<CanvasContextValue | null>(null)
 
+const ROOF_TOLERANCE = 1e-9
+
+// Whether the building already holds the given roof (avoids update loops when syncing)
+function isSameRoof(building: Building, vertices: THREE.Vector3[], faces: RoofFace[]): boolean {
+  const currentVertices = building.roofVertices
+  const currentFaces = building.roofFaces
+  if (!currentVertices || !currentFaces) return false
+  if (currentVertices.length !== vertices.length || currentFaces.length !== faces.length) return false
+
+  const verticesMatch = vertices.every((v, i) => v.distanceTo(currentVertices[i]) <= ROOF_TOLERANCE)
+  const facesMatch = faces.every((face, i) => {
+    const current = currentFaces[i]
+    return (
+      face.vertexIndices.length === current.vertexIndices.length &&
+      face.vertexIndices.every((index, j) => index === current.vertexIndices[j]) &&
+      Math.abs(face.pitch - current.pitch) <= ROOF_TOLERANCE &&
+      Math.abs(face.azimuth - current.azimuth) <= ROOF_TOLERANCE &&
+      Math.abs(face.area - current.area) <= ROOF_TOLERANCE
+    )
+  })
+
+  return verticesMatch && facesMatch
+}
+
 export interface CanvasProviderProps {
   children: React.ReactNode
   controlledPolygons?: Polygon[]
   controlledBuildings?: Building[]
+  controlledPanelArrays?: PanelArray[]
+  modules?: PVModule[]
   historyContext?: HistoryContextValue
   pixelsPerMeter?: number
+  shareVertices?: boolean
+  vertexMergeTolerance?: number
+  controlledSelection?: Selection
   onPolygonsChange?: (polygons: Polygon[]) => void
   onBuildingsChange?: (buildings: Building[]) => void
+  onPanelArraysChange?: (panelArrays: PanelArray[]) => void
+  onSelectionChange?: (selection: Selection) => void
 }
 
 export function CanvasProvider({
   children,
   controlledPolygons,
   controlledBuildings,
+  controlledPanelArrays,
+  modules = DEFAULT_PV_MODULES,
   historyContext,
   pixelsPerMeter,
+  shareVertices = true,
+  vertexMergeTolerance = DEFAULT_VALIDATION_TOLERANCE,
+  controlledSelection,
   onPolygonsChange,
   onBuildingsChange,
+  onPanelArraysChange,
+  onSelectionChange,
 }: CanvasProviderProps) {
   const [imageUrl, setImageUrl] = useState<string | null>(null)
   const [aspectRatio, setAspectRatio] = useState(1)
   const [imageWidth, setImageWidth] = useState<number | null>(null)
   const [internalPolygons, setInternalPolygons] = useState<Polygon[]>([])
   const [internalBuildings, setInternalBuildings] = useState<Building[]>([])
+  const [internalPanelArrays, setInternalPanelArrays] = useState<PanelArray[]>([])
+  const [internalSelection, setInternalSelection] = useState<Selection>(EMPTY_SELECTION)
   const [isDraggingPoint, setIsDraggingPoint] = useState(false)
 
   const isControlled = controlledPolygons !== undefined
   const isBuildingsControlled = controlledBuildings !== undefined
+  const isPanelArraysControlled = controlledPanelArrays !== undefined
 
   // Always render from internal state for smooth drag feedback
   const polygons = internalPolygons
   const buildings = isBuildingsControlled ? controlledBuildings : internalBuildings
+  const panelArrays = isPanelArraysControlled ? controlledPanelArrays : internalPanelArrays
+
+  // Selection can be controlled or uncontrolled
+  const selection = controlledSelection !== undefined ? controlledSelection : internalSelection
 
   // Sync internal state with controlled props (but not during drag)
   useEffect(() => {
@@ -86,7 +152,13 @@ export function CanvasProvider({
     }
   }, [isBuildingsControlled, controlledBuildings])
 
-  // Sync building points with polygon points when polygons change
+  useEffect(() => {
+    if (isPanelArraysControlled) {
+      setInternalPanelArrays(controlledPanelArrays)
+    }
+  }, [isPanelArraysControlled, controlledPanelArrays])
+
+  // Sync building points and roof faces with polygon points and lines when they change
   useEffect(() => {
     const currentBuildings = isBuildingsControlled ? controlledBuildings : internalBuildings
     if (currentBuildings.length === 0) return
@@ -105,11 +177,15 @@ export function CanvasProvider({
             p.z !== building.points[i].z
         )
 
-      if (!pointsChanged) return building
+      const synced = pointsChanged ? { ...building, points: polygon.points.map((p) => p.clone()) } : building
+      const roof = getBuildingRoof(synced, polygons)
+
+      if (!pointsChanged && isSameRoof(building, roof.vertices, roof.faces)) return building
 
       return {
-        ...building,
-        points: polygon.points.map((p) => p.clone()),
+        ...synced,
+        roofVertices: roof.vertices,
+        roofFaces: roof.faces,
       }
     })
 
@@ -143,6 +219,26 @@ export function CanvasProvider({
     [isBuildingsControlled, onBuildingsChange]
   )
 
+  const setPanelArrays = useCallback(
+    (newPanelArrays: PanelArray[]) => {
+      if (!isPanelArraysControlled) {
+        setInternalPanelArrays(newPanelArrays)
+      }
+      onPanelArraysChange?.(newPanelArrays)
+    },
+    [isPanelArraysControlled, onPanelArraysChange]
+  )
+
+  const setSelection = useCallback(
+    (newSelection: Selection) => {
+      if (controlledSelection === undefined) {
+        setInternalSelection(newSelection)
+      }
+      onSelectionChange?.(newSelection)
+    },
+    [controlledSelection, onSelectionChange]
+  )
+
   // Commit current internal polygons to external state (used at drag end to avoid stale closures)
   const commitPolygons = useCallback(() => {
     setInternalPolygons((current) => {
@@ -165,11 +261,18 @@ export function CanvasProvider({
     commitPolygons,
     buildings,
     setBuildings,
+    panelArrays,
+    setPanelArrays,
+    modules,
     historyContext,
+    selection,
+    setSelection,
     isDraggingPoint,
     setIsDraggingPoint,
     planeWidth: PLANE_WIDTH,
     pixelsPerMeter: pixelsPerMeter ?? null,
+    shareVertices,
+    vertexMergeTolerance,
   }), [
     imageUrl,
     aspectRatio,
@@ -180,9 +283,16 @@ export function CanvasProvider({
     commitPolygons,
     buildings,
     setBuildings,
+    panelArrays,
+    setPanelArrays,
+    modules,
     historyContext,
+    selection,
+    setSelection,
     isDraggingPoint,
     pixelsPerMeter,
+    shareVertices,
+    vertexMergeTolerance,
   ])
 
   return (
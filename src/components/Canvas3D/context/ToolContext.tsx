@@ -1,6 +1,10 @@
 import { createContext, useContext, useState, useCallback, useMemo } from 'react'
 import * as THREE from 'three'
-import type { ToolName } from '../types'
+import type { ToolName, PanelLayoutSettings, TransformMode } from '../types'
+import { DEFAULT_PANEL_LAYOUT } from '../constants'
+import { DEFAULT_SNAP_SETTINGS } from '../../../utils/snapping'
+import type { SnapSettings, SnapResult } from '../../../utils/snapping'
+import type { ClipboardContent } from '../../../utils/clipboard'
 
 export interface ToolContextValue {
   // Active tool
@@ -29,6 +33,26 @@ export interface ToolContextValue {
   measurementCopyFeedback: boolean
   setMeasurementCopyFeedback: React.Dispatch<React.SetStateAction<boolean>>
 
+  // Panel tool state
+  panelModuleId: string | null
+  setPanelModuleId: React.Dispatch<React.SetStateAction<string | null>>
+  panelSettings: PanelLayoutSettings
+  setPanelSettings: React.Dispatch<React.SetStateAction<PanelLayoutSettings>>
+
+  // Snapping settings and the snap shown under the cursor
+  snapSettings: SnapSettings
+  setSnapSettings: (settings: SnapSettings) => void
+  snapIndicator: SnapResult | null
+  setSnapIndicator: React.Dispatch<React.SetStateAction<SnapResult | null>>
+
+  // Gizmo shown for the selection in the select tool
+  transformMode: TransformMode
+  setTransformMode: React.Dispatch<React.SetStateAction<TransformMode>>
+
+  // Polygons and buildings copied in the select tool
+  clipboard: ClipboardContent | null
+  setClipboard: React.Dispatch<React.SetStateAction<ClipboardContent | null>>
+
   // Tool switching helper
   handleSelectTool: (tool: ToolName) => void
 }
@@ -37,9 +61,12 @@ const ToolContext = createContext<ToolContextValue | null>(null)
 
 export interface ToolProviderProps {
   children: React.ReactNode
+  /** Controlled snapping settings */
+  snapSettings?: SnapSettings
+  onSnapSettingsChange?: (settings: SnapSettings) => void
 }
 
-export function ToolProvider({ children }: ToolProviderProps) {
+export function ToolProvider({ children, snapSettings: controlledSnapSettings, onSnapSettingsChange }: ToolProviderProps) {
   const [activeTool, setActiveTool] = useState<ToolName>('select')
   const [selectedLinePoints, setSelectedLinePoints] = useState<{
     polygonId: string
@@ -51,9 +78,25 @@ export function ToolProvider({ children }: ToolProviderProps) {
   const [copyFeedback, setCopyFeedback] = useState<boolean>(false)
   const [measurementPoints, setMeasurementPoints] = useState<THREE.Vector3[]>([])
   const [measurementCopyFeedback, setMeasurementCopyFeedback] = useState<boolean>(false)
+  const [panelModuleId, setPanelModuleId] = useState<string | null>(null)
+  const [panelSettings, setPanelSettings] = useState<PanelLayoutSettings>(DEFAULT_PANEL_LAYOUT)
+  const [internalSnapSettings, setInternalSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS)
+  const [snapIndicator, setSnapIndicator] = useState<SnapResult | null>(null)
+  const [transformMode, setTransformMode] = useState<TransformMode>('translate')
+  const [clipboard, setClipboard] = useState<ClipboardContent | null>(null)
+
+  // Snapping settings can be controlled or uncontrolled
+  const snapSettings = controlledSnapSettings !== undefined ? controlledSnapSettings : internalSnapSettings
+
+  const setSnapSettings = useCallback((settings: SnapSettings) => {
+    if (controlledSnapSettings === undefined) {
+      setInternalSnapSettings(settings)
+    }
+    onSnapSettingsChange?.(settings)
+  }, [controlledSnapSettings, onSnapSettingsChange])
 
   const handleSelectTool = useCallback((tool: ToolName) => {
-    if (activeTool === 'polygon' && currentPoints.length > 0) {
+    if ((activeTool === 'polygon' || activeTool === 'obstruction' || activeTool === 'rectangle' || activeTool === 'split') && currentPoints.length > 0) {
       setCurrentPoints([])
     }
     if (activeTool === 'calibration') {
@@ -63,6 +106,7 @@ export function ToolProvider({ children }: ToolProviderProps) {
       setMeasurementPoints([])
     }
     setSelectedLinePoints(null)
+    setSnapIndicator(null)
     setActiveTool(tool)
   }, [activeTool, currentPoints.length])
 
@@ -83,6 +127,18 @@ export function ToolProvider({ children }: ToolProviderProps) {
     setMeasurementPoints,
     measurementCopyFeedback,
     setMeasurementCopyFeedback,
+    panelModuleId,
+    setPanelModuleId,
+    panelSettings,
+    setPanelSettings,
+    snapSettings,
+    setSnapSettings,
+    snapIndicator,
+    setSnapIndicator,
+    transformMode,
+    setTransformMode,
+    clipboard,
+    setClipboard,
     handleSelectTool,
   }), [
     activeTool,
@@ -93,6 +149,13 @@ export function ToolProvider({ children }: ToolProviderProps) {
     copyFeedback,
     measurementPoints,
     measurementCopyFeedback,
+    panelModuleId,
+    panelSettings,
+    snapSettings,
+    setSnapSettings,
+    snapIndicator,
+    transformMode,
+    clipboard,
     handleSelectTool,
   ])
 
@@ -3,7 +3,21 @@ export { Canvas3D } from './Canvas3D'
 export type { Canvas3DProps } from './Canvas3D'
 
 // Types
-export type { Polygon, Building, ToolName } from './types'
+export type {
+  Polygon,
+  PolygonKind,
+  Building,
+  RoofType,
+  RoofFace,
+  PVModule,
+  PanelArray,
+  PanelLayoutSettings,
+  PanelOrientation,
+  HeatmapMode,
+  Selection,
+  TransformMode,
+  ToolName,
+} from './types'
 
 // Re-export types from Canvas3D for backwards compatibility
 export type { Polygon as PolygonType, Building as BuildingType } from './types'
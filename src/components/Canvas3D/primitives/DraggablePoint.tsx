@@ -14,6 +14,8 @@ export interface DraggablePointProps {
   onDragEnd: () => void
   onDelete: () => void
   onSelect: () => void
+  /** Shift-press outside select mode; the point is added to or removed from the selection instead of dragged */
+  onToggleSelect?: () => void
 }
 
 export function DraggablePoint({
@@ -27,6 +29,7 @@ export function DraggablePoint({
   onDragEnd,
   onDelete,
   onSelect,
+  onToggleSelect,
 }: DraggablePointProps) {
   const meshRef = useRef<THREE.Mesh>(null)
   const [isHovered, setIsHovered] = useState(false)
@@ -80,12 +83,24 @@ export function DraggablePoint({
       e.stopPropagation()
       if (isSelectMode) {
         onSelect()
+      } else if (onToggleSelect && e.nativeEvent.shiftKey) {
+        onToggleSelect()
       } else {
         setIsDragging(true)
         onDragStart()
       }
     },
-    [isSelectMode, onSelect, onDragStart]
+    [isSelectMode, onSelect, onToggleSelect, onDragStart]
+  )
+
+  // The point was already picked on pointer down; keep the click from reaching the image plane
+  const handleClick = useCallback(
+    (e: ThreeEvent<MouseEvent>) => {
+      if (isSelectMode) {
+        e.stopPropagation()
+      }
+    },
+    [isSelectMode]
   )
 
   const handleContextMenu = useCallback(
@@ -114,6 +129,7 @@ export function DraggablePoint({
       ref={meshRef}
       position={position}
       onPointerDown={handlePointerDown}
+      onClick={handleClick}
       onContextMenu={handleContextMenu}
       onPointerOver={() => setIsHovered(true)}
       onPointerOut={() => setIsHovered(false)}
@@ -3,6 +3,8 @@ import { Text } from '@react-three/drei'
 import { useThree, useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
 import { BASE_CAMERA_DISTANCE } from '../constants'
+import { getUnitsPerMeter } from '../../../utils/geometry'
+import { formatLength } from '../../../utils/format'
 
 export interface EdgeLabelProps {
   start: THREE.Vector3
@@ -28,14 +30,9 @@ export function EdgeLabel({
 
   // Calculate static values for label placement
   const { midpoint, outwardNormal, lengthMeters, rotation } = useMemo(() => {
-    // Calculate distance in 3D units
-    const distance3D = start.distanceTo(end)
-
-    // Convert to pixels: planeWidth units = imageWidth pixels
-    const distancePixels = distance3D * (imageWidth / planeWidth)
-
-    // Convert to meters
-    const meters = distancePixels / pixelsPerMeter
+    // Convert the distance in 3D units to meters
+    const unitsPerMeter = getUnitsPerMeter(pixelsPerMeter, imageWidth, planeWidth)
+    const meters = unitsPerMeter ? start.distanceTo(end) / unitsPerMeter : NaN
 
     // Calculate midpoint
     const mid = new THREE.Vector3().addVectors(start, end).multiplyScalar(0.5)
@@ -107,9 +104,7 @@ export function EdgeLabel({
     return null
   }
 
-  const labelText = lengthMeters >= 1
-    ? `${lengthMeters.toFixed(2)}m`
-    : `${(lengthMeters * 100).toFixed(0)}cm`
+  const labelText = formatLength(lengthMeters)
 
   return (
     <Text
@@ -1,15 +1,17 @@
 import { useState, useCallback, useMemo } from 'react'
 import { ThreeEvent } from '@react-three/fiber'
 import * as THREE from 'three'
-import { OUTLINE_HEIGHT } from '../constants'
+import { OUTLINE_HEIGHT, SELECTION_COLOR, CLICK_DRAG_TOLERANCE } from '../constants'
 
 export interface PolygonFillProps {
   points: THREE.Vector3[]
   color: string
-  onClick: () => void
+  isSelected?: boolean
+  /** additive is set for shift-clicks */
+  onClick: (additive: boolean) => void
 }
 
-export function PolygonFill({ points, color, onClick }: PolygonFillProps) {
+export function PolygonFill({ points, color, isSelected = false, onClick }: PolygonFillProps) {
   const [isHovered, setIsHovered] = useState(false)
 
   const geometry = useMemo(() => {
@@ -28,7 +30,9 @@ export function PolygonFill({ points, color, onClick }: PolygonFillProps) {
   const handleClick = useCallback(
     (e: ThreeEvent<MouseEvent>) => {
       e.stopPropagation()
-      onClick()
+      // Ignore the click that ends a camera drag
+      if (e.delta > CLICK_DRAG_TOLERANCE) return
+      onClick(e.nativeEvent.shiftKey)
     },
     [onClick]
   )
@@ -43,9 +47,9 @@ export function PolygonFill({ points, color, onClick }: PolygonFillProps) {
       onPointerOut={() => setIsHovered(false)}
     >
       <meshBasicMaterial
-        color={isHovered ? '#00ff00' : color}
+        color={isHovered || isSelected ? SELECTION_COLOR : color}
         transparent
-        opacity={isHovered ? 0.4 : 0.2}
+        opacity={isHovered || isSelected ? 0.4 : 0.2}
         side={THREE.DoubleSide}
       />
     </mesh>
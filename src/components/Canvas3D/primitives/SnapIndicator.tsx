@@ -0,0 +1,45 @@
+import { useRef } from 'react'
+import { useThree, useFrame } from '@react-three/fiber'
+import { Line } from '@react-three/drei'
+import * as THREE from 'three'
+import { POINT_SIZE_HOVER, BASE_CAMERA_DISTANCE, SNAP_COLORS } from '../constants'
+import type { SnapResult } from '../../../utils/snapping'
+
+export interface SnapIndicatorProps {
+  snap: SnapResult
+}
+
+/**
+ * Ring at the snapped cursor position, with a dashed guide along the edge or direction it snapped to
+ */
+export function SnapIndicator({ snap }: SnapIndicatorProps) {
+  const meshRef = useRef<THREE.Mesh>(null)
+  const { camera } = useThree()
+  const color = snap.kind ? SNAP_COLORS[snap.kind] : '#ffffff'
+
+  useFrame(() => {
+    if (meshRef.current) {
+      const distance = camera.position.distanceTo(snap.point)
+      meshRef.current.scale.setScalar(distance / BASE_CAMERA_DISTANCE)
+    }
+  })
+
+  return (
+    <>
+      <mesh ref={meshRef} position={snap.point} rotation={[-Math.PI / 2, 0, 0]} renderOrder={1}>
+        <ringGeometry args={[POINT_SIZE_HOVER, POINT_SIZE_HOVER * 1.5, 32]} />
+        <meshBasicMaterial color={color} side={THREE.DoubleSide} depthTest={false} transparent />
+      </mesh>
+      {snap.guide && (
+        <Line
+          points={snap.guide}
+          color={color}
+          lineWidth={1.5}
+          dashed
+          dashSize={0.03}
+          gapSize={0.03}
+        />
+      )}
+    </>
+  )
+}
@@ -0,0 +1,112 @@
+import { useEffect, useRef } from 'react'
+import { useThree } from '@react-three/fiber'
+import { OrbitControls } from '@react-three/drei'
+import type { Polygon, Building, Selection } from '../types'
+import { findInScreenRect } from '../../../utils/selection'
+import type { ScreenRect } from '../../../utils/selection'
+import { CLICK_DRAG_TOLERANCE } from '../constants'
+
+export interface BoxSelectProps {
+  enabled: boolean
+  polygons: Polygon[]
+  buildings: Building[]
+  orbitControlsRef: React.RefObject<React.ComponentRef<typeof OrbitControls> | null>
+  /** Rectangle being dragged, in pixels relative to the canvas, or null when there is none */
+  onBoxChange: (rect: ScreenRect | null) => void
+  onSelect: (items: Selection) => void
+}
+
+interface CanvasPoint {
+  x: number
+  y: number
+}
+
+function getRect(a: CanvasPoint, b: CanvasPoint): ScreenRect {
+  return {
+    left: Math.min(a.x, b.x),
+    top: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  }
+}
+
+/**
+ * Shift-drag on the canvas selects the polygons, corners and buildings inside the dragged rectangle.
+ * The camera controls are paused from the shift-press until the pointer is released.
+ */
+export function BoxSelect({ enabled, polygons, buildings, orbitControlsRef, onBoxChange, onSelect }: BoxSelectProps) {
+  const { camera, gl, size } = useThree()
+  // Kept in refs so the drag survives the listeners being re-attached
+  const startRef = useRef<CanvasPoint | null>(null)
+  const isBoxRef = useRef(false)
+  const controlsEnabledRef = useRef(true)
+
+  useEffect(() => {
+    if (!enabled) return
+    const canvas = gl.domElement
+
+    const toCanvas = (e: PointerEvent): CanvasPoint => {
+      const rect = canvas.getBoundingClientRect()
+      return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+    }
+
+    const restoreControls = () => {
+      if (orbitControlsRef.current) orbitControlsRef.current.enabled = controlsEnabledRef.current
+    }
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!e.shiftKey || e.button !== 0) return
+      startRef.current = toCanvas(e)
+      isBoxRef.current = false
+      const controls = orbitControlsRef.current
+      if (controls) {
+        controlsEnabledRef.current = controls.enabled
+        controls.enabled = false
+      }
+    }
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const start = startRef.current
+      if (!start) return
+      const current = toCanvas(e)
+      if (!isBoxRef.current && Math.hypot(current.x - start.x, current.y - start.y) <= CLICK_DRAG_TOLERANCE) return
+      isBoxRef.current = true
+      onBoxChange(getRect(start, current))
+    }
+
+    const handlePointerUp = (e: PointerEvent) => {
+      const start = startRef.current
+      if (!start) return
+      startRef.current = null
+      restoreControls()
+      if (!isBoxRef.current) return
+      isBoxRef.current = false
+      onBoxChange(null)
+      onSelect(findInScreenRect(polygons, buildings, getRect(start, toCanvas(e)), camera, size))
+    }
+
+    // Capture the press so the camera controls are paused before they handle it
+    canvas.addEventListener('pointerdown', handlePointerDown, { capture: true })
+    window.addEventListener('pointermove', handlePointerMove)
+    window.addEventListener('pointerup', handlePointerUp)
+
+    return () => {
+      canvas.removeEventListener('pointerdown', handlePointerDown, { capture: true })
+      window.removeEventListener('pointermove', handlePointerMove)
+      window.removeEventListener('pointerup', handlePointerUp)
+    }
+  }, [enabled, gl, camera, size, polygons, buildings, orbitControlsRef, onBoxChange, onSelect])
+
+  // Drop a drag that is still going when box selection is turned off
+  useEffect(() => {
+    if (enabled || !startRef.current) return
+    startRef.current = null
+    if (orbitControlsRef.current) orbitControlsRef.current.enabled = controlsEnabledRef.current
+    if (isBoxRef.current) {
+      isBoxRef.current = false
+      onBoxChange(null)
+    }
+  }, [enabled, orbitControlsRef, onBoxChange])
+
+  return null
+}
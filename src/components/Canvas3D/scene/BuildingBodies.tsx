@@ -1,31 +1,63 @@
-import type { Building } from '../types'
+import type { Polygon, Building, HeatmapData } from '../types'
 import { BuildingBody } from './BuildingBody'
 
+const EMPTY_LINES: [number, number][] = []
+
 export interface BuildingBodiesProps {
   buildings: Building[]
+  polygons: Polygon[]
   isAddingBuilding: boolean
+  isPlacingPanels: boolean
+  isSelecting: boolean
+  selectedBuildingIds: string[]
   imageUrl: string | null
   aspectRatio: number
   castShadow: boolean
+  heatmap: HeatmapData | null
   onDeleteBuilding: (buildingId: string) => void
+  onRoofFaceClick: (buildingId: string, faceIndex: number) => void
+  onSelectBuilding: (buildingId: string, additive: boolean) => void
 }
 
-export function BuildingBodies({ buildings, isAddingBuilding, imageUrl, aspectRatio, castShadow, onDeleteBuilding }: BuildingBodiesProps) {
+export function BuildingBodies({
+  buildings,
+  polygons,
+  isAddingBuilding,
+  isPlacingPanels,
+  isSelecting,
+  selectedBuildingIds,
+  imageUrl,
+  aspectRatio,
+  castShadow,
+  heatmap,
+  onDeleteBuilding,
+  onRoofFaceClick,
+  onSelectBuilding,
+}: BuildingBodiesProps) {
   return (
     <>
       {buildings.map((building) => {
         // Skip hidden buildings
         if (building.visible === false) return null
 
+        const polygon = polygons.find((p) => p.id === building.polygonId)
+
         return (
           <BuildingBody
             key={building.id}
             building={building}
+            lines={polygon?.lines ?? EMPTY_LINES}
             isAddingBuilding={isAddingBuilding}
+            isPlacingPanels={isPlacingPanels}
+            isSelecting={isSelecting}
+            isSelected={selectedBuildingIds.includes(building.id)}
             imageUrl={imageUrl}
             aspectRatio={aspectRatio}
             castShadow={castShadow}
+            heatmap={heatmap}
             onDelete={() => onDeleteBuilding(building.id)}
+            onRoofFaceClick={(faceIndex) => onRoofFaceClick(building.id, faceIndex)}
+            onSelect={(additive) => onSelectBuilding(building.id, additive)}
           />
         )
       })}
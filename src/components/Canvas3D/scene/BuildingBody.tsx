@@ -1,50 +1,49 @@
 import { useState, useCallback, useMemo } from 'react'
 import { ThreeEvent } from '@react-three/fiber'
+import { Line } from '@react-three/drei'
 import * as THREE from 'three'
-import type { Building } from '../types'
-import { PLANE_WIDTH } from '../constants'
+import type { Building, HeatmapData } from '../types'
+import { buildRoof, getRoofTriangles, getWallTriangles, applyAerialUVs } from '../../../utils/roof'
+import { getHeatmapColor, HEATMAP_NO_DATA_COLOR } from '../../../utils/heatmap'
+import { SELECTION_COLOR, CLICK_DRAG_TOLERANCE } from '../constants'
 
 export interface BuildingBodyProps {
   building: Building
+  /** Internal lines of the source polygon, used to split the roof into faces */
+  lines: [number, number][]
   isAddingBuilding: boolean
+  isPlacingPanels: boolean
+  /** Select tool is active; clicking the building selects it */
+  isSelecting: boolean
+  isSelected: boolean
   imageUrl: string | null
   aspectRatio: number
   castShadow: boolean
+  /** Insolation to color the roof faces with, or null for the regular roof */
+  heatmap: HeatmapData | null
   onDelete: () => void
-}
-
-// Apply UV mapping for aerial texture projection
-function applyAerialUVs(geometry: THREE.BufferGeometry, aspectRatio: number): void {
-  const planeHeight = PLANE_WIDTH / aspectRatio
-  const posAttribute = geometry.attributes.position
-
-  const uvs = new Float32Array(posAttribute.count * 2)
-
-  for (let i = 0; i < posAttribute.count; i++) {
-    const x = posAttribute.getX(i)
-    const z = posAttribute.getZ(i)
-
-    // Map world coordinates to UV (0-1 range)
-    const u = (x + PLANE_WIDTH / 2) / PLANE_WIDTH
-    // Flip v to match image orientation
-    const v = 1 - (z + planeHeight / 2) / planeHeight
-
-    uvs[i * 2] = u
-    uvs[i * 2 + 1] = v
-  }
-
-  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2))
+  onRoofFaceClick: (faceIndex: number) => void
+  /** additive is set for shift-clicks */
+  onSelect: (additive: boolean) => void
 }
 
 export function BuildingBody({
   building,
+  lines,
   isAddingBuilding,
+  isPlacingPanels,
+  isSelecting,
+  isSelected,
   imageUrl,
   aspectRatio,
   castShadow,
+  heatmap,
   onDelete,
+  onRoofFaceClick,
+  onSelect,
 }: BuildingBodyProps) {
   const [isHovered, setIsHovered] = useState(false)
+  const [hoveredFace, setHoveredFace] = useState<number | null>(null)
 
   // Load the image texture
   const texture = useMemo(() => {
@@ -54,45 +53,84 @@ export function BuildingBody({
     return tex
   }, [imageUrl])
 
-  // Create the extruded geometry for the walls
-  const wallsGeometry = useMemo(() => {
-    const shape = new THREE.Shape()
-    const firstPoint = building.points[0]
-    shape.moveTo(firstPoint.x, -firstPoint.z)
+  // Roof faces and wall profiles generated from the footprint and its internal lines
+  const roof = useMemo(
+    () => buildRoof(building.points, lines, building.height, building.roofType, building.roofPitch),
+    [building.points, lines, building.height, building.roofType, building.roofPitch]
+  )
 
-    for (let i = 1; i < building.points.length; i++) {
-      shape.lineTo(building.points[i].x, -building.points[i].z)
-    }
-    shape.closePath()
+  // Walls rise from the ground to the roof edge above each footprint edge
+  const wallsGeometry = useMemo(() => {
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(getWallTriangles(roof), 3))
+    geometry.computeVertexNormals()
+    return geometry
+  }, [roof])
 
-    const extrudeSettings = {
-      depth: building.height,
-      bevelEnabled: false,
-    }
+  // Roof surface: every face is triangulated separately so it keeps its own slope.
+  // triangleFaces maps each triangle back to the roof face it belongs to.
+  const { roofGeometry, triangleFaces } = useMemo(() => {
+    const { positions, faceOfTriangle } = getRoofTriangles(roof)
 
-    return new THREE.ExtrudeGeometry(shape, extrudeSettings)
-  }, [building.points, building.height])
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
+    geometry.computeVertexNormals()
 
-  // Create flat roof geometry (simple cap at top of walls)
-  const roofGeometry = useMemo(() => {
-    const shape = new THREE.Shape()
-    const firstPoint = building.points[0]
-    shape.moveTo(firstPoint.x, -firstPoint.z)
+    applyAerialUVs(geometry, aspectRatio)
 
-    for (let i = 1; i < building.points.length; i++) {
-      shape.lineTo(building.points[i].x, -building.points[i].z)
+    return { roofGeometry: geometry, triangleFaces: faceOfTriangle }
+  }, [roof, aspectRatio])
+
+  // Roof colored by the insolation of each face
+  const heatmapGeometry = useMemo(() => {
+    if (!heatmap) return null
+
+    const insolation = heatmap.roofFaces.get(building.id)
+    const colors: number[] = []
+    for (const faceIndex of triangleFaces) {
+      const value = insolation?.[faceIndex]
+      const color = value !== undefined
+        ? getHeatmapColor(value, heatmap.min, heatmap.max)
+        : new THREE.Color(HEATMAP_NO_DATA_COLOR)
+      for (let i = 0; i < 3; i++) colors.push(color.r, color.g, color.b)
     }
-    shape.closePath()
 
-    const geometry = new THREE.ShapeGeometry(shape)
-    // Rotate to be horizontal and position at top of walls
-    geometry.rotateX(-Math.PI / 2)
-    geometry.translate(0, building.height, 0)
+    const geometry = roofGeometry.clone()
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3))
+    return geometry
+  }, [heatmap, building.id, roofGeometry, triangleFaces])
+
+  // Outline of the roof face under the cursor while placing panels
+  const hoveredFacePoints = useMemo(() => {
+    if (hoveredFace === null || !roof.faces[hoveredFace]) return null
+    const points = roof.faces[hoveredFace].vertexIndices.map((i) => roof.vertices[i])
+    return [...points, points[0]]
+  }, [hoveredFace, roof])
+
+  const getFaceIndex = useCallback(
+    (e: ThreeEvent<MouseEvent | PointerEvent>) =>
+      e.faceIndex !== undefined && e.faceIndex !== null ? triangleFaces[e.faceIndex] ?? null : null,
+    [triangleFaces]
+  )
 
-    applyAerialUVs(geometry, aspectRatio)
+  const handleRoofClick = useCallback(
+    (e: ThreeEvent<MouseEvent>) => {
+      if (!isPlacingPanels) return
+      e.stopPropagation()
+      const faceIndex = getFaceIndex(e)
+      if (faceIndex !== null) onRoofFaceClick(faceIndex)
+    },
+    [isPlacingPanels, getFaceIndex, onRoofFaceClick]
+  )
 
-    return geometry
-  }, [building.points, building.height, aspectRatio])
+  const handleRoofPointerMove = useCallback(
+    (e: ThreeEvent<PointerEvent>) => {
+      if (!isPlacingPanels) return
+      e.stopPropagation()
+      setHoveredFace(getFaceIndex(e))
+    },
+    [isPlacingPanels, getFaceIndex]
+  )
 
   const handleContextMenu = useCallback(
     (e: ThreeEvent<MouseEvent>) => {
@@ -104,33 +142,57 @@ export function BuildingBody({
     [isAddingBuilding, onDelete]
   )
 
-  const wallColor = isHovered && isAddingBuilding ? '#ff6666' : building.color
+  const handleClick = useCallback(
+    (e: ThreeEvent<MouseEvent>) => {
+      if (!isSelecting) return
+      e.stopPropagation()
+      // Ignore the click that ends a camera drag
+      if (e.delta > CLICK_DRAG_TOLERANCE) return
+      onSelect(e.nativeEvent.shiftKey)
+    },
+    [isSelecting, onSelect]
+  )
+
+  const wallColor = isHovered && isAddingBuilding ? '#ff6666' : isSelected ? SELECTION_COLOR : building.color
 
   return (
     <group
       onPointerOver={() => setIsHovered(true)}
       onPointerOut={() => setIsHovered(false)}
       onContextMenu={handleContextMenu}
+      onClick={handleClick}
     >
       {/* Walls */}
       <mesh
         geometry={wallsGeometry}
-        rotation={[-Math.PI / 2, 0, 0]}
-        position={[0, 0, 0]}
         castShadow={castShadow}
         receiveShadow={castShadow}
       >
         <meshStandardMaterial color={wallColor} side={THREE.DoubleSide} />
       </mesh>
 
-      {/* Roof surface (flat cap) */}
-      <mesh geometry={roofGeometry} castShadow={castShadow} receiveShadow={castShadow}>
-        {texture ? (
+      {/* Roof surface */}
+      <mesh
+        geometry={heatmapGeometry ?? roofGeometry}
+        castShadow={castShadow}
+        receiveShadow={castShadow}
+        onClick={handleRoofClick}
+        onPointerMove={handleRoofPointerMove}
+        onPointerOut={() => setHoveredFace(null)}
+      >
+        {heatmapGeometry ? (
+          <meshBasicMaterial vertexColors side={THREE.DoubleSide} />
+        ) : texture ? (
           <meshBasicMaterial map={texture} side={THREE.DoubleSide} />
         ) : (
           <meshStandardMaterial color={building.color} side={THREE.DoubleSide} />
         )}
       </mesh>
+
+      {/* Highlight of the roof face that will be filled with panels */}
+      {isPlacingPanels && hoveredFacePoints && (
+        <Line points={hoveredFacePoints} color="#00ff00" lineWidth={3} />
+      )}
     </group>
   )
 }
@@ -1,16 +1,20 @@
 import { useRef, useCallback, useMemo } from 'react'
 import { ThreeEvent } from '@react-three/fiber'
 import * as THREE from 'three'
-import { OUTLINE_HEIGHT, PLANE_WIDTH } from '../constants'
+import { OUTLINE_HEIGHT, PLANE_WIDTH, CLICK_DRAG_TOLERANCE } from '../constants'
 
 export interface ImagePlaneProps {
   textureUrl: string | null
   aspectRatio: number
   isAddingPolygon: boolean
+  isAddingLine: boolean
+  /** Select tool is active; clicking empty ground clears the selection */
+  isSelecting: boolean
   isCalibrating: boolean
   isMeasuring: boolean
   receiveShadow: boolean
-  onPlaneClick: (point: THREE.Vector3) => void
+  onPlaneClick: (point: THREE.Vector3, additive?: boolean) => void
+  onPlaneHover: (point: THREE.Vector3 | null) => void
   onCalibrationClick: (point: THREE.Vector3) => void
   onMeasurementClick: (point: THREE.Vector3) => void
 }
@@ -19,10 +23,13 @@ export function ImagePlane({
   textureUrl,
   aspectRatio,
   isAddingPolygon,
+  isAddingLine,
+  isSelecting,
   isCalibrating,
   isMeasuring,
   receiveShadow,
   onPlaneClick,
+  onPlaneHover,
   onCalibrationClick,
   onMeasurementClick,
 }: ImagePlaneProps) {
@@ -37,7 +44,7 @@ export function ImagePlane({
 
   const handleClick = useCallback(
     (e: ThreeEvent<MouseEvent>) => {
-      if (isAddingPolygon) {
+      if (isAddingPolygon || isAddingLine) {
         e.stopPropagation()
         const point = e.point.clone()
         point.y = OUTLINE_HEIGHT
@@ -52,11 +59,34 @@ export function ImagePlane({
         const point = e.point.clone()
         point.y = OUTLINE_HEIGHT
         onMeasurementClick(point)
+      } else if (isSelecting && e.delta <= CLICK_DRAG_TOLERANCE) {
+        // Clicks ending a camera drag keep the selection
+        e.stopPropagation()
+        const point = e.point.clone()
+        point.y = OUTLINE_HEIGHT
+        onPlaneClick(point, e.nativeEvent.shiftKey)
       }
     },
-    [isAddingPolygon, isCalibrating, isMeasuring, onPlaneClick, onCalibrationClick, onMeasurementClick]
+    [isAddingPolygon, isAddingLine, isSelecting, isCalibrating, isMeasuring, onPlaneClick, onCalibrationClick, onMeasurementClick]
   )
 
+  // Cursor tracking for the snap indicator while drawing
+  const handlePointerMove = useCallback(
+    (e: ThreeEvent<PointerEvent>) => {
+      if (!isAddingPolygon && !isAddingLine) return
+      const point = e.point.clone()
+      point.y = OUTLINE_HEIGHT
+      onPlaneHover(point)
+    },
+    [isAddingPolygon, isAddingLine, onPlaneHover]
+  )
+
+  const handlePointerOut = useCallback(() => {
+    if (isAddingPolygon || isAddingLine) {
+      onPlaneHover(null)
+    }
+  }, [isAddingPolygon, isAddingLine, onPlaneHover])
+
   if (!texture) return null
 
   return (
@@ -65,6 +95,8 @@ export function ImagePlane({
       rotation={[-Math.PI / 2, 0, 0]}
       position={[0, 0, 0]}
       onClick={handleClick}
+      onPointerMove={handlePointerMove}
+      onPointerOut={handlePointerOut}
       receiveShadow={receiveShadow}
     >
       <planeGeometry args={[planeWidth, planeHeight]} />
@@ -0,0 +1,56 @@
+import { useMemo } from 'react'
+import * as THREE from 'three'
+import type { Polygon, Building } from '../types'
+import { buildObstruction, getObstructionTriangles, isObstruction } from '../../../utils/obstructions'
+
+export interface ObstructionBodiesProps {
+  polygons: Polygon[]
+  buildings: Building[]
+  castShadow: boolean
+}
+
+export function ObstructionBodies({ polygons, buildings, castShadow }: ObstructionBodiesProps) {
+  return (
+    <>
+      {polygons.map((polygon) => {
+        // Flat keep-out zones (e.g. skylights) have no body
+        if (!isObstruction(polygon) || polygon.visible === false) return null
+        if (!polygon.obstructionHeight || polygon.points.length < 3) return null
+
+        return (
+          <ObstructionBody
+            key={polygon.id}
+            polygon={polygon}
+            polygons={polygons}
+            buildings={buildings}
+            castShadow={castShadow}
+          />
+        )
+      })}
+    </>
+  )
+}
+
+interface ObstructionBodyProps {
+  polygon: Polygon
+  polygons: Polygon[]
+  buildings: Building[]
+  castShadow: boolean
+}
+
+function ObstructionBody({ polygon, polygons, buildings, castShadow }: ObstructionBodyProps) {
+  // Walls from the roof surface up to a flat top, plus the top cap
+  const geometry = useMemo(() => {
+    const positions = getObstructionTriangles(buildObstruction(polygon, buildings, polygons))
+    const result = new THREE.BufferGeometry()
+    result.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
+    result.computeVertexNormals()
+    return result
+  }, [polygon, polygons, buildings])
+
+  return (
+    <mesh geometry={geometry} castShadow={castShadow} receiveShadow={castShadow}>
+      <meshStandardMaterial color={polygon.color} side={THREE.DoubleSide} />
+    </mesh>
+  )
+}
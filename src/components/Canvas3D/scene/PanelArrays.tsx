@@ -0,0 +1,120 @@
+import { useState, useCallback, useMemo } from 'react'
+import { ThreeEvent } from '@react-three/fiber'
+import * as THREE from 'three'
+import type { PanelArray, HeatmapData } from '../types'
+import { PANEL_COLOR } from '../constants'
+import { liftPanel, getPanelTriangles } from '../../../utils/panels'
+import { getHeatmapColor, HEATMAP_NO_DATA_COLOR } from '../../../utils/heatmap'
+
+const PANEL_FRAME_COLOR = '#cbd5e1'
+
+export interface PanelArraysProps {
+  panelArrays: PanelArray[]
+  isPlacingPanels: boolean
+  castShadow: boolean
+  /** Insolation to color the panels with, or null for the regular panels */
+  heatmap: HeatmapData | null
+  onDeletePanelArray: (panelArrayId: string) => void
+}
+
+export function PanelArrays({ panelArrays, isPlacingPanels, castShadow, heatmap, onDeletePanelArray }: PanelArraysProps) {
+  return (
+    <>
+      {panelArrays.map((panelArray) => (
+        <PanelArrayMesh
+          key={panelArray.id}
+          panelArray={panelArray}
+          isPlacingPanels={isPlacingPanels}
+          castShadow={castShadow}
+          heatmap={heatmap}
+          onDelete={() => onDeletePanelArray(panelArray.id)}
+        />
+      ))}
+    </>
+  )
+}
+
+interface PanelArrayMeshProps {
+  panelArray: PanelArray
+  isPlacingPanels: boolean
+  castShadow: boolean
+  heatmap: HeatmapData | null
+  onDelete: () => void
+}
+
+function PanelArrayMesh({ panelArray, isPlacingPanels, castShadow, heatmap, onDelete }: PanelArrayMeshProps) {
+  const [isHovered, setIsHovered] = useState(false)
+
+  // Module surfaces and frames, lifted slightly along the surface normal
+  const { surfaceGeometry, frameGeometry } = useMemo(() => {
+    const frame: number[] = []
+
+    for (const corners of panelArray.panels) {
+      if (corners.length < 4) continue
+      const [a, b, c, d] = liftPanel(corners)
+      for (const [start, end] of [[a, b], [b, c], [c, d], [d, a]]) {
+        frame.push(start.x, start.y, start.z, end.x, end.y, end.z)
+      }
+    }
+
+    const surface = new THREE.BufferGeometry()
+    surface.setAttribute('position', new THREE.Float32BufferAttribute(getPanelTriangles(panelArray.panels), 3))
+    surface.computeVertexNormals()
+
+    const edges = new THREE.BufferGeometry()
+    edges.setAttribute('position', new THREE.Float32BufferAttribute(frame, 3))
+
+    return { surfaceGeometry: surface, frameGeometry: edges }
+  }, [panelArray.panels])
+
+  // Every panel colored by its own insolation
+  const heatmapGeometry = useMemo(() => {
+    if (!heatmap) return null
+
+    const insolation = heatmap.panels.get(panelArray.id)
+    const colors: number[] = []
+    panelArray.panels.forEach((corners, panelIndex) => {
+      if (corners.length < 4) return
+      const value = insolation?.[panelIndex]
+      const color = value !== undefined
+        ? getHeatmapColor(value, heatmap.min, heatmap.max)
+        : new THREE.Color(HEATMAP_NO_DATA_COLOR)
+      for (let i = 0; i < 6; i++) colors.push(color.r, color.g, color.b)
+    })
+
+    const geometry = surfaceGeometry.clone()
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3))
+    return geometry
+  }, [heatmap, panelArray.id, panelArray.panels, surfaceGeometry])
+
+  const handleContextMenu = useCallback(
+    (e: ThreeEvent<MouseEvent>) => {
+      if (isPlacingPanels) {
+        e.stopPropagation()
+        onDelete()
+      }
+    },
+    [isPlacingPanels, onDelete]
+  )
+
+  const color = isHovered && isPlacingPanels ? '#ff6666' : PANEL_COLOR
+
+  return (
+    <group
+      onPointerOver={() => setIsHovered(true)}
+      onPointerOut={() => setIsHovered(false)}
+      onContextMenu={handleContextMenu}
+    >
+      <mesh geometry={heatmapGeometry ?? surfaceGeometry} castShadow={castShadow} receiveShadow={castShadow}>
+        {heatmapGeometry && !(isHovered && isPlacingPanels) ? (
+          <meshBasicMaterial vertexColors side={THREE.DoubleSide} />
+        ) : (
+          <meshStandardMaterial color={color} metalness={0.3} roughness={0.4} side={THREE.DoubleSide} />
+        )}
+      </mesh>
+      <lineSegments geometry={frameGeometry}>
+        <lineBasicMaterial color={PANEL_FRAME_COLOR} />
+      </lineSegments>
+    </group>
+  )
+}
@@ -1,6 +1,11 @@
+import { useMemo } from 'react'
 import { Line } from '@react-three/drei'
 import * as THREE from 'three'
 import type { Polygon } from '../types'
+import { isObstruction } from '../../../utils/obstructions'
+import { validatePolygons } from '../../../utils/validation'
+import type { PolygonIssue } from '../../../utils/validation'
+import { ISSUE_ERROR_COLOR, ISSUE_WARNING_COLOR } from '../constants'
 import { DraggablePoint, ClickableEdge, ClosingPoint, ScaledPoint, PolygonFill, EdgeLabel } from '../primitives'
 
 export interface PolygonOutlinesProps {
@@ -9,9 +14,19 @@ export interface PolygonOutlinesProps {
   currentColor: string
   isAddingLine: boolean
   isAddingBuilding: boolean
+  isPlacingPanels: boolean
   isPerpendicular: boolean
+  /** Select tool is active; polygons are selected by clicking their fill */
+  isSelecting: boolean
+  /** Polygons drawn highlighted: selected ones and footprints of selected buildings */
+  selectedPolygonIds: string[]
+  selectedVertices: { polygonId: string; pointIndex: number }[]
   selectedLinePoints: { polygonId: string; pointIndex: number } | null
   perpendicularPreview: { polygonId: string; pointIndex: number; previewPoints: THREE.Vector3[] } | null
+  /** Rectangle (or its baseline) following the cursor while drawing one */
+  rectanglePreview: THREE.Vector3[] | null
+  /** Cut line following the cursor in the split tool */
+  cutPreview: THREE.Vector3[] | null
   pixelsPerMeter: number | null
   imageWidth: number | null
   planeWidth: number
@@ -22,7 +37,17 @@ export interface PolygonOutlinesProps {
   onAddPointOnEdge: (polygonId: string, edgeIndex: number, position: THREE.Vector3) => void
   onPointSelect: (polygonId: string, pointIndex: number) => void
   onClosePolygon: () => void
-  onPolygonClick: (polygonId: string) => void
+  onPolygonClick: (polygonId: string, additive: boolean) => void
+  /** Shift-press on a point in the select tool */
+  onPointToggleSelect: (polygonId: string, pointIndex: number) => void
+}
+
+// Highlight color for a corner, edge or line: errors win over warnings
+function getIssueColor(issues: PolygonIssue[], involves: (issue: PolygonIssue) => boolean): string | null {
+  const involved = issues.filter(involves)
+  if (involved.some((i) => i.severity === 'error')) return ISSUE_ERROR_COLOR
+  if (involved.length > 0) return ISSUE_WARNING_COLOR
+  return null
 }
 
 export function PolygonOutlines({
@@ -31,9 +56,15 @@ export function PolygonOutlines({
   currentColor,
   isAddingLine,
   isAddingBuilding,
+  isPlacingPanels,
   isPerpendicular,
+  isSelecting,
+  selectedPolygonIds,
+  selectedVertices,
   selectedLinePoints,
   perpendicularPreview,
+  rectanglePreview,
+  cutPreview,
   pixelsPerMeter,
   imageWidth,
   planeWidth,
@@ -45,9 +76,11 @@ export function PolygonOutlines({
   onPointSelect,
   onClosePolygon,
   onPolygonClick,
+  onPointToggleSelect,
 }: PolygonOutlinesProps) {
   const canClose = currentPoints.length >= 3
   const showEdgeLabels = pixelsPerMeter !== null && imageWidth !== null
+  const issuesById = useMemo(() => validatePolygons(polygons), [polygons])
 
   return (
     <>
@@ -56,15 +89,18 @@ export function PolygonOutlines({
         if (polygon.visible === false) return null
 
         const canDeletePoints = polygon.points.length > 3
+        const isPolygonSelected = selectedPolygonIds.includes(polygon.id)
+        const issues = issuesById.get(polygon.id) ?? []
 
         return (
           <group key={polygon.id}>
-            {/* Clickable polygon fill for building tool */}
-            {isAddingBuilding && polygon.points.length >= 3 && (
+            {/* Clickable polygon fill for the select, building and panel tools */}
+            {(isSelecting || ((isAddingBuilding || isPlacingPanels) && !isObstruction(polygon))) && polygon.points.length >= 3 && (
               <PolygonFill
                 points={polygon.points}
                 color={polygon.color}
-                onClick={() => onPolygonClick(polygon.id)}
+                isSelected={isSelecting && isPolygonSelected}
+                onClick={(additive) => onPolygonClick(polygon.id, additive)}
               />
             )}
             {/* Outline */}
@@ -72,9 +108,25 @@ export function PolygonOutlines({
               <Line
                 points={[...polygon.points, polygon.points[0]]}
                 color={polygon.color}
-                lineWidth={2}
+                lineWidth={isPolygonSelected ? 4 : 2}
+                dashed={isObstruction(polygon)}
+                dashSize={0.05}
+                gapSize={0.03}
               />
             )}
+            {/* Edges with problems */}
+            {polygon.points.map((point, i) => {
+              const color = getIssueColor(issues, (issue) => issue.edgeIndices.includes(i))
+              if (!color) return null
+              return (
+                <Line
+                  key={`issue-edge-${polygon.id}-${i}`}
+                  points={[point, polygon.points[(i + 1) % polygon.points.length]]}
+                  color={color}
+                  lineWidth={4}
+                />
+              )
+            })}
             {/* Edge length labels */}
             {showEdgeLabels && polygon.points.length >= 2 && (() => {
               // Calculate polygon centroid for determining outside direction
@@ -100,14 +152,18 @@ export function PolygonOutlines({
               })
             })()}
             {/* Internal lines */}
-            {polygon.lines?.map(([startIdx, endIdx], lineIndex) => (
-              <Line
-                key={`line-${polygon.id}-${lineIndex}`}
-                points={[polygon.points[startIdx], polygon.points[endIdx]]}
-                color={polygon.color}
-                lineWidth={2}
-              />
-            ))}
+            {polygon.lines?.map(([startIdx, endIdx], lineIndex) => {
+              if (!polygon.points[startIdx] || !polygon.points[endIdx]) return null
+              const issueColor = getIssueColor(issues, (issue) => issue.lineIndices.includes(lineIndex))
+              return (
+                <Line
+                  key={`line-${polygon.id}-${lineIndex}`}
+                  points={[polygon.points[startIdx], polygon.points[endIdx]]}
+                  color={issueColor ?? polygon.color}
+                  lineWidth={issueColor ? 4 : 2}
+                />
+              )
+            })}
             {polygon.points.map((point, i) => {
               const nextIndex = (i + 1) % polygon.points.length
               const nextPoint = polygon.points[nextIndex]
@@ -117,13 +173,15 @@ export function PolygonOutlines({
               const isSelectedForPerpendicular =
                 perpendicularPreview?.polygonId === polygon.id &&
                 perpendicularPreview?.pointIndex === i
-              const isSelected = isSelectedForLine || isSelectedForPerpendicular
+              const isSelectedVertex = selectedVertices.some((v) => v.polygonId === polygon.id && v.pointIndex === i)
+              const isSelected = isSelectedForLine || isSelectedForPerpendicular || isSelectedVertex
+              const issueColor = getIssueColor(issues, (issue) => issue.pointIndices.includes(i))
 
               return (
                 <group key={`${polygon.id}-${i}`}>
                   <DraggablePoint
                     position={point}
-                    color={polygon.color}
+                    color={issueColor ?? polygon.color}
                     canDelete={canDeletePoints}
                     isSelectMode={isAddingLine || isPerpendicular}
                     isSelected={isSelected}
@@ -132,8 +190,9 @@ export function PolygonOutlines({
                     onDragEnd={onPointDragEnd}
                     onDelete={() => onPointDelete(polygon.id, i)}
                     onSelect={() => onPointSelect(polygon.id, i)}
+                    onToggleSelect={isSelecting ? () => onPointToggleSelect(polygon.id, i) : undefined}
                   />
-                  {!isAddingLine && !isAddingBuilding && !isPerpendicular && (
+                  {!isAddingLine && !isAddingBuilding && !isPlacingPanels && !isPerpendicular && (
                     <ClickableEdge
                       start={point}
                       end={nextPoint}
@@ -160,6 +219,30 @@ export function PolygonOutlines({
         />
       )}
 
+      {/* Rectangle preview outline */}
+      {rectanglePreview && rectanglePreview.length >= 2 && (
+        <Line
+          points={rectanglePreview.length >= 3 ? [...rectanglePreview, rectanglePreview[0]] : rectanglePreview}
+          color={currentColor}
+          lineWidth={2}
+          dashed
+          dashSize={0.05}
+          gapSize={0.03}
+        />
+      )}
+
+      {/* Split tool cut line */}
+      {cutPreview && cutPreview.length === 2 && (
+        <Line
+          points={cutPreview}
+          color="#ffffff"
+          lineWidth={2}
+          dashed
+          dashSize={0.05}
+          gapSize={0.03}
+        />
+      )}
+
       {currentPoints.length >= 2 && (
         <Line points={currentPoints} color={currentColor} lineWidth={2} />
       )}
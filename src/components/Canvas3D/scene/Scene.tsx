@@ -1,14 +1,20 @@
 import { useMemo } from 'react'
 import { OrbitControls, Line } from '@react-three/drei'
 import * as THREE from 'three'
-import type { Polygon, Building } from '../types'
+import type { Polygon, Building, PanelArray, HeatmapData, Selection, TransformMode } from '../types'
 import { SunLight } from './SunLight'
 import { ImagePlane } from './ImagePlane'
 import { GridHelper } from './GridHelper'
 import { Compass } from './Compass'
 import { BuildingBodies } from './BuildingBodies'
 import { PolygonOutlines } from './PolygonOutlines'
-import { ScaledPoint } from '../primitives'
+import { PanelArrays } from './PanelArrays'
+import { ObstructionBodies } from './ObstructionBodies'
+import { BoxSelect } from './BoxSelect'
+import { SelectionGizmo } from './SelectionGizmo'
+import { ScaledPoint, SnapIndicator } from '../primitives'
+import type { SnapResult } from '../../../utils/snapping'
+import type { ScreenRect } from '../../../utils/selection'
 
 export interface SceneProps {
   imageUrl: string | null
@@ -27,18 +33,35 @@ export interface SceneProps {
   isPerpendicular: boolean
   isCalibrating: boolean
   isMeasuring: boolean
+  isPlacingPanels: boolean
+  /** Select tool is active: click, shift-click and shift-drag select, and the gizmo transforms the selection */
+  isSelecting: boolean
   calibrationPoints: THREE.Vector3[]
   measurementPoints: THREE.Vector3[]
   selectedLinePoints: { polygonId: string; pointIndex: number } | null
   perpendicularPreview: { polygonId: string; pointIndex: number; previewPoints: THREE.Vector3[] } | null
+  rectanglePreview: THREE.Vector3[] | null
+  cutPreview: THREE.Vector3[] | null
+  selection: Selection
+  /** Polygons drawn highlighted: selected ones and footprints of selected buildings */
+  selectedPolygonIds: string[]
+  /** Where the transform gizmo is placed, or null when nothing is selected */
+  selectionCenter: THREE.Vector3 | null
+  transformMode: TransformMode
   polygons: Polygon[]
   buildings: Building[]
+  panelArrays: PanelArray[]
+  /** Insolation to color roof faces and panels with, or null for the regular materials */
+  heatmap: HeatmapData | null
   currentPoints: THREE.Vector3[]
   currentColor: string
+  /** Snap under the cursor or dragged point, shown while drawing and editing */
+  snapIndicator: SnapResult | null
   pixelsPerMeter: number | null
   imageWidth: number | null
   planeWidth: number
-  onPlaneClick: (point: THREE.Vector3) => void
+  onPlaneClick: (point: THREE.Vector3, additive?: boolean) => void
+  onPlaneHover: (point: THREE.Vector3 | null) => void
   onCalibrationClick: (point: THREE.Vector3) => void
   onMeasurementClick: (point: THREE.Vector3) => void
   onPointDragStart: () => void
@@ -48,8 +71,17 @@ export interface SceneProps {
   onAddPointOnEdge: (polygonId: string, edgeIndex: number, position: THREE.Vector3) => void
   onPointSelect: (polygonId: string, pointIndex: number) => void
   onClosePolygon: () => void
-  onPolygonClick: (polygonId: string) => void
+  onPolygonClick: (polygonId: string, additive?: boolean) => void
+  onPointToggleSelect: (polygonId: string, pointIndex: number, additive?: boolean) => void
+  onBuildingSelect: (buildingId: string, additive?: boolean) => void
   onDeleteBuilding: (buildingId: string) => void
+  onRoofFaceClick: (buildingId: string, faceIndex: number) => void
+  onDeletePanelArray: (panelArrayId: string) => void
+  onSelectionBoxChange: (rect: ScreenRect | null) => void
+  onBoxSelect: (items: Selection) => void
+  onTransformStart: () => void
+  onTransform: (matrix: THREE.Matrix4, rotation: number) => void
+  onTransformEnd: () => void
   orbitControlsRef: React.RefObject<React.ComponentRef<typeof OrbitControls> | null>
   isDraggingPoint: boolean
   onCompassRotationChange: (angle: number) => void
@@ -72,18 +104,30 @@ export function Scene({
   isPerpendicular,
   isCalibrating,
   isMeasuring,
+  isPlacingPanels,
+  isSelecting,
   calibrationPoints,
   measurementPoints,
   selectedLinePoints,
   perpendicularPreview,
+  rectanglePreview,
+  cutPreview,
+  selection,
+  selectedPolygonIds,
+  selectionCenter,
+  transformMode,
   polygons,
   buildings,
+  panelArrays,
+  heatmap,
   currentPoints,
   currentColor,
+  snapIndicator,
   pixelsPerMeter,
   imageWidth,
   planeWidth,
   onPlaneClick,
+  onPlaneHover,
   onCalibrationClick,
   onMeasurementClick,
   onPointDragStart,
@@ -94,12 +138,21 @@ export function Scene({
   onPointSelect,
   onClosePolygon,
   onPolygonClick,
+  onPointToggleSelect,
+  onBuildingSelect,
   onDeleteBuilding,
+  onRoofFaceClick,
+  onDeletePanelArray,
+  onSelectionBoxChange,
+  onBoxSelect,
+  onTransformStart,
+  onTransform,
+  onTransformEnd,
   orbitControlsRef,
   isDraggingPoint,
   onCompassRotationChange,
 }: SceneProps) {
-  const orbitEnabled = !isAddingPolygon && !isAddingLine && !isAddingBuilding && !isPerpendicular && !isCalibrating && !isMeasuring && !isDraggingPoint
+  const orbitEnabled = !isAddingPolygon && !isAddingLine && !isAddingBuilding && !isPerpendicular && !isCalibrating && !isMeasuring && !isPlacingPanels && !isDraggingPoint
 
   // Ambient light intensity adjusts based on time of day
   const ambientIntensity = useMemo(() => {
@@ -120,10 +173,13 @@ export function Scene({
         textureUrl={imageUrl}
         aspectRatio={aspectRatio}
         isAddingPolygon={isAddingPolygon}
+        isAddingLine={isAddingLine}
+        isSelecting={isSelecting}
         isCalibrating={isCalibrating}
         isMeasuring={isMeasuring}
         receiveShadow={shadows}
         onPlaneClick={onPlaneClick}
+        onPlaneHover={onPlaneHover}
         onCalibrationClick={onCalibrationClick}
         onMeasurementClick={onMeasurementClick}
       />
@@ -152,11 +208,30 @@ export function Scene({
       )}
       <BuildingBodies
         buildings={buildings}
+        polygons={polygons}
         isAddingBuilding={isAddingBuilding}
+        isPlacingPanels={isPlacingPanels}
+        isSelecting={isSelecting}
+        selectedBuildingIds={selection.buildingIds}
         imageUrl={imageUrl}
         aspectRatio={aspectRatio}
         castShadow={shadows}
+        heatmap={heatmap}
         onDeleteBuilding={onDeleteBuilding}
+        onRoofFaceClick={onRoofFaceClick}
+        onSelectBuilding={onBuildingSelect}
+      />
+      <ObstructionBodies
+        polygons={polygons}
+        buildings={buildings}
+        castShadow={shadows}
+      />
+      <PanelArrays
+        panelArrays={panelArrays}
+        isPlacingPanels={isPlacingPanels}
+        castShadow={shadows}
+        heatmap={heatmap}
+        onDeletePanelArray={onDeletePanelArray}
       />
       <PolygonOutlines
         polygons={polygons}
@@ -164,9 +239,15 @@ export function Scene({
         currentColor={currentColor}
         isAddingLine={isAddingLine}
         isAddingBuilding={isAddingBuilding}
+        isPlacingPanels={isPlacingPanels}
         isPerpendicular={isPerpendicular}
+        isSelecting={isSelecting}
+        selectedPolygonIds={selectedPolygonIds}
+        selectedVertices={selection.vertices}
         selectedLinePoints={selectedLinePoints}
         perpendicularPreview={perpendicularPreview}
+        rectanglePreview={rectanglePreview}
+        cutPreview={cutPreview}
         pixelsPerMeter={pixelsPerMeter}
         imageWidth={imageWidth}
         planeWidth={planeWidth}
@@ -178,10 +259,33 @@ export function Scene({
         onPointSelect={onPointSelect}
         onClosePolygon={onClosePolygon}
         onPolygonClick={onPolygonClick}
+        onPointToggleSelect={(polygonId, pointIndex) => onPointToggleSelect(polygonId, pointIndex, true)}
       />
 
+      {snapIndicator && <SnapIndicator snap={snapIndicator} />}
+
+      <BoxSelect
+        enabled={isSelecting}
+        polygons={polygons}
+        buildings={buildings}
+        orbitControlsRef={orbitControlsRef}
+        onBoxChange={onSelectionBoxChange}
+        onSelect={onBoxSelect}
+      />
+      {isSelecting && selectionCenter && (
+        <SelectionGizmo
+          center={selectionCenter}
+          mode={transformMode}
+          onTransformStart={onTransformStart}
+          onTransform={onTransform}
+          onTransformEnd={onTransformEnd}
+        />
+      )}
+
+      {/* Default controls, so the gizmo can pause them while it is dragged */}
       <OrbitControls
         ref={orbitControlsRef}
+        makeDefault
         enableDamping
         dampingFactor={0.05}
         enabled={orbitEnabled}
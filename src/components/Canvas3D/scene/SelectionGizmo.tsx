@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from 'react'
+import { TransformControls } from '@react-three/drei'
+import * as THREE from 'three'
+import type { TransformMode } from '../types'
+
+export interface SelectionGizmoProps {
+  /** Center of the selection; the gizmo stays where it is while it is dragged */
+  center: THREE.Vector3
+  mode: TransformMode
+  onTransformStart: () => void
+  /** Transform since the drag started, and its rotation about the vertical axis in radians */
+  onTransform: (matrix: THREE.Matrix4, rotation: number) => void
+  onTransformEnd: () => void
+}
+
+const UP = new THREE.Vector3(0, 1, 0)
+
+/**
+ * Move, rotate or scale gizmo for the selection. Transforms stay in the ground plane: moving and
+ * scaling along X and Z, rotating about the vertical axis through the selection center.
+ */
+export function SelectionGizmo({ center, mode, onTransformStart, onTransform, onTransformEnd }: SelectionGizmoProps) {
+  const targetRef = useRef<THREE.Group>(null)
+  const [isTransforming, setIsTransforming] = useState(false)
+  const startRef = useRef<THREE.Vector3 | null>(null)
+
+  // Follow the selection, except while it is being transformed
+  useEffect(() => {
+    if (isTransforming) return
+    targetRef.current?.position.copy(center)
+  }, [center, isTransforming])
+
+  const handleMouseDown = () => {
+    const target = targetRef.current
+    if (!target) return
+    startRef.current = target.position.clone()
+    setIsTransforming(true)
+    onTransformStart()
+  }
+
+  const handleObjectChange = () => {
+    const target = targetRef.current
+    const start = startRef.current
+    if (!target || !start) return
+
+    // Drop any part of the transform that would leave the ground plane
+    const rotation = 2 * Math.atan2(target.quaternion.y, target.quaternion.w)
+    target.position.y = start.y
+    target.quaternion.setFromAxisAngle(UP, rotation)
+    target.scale.y = 1
+
+    const matrix = new THREE.Matrix4()
+      .compose(target.position, target.quaternion, target.scale)
+      .multiply(new THREE.Matrix4().makeTranslation(-start.x, -start.y, -start.z))
+    onTransform(matrix, rotation)
+  }
+
+  const handleMouseUp = () => {
+    const target = targetRef.current
+    if (!target || !startRef.current) return
+    startRef.current = null
+    // The next drag starts from the new selection center without rotation or scale
+    target.quaternion.identity()
+    target.scale.set(1, 1, 1)
+    setIsTransforming(false)
+    onTransformEnd()
+  }
+
+  return (
+    <>
+      <group ref={targetRef} />
+      <TransformControls
+        object={targetRef as React.RefObject<THREE.Group>}
+        mode={mode}
+        showX={mode !== 'rotate'}
+        showY={mode === 'rotate'}
+        showZ={mode !== 'rotate'}
+        onMouseDown={handleMouseDown}
+        onObjectChange={handleObjectChange}
+        onMouseUp={handleMouseUp}
+      />
+    </>
+  )
+}
@@ -21,3 +21,15 @@ export type { BuildingBodiesProps } from './BuildingBodies'
 
 export { PolygonOutlines } from './PolygonOutlines'
 export type { PolygonOutlinesProps } from './PolygonOutlines'
+
+export { PanelArrays } from './PanelArrays'
+export type { PanelArraysProps } from './PanelArrays'
+
+export { ObstructionBodies } from './ObstructionBodies'
+export type { ObstructionBodiesProps } from './ObstructionBodies'
+
+export { BoxSelect } from './BoxSelect'
+export type { BoxSelectProps } from './BoxSelect'
+
+export { SelectionGizmo } from './SelectionGizmo'
+export type { SelectionGizmoProps } from './SelectionGizmo'
@@ -2,6 +2,7 @@ import { useCallback } from 'react'
 import type { ToolHookReturn, BuildingToolState } from '../types'
 import type { Building } from '../../types'
 import { useCanvasContext } from '../../context/CanvasContext'
+import { isObstruction } from '../../../../utils/obstructions'
 
 export interface BuildingToolExtended extends ToolHookReturn<BuildingToolState> {
   handleDeleteBuilding: (buildingId: string) => void
@@ -13,7 +14,7 @@ export function useBuildingTool(): BuildingToolExtended {
   const onPolygonClick = useCallback(
     (polygonId: string) => {
       const polygon = polygons.find((p) => p.id === polygonId)
-      if (!polygon) return
+      if (!polygon || isObstruction(polygon)) return
 
       // Check if building already exists for this polygon
       const existingBuilding = buildings.find((b) => b.polygonId === polygonId)
@@ -1,11 +1,17 @@
 import { useCallback } from 'react'
+import * as THREE from 'three'
 import type { ToolHookReturn, LineToolState } from '../types'
 import { useCanvasContext } from '../../context/CanvasContext'
 import { useToolContext } from '../../context/ToolContext'
+import { useSnapping } from '../useSnapping'
+
+// Lines always connect existing vertices
+const VERTEX_SNAP = { enabled: true, vertices: true, edges: false, angles: false, alignment: false, grid: false }
 
 export function useLineTool(): ToolHookReturn<LineToolState> {
   const { polygons, setPolygons, historyContext } = useCanvasContext()
   const { selectedLinePoints, setSelectedLinePoints } = useToolContext()
+  const { snap, clearSnap } = useSnapping()
 
   const onPointClick = useCallback(
     (polygonId: string, pointIndex: number) => {
@@ -51,13 +57,37 @@ export function useLineTool(): ToolHookReturn<LineToolState> {
     [selectedLinePoints, setSelectedLinePoints, polygons, setPolygons, historyContext]
   )
 
+  // Clicks near a vertex pick it, so points don't have to be hit exactly
+  const onPlaneClick = useCallback(
+    (point: THREE.Vector3) => {
+      const { vertex } = snap(point, { settings: VERTEX_SNAP })
+      if (vertex) {
+        onPointClick(vertex.polygonId, vertex.pointIndex)
+      }
+    },
+    [snap, onPointClick]
+  )
+
+  const onPlaneHover = useCallback(
+    (point: THREE.Vector3 | null) => {
+      if (point) {
+        snap(point, { settings: VERTEX_SNAP })
+      } else {
+        clearSnap()
+      }
+    },
+    [snap, clearSnap]
+  )
+
   const onCancel = useCallback(() => {
     setSelectedLinePoints(null)
-  }, [setSelectedLinePoints])
+    clearSnap()
+  }, [setSelectedLinePoints, clearSnap])
 
   const onDeactivate = useCallback(() => {
     setSelectedLinePoints(null)
-  }, [setSelectedLinePoints])
+    clearSnap()
+  }, [setSelectedLinePoints, clearSnap])
 
   const getStatusText = () => {
     return selectedLinePoints
@@ -70,6 +100,8 @@ export function useLineTool(): ToolHookReturn<LineToolState> {
       selectedLinePoints,
     },
     actions: {
+      onPlaneClick,
+      onPlaneHover,
       onPointClick,
       onCancel,
       onDeactivate,
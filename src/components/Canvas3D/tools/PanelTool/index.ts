@@ -0,0 +1,2 @@
+export { usePanelTool } from './usePanelTool'
+export type { PanelToolExtended } from './usePanelTool'
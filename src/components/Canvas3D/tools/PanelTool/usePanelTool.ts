@@ -0,0 +1,150 @@
+import { useCallback, useMemo } from 'react'
+import * as THREE from 'three'
+import type { ToolHookReturn, PanelToolState } from '../types'
+import type { PanelArray, PanelLayoutSettings } from '../../types'
+import { PLANE_WIDTH } from '../../constants'
+import { useCanvasContext } from '../../context/CanvasContext'
+import { useToolContext } from '../../context/ToolContext'
+import { layoutPanels } from '../../../../utils/panels'
+import { getKeepOutZones, isObstruction } from '../../../../utils/obstructions'
+import { getBuildingRoof } from '../../../../utils/roof'
+
+export interface PanelToolExtended extends ToolHookReturn<PanelToolState> {
+  setPanelModuleId: (moduleId: string) => void
+  setPanelSettings: (settings: PanelLayoutSettings) => void
+  handleDeletePanelArray: (panelArrayId: string) => void
+  handleClearPanelArrays: () => void
+}
+
+export function usePanelTool(): PanelToolExtended {
+  const {
+    polygons,
+    buildings,
+    panelArrays,
+    setPanelArrays,
+    modules,
+    historyContext,
+    imageWidth,
+    pixelsPerMeter,
+  } = useCanvasContext()
+  const { panelModuleId, setPanelModuleId, panelSettings, setPanelSettings } = useToolContext()
+
+  // Fall back to the first catalog module when none (or an unknown one) is selected
+  const selectedModule = modules.find((m) => m.id === panelModuleId) ?? modules[0] ?? null
+
+  // Scene units per meter: PLANE_WIDTH units = imageWidth pixels
+  const unitsPerMeter = useMemo(() => {
+    if (!imageWidth || !pixelsPerMeter || pixelsPerMeter <= 0) return null
+    return (PLANE_WIDTH * pixelsPerMeter) / imageWidth
+  }, [imageWidth, pixelsPerMeter])
+
+  // Add an array for the surface, replacing any array previously placed on it
+  const placeArray = useCallback(
+    (array: Omit<PanelArray, 'id' | 'module' | 'panels' | 'settings'>, surface: THREE.Vector3[]) => {
+      if (unitsPerMeter === null || !selectedModule) return
+
+      const panels = layoutPanels(surface, selectedModule, panelSettings, unitsPerMeter, getKeepOutZones(polygons))
+      const remaining = panelArrays.filter(
+        (a) =>
+          !(a.polygonId === array.polygonId && a.buildingId === array.buildingId && a.faceIndex === array.faceIndex)
+      )
+      if (panels.length === 0 && remaining.length === panelArrays.length) return
+
+      historyContext?.takeSnapshot()
+
+      if (panels.length === 0) {
+        setPanelArrays(remaining)
+        return
+      }
+
+      const newArray: PanelArray = {
+        ...array,
+        id: crypto.randomUUID(),
+        module: { ...selectedModule },
+        panels,
+        settings: { ...panelSettings },
+      }
+
+      setPanelArrays([...remaining, newArray])
+    },
+    [unitsPerMeter, selectedModule, panelSettings, polygons, panelArrays, setPanelArrays, historyContext]
+  )
+
+  const onPolygonClick = useCallback(
+    (polygonId: string) => {
+      const polygon = polygons.find((p) => p.id === polygonId)
+      if (!polygon || isObstruction(polygon) || polygon.points.length < 3) return
+
+      placeArray({ polygonId, buildingId: null, faceIndex: null, tilt: 0, azimuth: 0 }, polygon.points)
+    },
+    [polygons, placeArray]
+  )
+
+  const onRoofFaceClick = useCallback(
+    (buildingId: string, faceIndex: number) => {
+      const building = buildings.find((b) => b.id === buildingId)
+      if (!building) return
+      const { vertices, faces } = getBuildingRoof(building, polygons)
+      const face = faces[faceIndex]
+      if (!face) return
+
+      placeArray(
+        { polygonId: building.polygonId, buildingId, faceIndex, tilt: face.pitch, azimuth: face.azimuth },
+        face.vertexIndices.map((i) => vertices[i])
+      )
+    },
+    [buildings, polygons, placeArray]
+  )
+
+  const handleDeletePanelArray = useCallback(
+    (panelArrayId: string) => {
+      historyContext?.takeSnapshot()
+      setPanelArrays(panelArrays.filter((a) => a.id !== panelArrayId))
+    },
+    [panelArrays, setPanelArrays, historyContext]
+  )
+
+  const handleClearPanelArrays = useCallback(() => {
+    if (panelArrays.length === 0) return
+    historyContext?.takeSnapshot()
+    setPanelArrays([])
+  }, [panelArrays.length, setPanelArrays, historyContext])
+
+  // Panel array click handler for deletion via right-click
+  const onPanelArrayClick = useCallback(
+    (panelArrayId: string) => {
+      handleDeletePanelArray(panelArrayId)
+    },
+    [handleDeletePanelArray]
+  )
+
+  const getStatusText = () => {
+    if (unitsPerMeter === null) {
+      return 'Calibrate pixels/meter first using the Calibration tool'
+    }
+    if (!selectedModule) {
+      return 'No PV modules available in the catalog'
+    }
+    return 'Click on a roof face or polygon to fill it with modules • Right-click modules to delete'
+  }
+
+  return {
+    state: {
+      module: selectedModule,
+      settings: panelSettings,
+      isCalibrated: unitsPerMeter !== null,
+    },
+    actions: {
+      onPolygonClick,
+      onRoofFaceClick,
+      onPanelArrayClick,
+    },
+    render: {
+      statusText: getStatusText(),
+    },
+    setPanelModuleId,
+    setPanelSettings,
+    handleDeletePanelArray,
+    handleClearPanelArrays,
+  }
+}
@@ -3,13 +3,15 @@ import * as THREE from 'three'
 import type { ToolHookReturn, PerpendicularToolState } from '../types'
 import { useCanvasContext } from '../../context/CanvasContext'
 import { makePerpendicularAtVertex } from './geometry'
+import { findLinkedVertices, moveVertices } from '../../../../utils/topology'
+import { cleanupPolygons } from '../../../../utils/cleanup'
 
 export interface PerpendicularToolExtended extends ToolHookReturn<PerpendicularToolState> {
   applyConstraint: () => void
 }
 
 export function usePerpendicularTool(): PerpendicularToolExtended {
-  const { polygons, setPolygons, historyContext } = useCanvasContext()
+  const { polygons, setPolygons, historyContext, shareVertices, selection, setSelection } = useCanvasContext()
 
   const [selectedVertexInfo, setSelectedVertexInfo] = useState<{
     polygonId: string
@@ -46,21 +48,36 @@ export function usePerpendicularTool(): PerpendicularToolExtended {
   const applyConstraint = useCallback(() => {
     if (!selectedVertexInfo || !previewPoints) return
 
-    const { polygonId } = selectedVertexInfo
+    const { polygonId, pointIndex } = selectedVertexInfo
+    const nextIdx = (pointIndex + 1) % previewPoints.length
 
     historyContext?.takeSnapshot()
 
-    setPolygons(
-      polygons.map((p) => {
-        if (p.id !== polygonId) return p
-        return { ...p, points: previewPoints }
-      })
-    )
+    const newPolygons = polygons.map((p) => {
+      if (p.id !== polygonId) return p
+      return { ...p, points: previewPoints }
+    })
+
+    // The moved corner takes the adjacent polygons sharing it along
+    const linked = shareVertices
+      ? findLinkedVertices(polygons, { polygonId, pointIndex: nextIdx }).filter((v) => v.polygonId !== polygonId)
+      : []
+    const moved = moveVertices(newPolygons, linked, previewPoints[nextIdx])
+    // Only the winding is normalized: the squared corner is kept where it is
+    const changedIds = [polygonId, ...linked.map((v) => v.polygonId)]
+    const cleaned = cleanupPolygons(moved, changedIds, { shareVertices, vertices: [] })
+    setPolygons(cleaned)
+    if (cleaned !== moved) {
+      const reordered = new Set(cleaned.filter((p, i) => p !== moved[i]).map((p) => p.id))
+      if (selection.vertices.some((v) => reordered.has(v.polygonId))) {
+        setSelection({ ...selection, vertices: selection.vertices.filter((v) => !reordered.has(v.polygonId)) })
+      }
+    }
 
     // Reset state
     setSelectedVertexInfo(null)
     setPreviewPoints(null)
-  }, [selectedVertexInfo, previewPoints, polygons, setPolygons, historyContext])
+  }, [selectedVertexInfo, previewPoints, polygons, shareVertices, setPolygons, historyContext, selection, setSelection])
 
   const onCancel = useCallback(() => {
     setSelectedVertexInfo(null)
@@ -1,35 +1,52 @@
 import { useCallback } from 'react'
 import * as THREE from 'three'
 import type { ToolHookReturn, PolygonToolState } from '../types'
-import type { Polygon } from '../../types'
+import type { Polygon, PolygonKind } from '../../types'
 import { useCanvasContext } from '../../context/CanvasContext'
 import { useToolContext } from '../../context/ToolContext'
-import { COLORS } from '../../constants'
+import { COLORS, OBSTRUCTION_COLOR } from '../../constants'
+import { useSnapping } from '../useSnapping'
+import { cleanupPolygons } from '../../../../utils/cleanup'
 
 export interface PolygonToolExtended extends ToolHookReturn<PolygonToolState> {
   handleFinishPolygon: () => void
   handleUndoPoint: () => void
 }
 
-export function usePolygonTool(): PolygonToolExtended {
-  const { polygons, setPolygons, historyContext } = useCanvasContext()
+/**
+ * Draws roof outlines, or obstruction (keep-out) polygons when kind is 'obstruction'
+ */
+export function usePolygonTool(kind: PolygonKind = 'roof'): PolygonToolExtended {
+  const { polygons, setPolygons, historyContext, shareVertices, vertexMergeTolerance } = useCanvasContext()
   const { currentPoints, setCurrentPoints, setActiveTool } = useToolContext()
+  const { snap, clearSnap } = useSnapping()
 
-  // Calculate current color based on polygon count
-  const currentColor = COLORS[polygons.length % COLORS.length]
+  // Roof outlines cycle through colors based on polygon count, obstructions share one color
+  const currentColor = kind === 'obstruction' ? OBSTRUCTION_COLOR : COLORS[polygons.length % COLORS.length]
 
   const onPlaneClick = useCallback((point: THREE.Vector3) => {
-    setCurrentPoints((prev) => [...prev, point])
-  }, [setCurrentPoints])
+    const { point: snapped } = snap(point, { previousPoints: currentPoints })
+    setCurrentPoints((prev) => [...prev, snapped])
+  }, [snap, currentPoints, setCurrentPoints])
+
+  const onPlaneHover = useCallback((point: THREE.Vector3 | null) => {
+    if (point) {
+      snap(point, { previousPoints: currentPoints })
+    } else {
+      clearSnap()
+    }
+  }, [snap, clearSnap, currentPoints])
 
   const onCancel = useCallback(() => {
     setCurrentPoints([])
+    clearSnap()
     setActiveTool('select')
-  }, [setCurrentPoints, setActiveTool])
+  }, [setCurrentPoints, clearSnap, setActiveTool])
 
   const onDeactivate = useCallback(() => {
     setCurrentPoints([])
-  }, [setCurrentPoints])
+    clearSnap()
+  }, [setCurrentPoints, clearSnap])
 
   const handleFinishPolygon = useCallback(() => {
     if (currentPoints.length >= 3) {
@@ -39,12 +56,30 @@ export function usePolygonTool(): PolygonToolExtended {
         points: currentPoints,
         color: currentColor,
         lines: [],
+        kind,
       }
-      setPolygons([...polygons, newPolygon])
+      // Wound counter-clockwise, without doubled or straight-through corners
+      setPolygons(cleanupPolygons([...polygons, newPolygon], [newPolygon.id], {
+        tolerance: vertexMergeTolerance,
+        shareVertices,
+      }))
     }
     setCurrentPoints([])
+    clearSnap()
     setActiveTool('select')
-  }, [currentPoints, currentColor, polygons, setPolygons, setCurrentPoints, setActiveTool, historyContext])
+  }, [
+    currentPoints,
+    currentColor,
+    kind,
+    polygons,
+    setPolygons,
+    setCurrentPoints,
+    clearSnap,
+    setActiveTool,
+    historyContext,
+    shareVertices,
+    vertexMergeTolerance,
+  ])
 
   const handleUndoPoint = useCallback(() => {
     setCurrentPoints((prev) => prev.slice(0, -1))
@@ -52,7 +87,9 @@ export function usePolygonTool(): PolygonToolExtended {
 
   const getStatusText = () => {
     if (currentPoints.length === 0) {
-      return 'Click to place points'
+      return kind === 'obstruction'
+        ? 'Click to outline a chimney, skylight or vent'
+        : 'Click to place points'
     }
     return `${currentPoints.length} points${currentPoints.length >= 3 ? ' • Click first point to close' : ''}`
   }
@@ -66,6 +103,7 @@ export function usePolygonTool(): PolygonToolExtended {
     },
     actions: {
       onPlaneClick,
+      onPlaneHover,
       onCancel,
       onDeactivate,
     },
@@ -0,0 +1,24 @@
+import * as THREE from 'three'
+
+/**
+ * Corners of the rectangle with the baseline from start to end, extended perpendicular to it
+ * as far as the depth point lies from the baseline (on either side).
+ * Returns the corners in drawing order: start, end, then the two opposite corners.
+ */
+export function getRectangleCorners(
+  start: THREE.Vector3,
+  end: THREE.Vector3,
+  depthPoint: THREE.Vector3
+): THREE.Vector3[] {
+  const baseline = new THREE.Vector2(end.x - start.x, end.z - start.z)
+  if (baseline.length() === 0) {
+    return [start.clone(), end.clone()]
+  }
+
+  // Signed distance of the depth point from the baseline
+  const normal = new THREE.Vector2(-baseline.y, baseline.x).normalize()
+  const depth = new THREE.Vector2(depthPoint.x - start.x, depthPoint.z - start.z).dot(normal)
+  const offset = new THREE.Vector3(normal.x * depth, 0, normal.y * depth)
+
+  return [start.clone(), end.clone(), end.clone().add(offset), start.clone().add(offset)]
+}
@@ -0,0 +1 @@
+export { useRectangleTool } from './useRectangleTool'
@@ -0,0 +1,128 @@
+import { useCallback, useState } from 'react'
+import * as THREE from 'three'
+import type { ToolHookReturn, RectangleToolState } from '../types'
+import type { Polygon } from '../../types'
+import { useCanvasContext } from '../../context/CanvasContext'
+import { useToolContext } from '../../context/ToolContext'
+import { COLORS } from '../../constants'
+import { useSnapping } from '../useSnapping'
+import { getRectangleCorners } from './geometry'
+import { cleanupPolygons } from '../../../../utils/cleanup'
+
+// Rectangles thinner than this (in Three.js units) are ignored
+const MIN_DEPTH = 1e-3
+
+export interface RectangleToolExtended extends ToolHookReturn<RectangleToolState> {}
+
+/**
+ * Draws a rectangular roof outline at any orientation:
+ * two clicks set the baseline edge and a third sets the depth
+ */
+export function useRectangleTool(): RectangleToolExtended {
+  const { polygons, setPolygons, historyContext, shareVertices, vertexMergeTolerance } = useCanvasContext()
+  const { currentPoints, setCurrentPoints, setActiveTool } = useToolContext()
+  const { snap, clearSnap } = useSnapping()
+
+  const [previewPoints, setPreviewPoints] = useState<THREE.Vector3[] | null>(null)
+
+  const currentColor = COLORS[polygons.length % COLORS.length]
+
+  const reset = useCallback(() => {
+    setCurrentPoints([])
+    setPreviewPoints(null)
+    clearSnap()
+  }, [setCurrentPoints, clearSnap])
+
+  const onPlaneClick = useCallback(
+    (point: THREE.Vector3) => {
+      const { point: snapped } = snap(point, { previousPoints: currentPoints })
+
+      if (currentPoints.length < 2) {
+        // Baseline corners
+        if (currentPoints.length === 1 && currentPoints[0].distanceTo(snapped) === 0) return
+        setCurrentPoints([...currentPoints, snapped])
+        return
+      }
+
+      const [start, end] = currentPoints
+      const corners = getRectangleCorners(start, end, snapped)
+      if (corners.length < 4 || corners[1].distanceTo(corners[2]) < MIN_DEPTH) return
+
+      historyContext?.takeSnapshot()
+      const newPolygon: Polygon = {
+        id: crypto.randomUUID(),
+        points: corners,
+        color: currentColor,
+        lines: [],
+        kind: 'roof',
+      }
+      // Corners follow the click order, so a depth to the other side winds the outline clockwise
+      setPolygons(cleanupPolygons([...polygons, newPolygon], [newPolygon.id], {
+        tolerance: vertexMergeTolerance,
+        shareVertices,
+      }))
+      reset()
+      setActiveTool('select')
+    },
+    [
+      snap,
+      currentPoints,
+      setCurrentPoints,
+      currentColor,
+      polygons,
+      setPolygons,
+      historyContext,
+      shareVertices,
+      vertexMergeTolerance,
+      reset,
+      setActiveTool,
+    ]
+  )
+
+  const onPlaneHover = useCallback(
+    (point: THREE.Vector3 | null) => {
+      if (!point) {
+        setPreviewPoints(null)
+        clearSnap()
+        return
+      }
+      const { point: snapped } = snap(point, { previousPoints: currentPoints })
+      if (currentPoints.length === 2) {
+        setPreviewPoints(getRectangleCorners(currentPoints[0], currentPoints[1], snapped))
+      } else if (currentPoints.length === 1) {
+        setPreviewPoints([currentPoints[0], snapped])
+      } else {
+        setPreviewPoints(null)
+      }
+    },
+    [snap, clearSnap, currentPoints]
+  )
+
+  const onCancel = useCallback(() => {
+    reset()
+    setActiveTool('select')
+  }, [reset, setActiveTool])
+
+  const getStatusText = () => {
+    if (currentPoints.length === 0) return 'Click the first corner of the rectangle'
+    if (currentPoints.length === 1) return 'Click the second corner to set the baseline'
+    return 'Click to set the depth'
+  }
+
+  return {
+    state: {
+      currentPoints,
+      previewPoints,
+      currentColor,
+    },
+    actions: {
+      onPlaneClick,
+      onPlaneHover,
+      onCancel,
+      onDeactivate: reset,
+    },
+    render: {
+      statusText: getStatusText(),
+    },
+  }
+}
@@ -1,10 +1,60 @@
-import { useCallback } from 'react'
+import { useCallback, useMemo, useRef } from 'react'
 import * as THREE from 'three'
 import type { ToolHookReturn, SelectToolState } from '../types'
+import type { Polygon, Selection, TransformMode } from '../../types'
 import { useCanvasContext } from '../../context/CanvasContext'
+import { useToolContext } from '../../context/ToolContext'
+import { useSnapping } from '../useSnapping'
+import { findLinkedVertices, findSharedEdges, insertPointOnEdge, moveVertices } from '../../../../utils/topology'
+import type { VertexRef } from '../../../../utils/topology'
+import {
+  EMPTY_SELECTION,
+  isSelectionEmpty,
+  updateSelection,
+  getSelectedPolygonIds,
+  getSelectedVertices,
+  getSelectionCenter,
+  transformVertices,
+  transformPanelArrays,
+} from '../../../../utils/selection'
+import { copyPolygons, pastePolygons } from '../../../../utils/clipboard'
+import { cleanupPolygons } from '../../../../utils/cleanup'
+import type { ClipboardContent } from '../../../../utils/clipboard'
+import { PASTE_OFFSET } from '../../constants'
 
 export interface SelectToolExtended extends ToolHookReturn<SelectToolState> {
   onPointDelete: (polygonId: string, pointIndex: number) => void
+  /** Center of the selection, where the transform gizmo is placed (null when nothing is selected) */
+  selectionCenter: THREE.Vector3 | null
+  /** Add the polygons, corners and buildings inside a selection box */
+  onBoxSelect: (items: Selection) => void
+  setTransformMode: (mode: TransformMode) => void
+  clearSelection: () => void
+  onTransformStart: () => void
+  /** Transform of the selection since the gizmo drag started, with its rotation about the vertical axis in radians */
+  onTransform: (matrix: THREE.Matrix4, rotation: number) => void
+  onTransformEnd: () => void
+  /** Copy the selected polygons and buildings */
+  onCopy: () => void
+  /** Add a copy of the copied polygons and buildings, shifted a bit further on every paste */
+  onPaste: () => void
+  /** Copy and paste the selection in one step, leaving the clipboard as it was */
+  onDuplicate: () => void
+  canPaste: boolean
+}
+
+// Selection and vertices captured when a gizmo drag starts; the transform is always applied to these
+interface TransformStart {
+  polygons: Polygon[]
+  vertices: VertexRef[]
+  polygonIds: string[]
+  matrix: THREE.Matrix4
+  rotation: number
+}
+
+// Drop selected corners of a polygon whose points were renumbered
+function withoutVerticesOf(selection: Selection, polygonIds: string[]): Selection {
+  return { ...selection, vertices: selection.vertices.filter((v) => !polygonIds.includes(v.polygonId)) }
 }
 
 export function useSelectTool(): SelectToolExtended {
@@ -13,10 +63,32 @@ export function useSelectTool(): SelectToolExtended {
     setPolygons,
     setInternalPolygons,
     commitPolygons,
+    buildings,
+    setBuildings,
+    panelArrays,
+    setPanelArrays,
     historyContext,
+    selection,
+    setSelection,
     isDraggingPoint,
     setIsDraggingPoint,
+    shareVertices,
+    vertexMergeTolerance,
   } = useCanvasContext()
+  const { transformMode, setTransformMode, clipboard, setClipboard } = useToolContext()
+  const { snap, clearSnap } = useSnapping()
+
+  // Corners moved by the current drag, fixed when it starts so the point doesn't pick up corners it passes over
+  const draggedVerticesRef = useRef<VertexRef[] | null>(null)
+  const dragPositionRef = useRef<THREE.Vector3 | null>(null)
+  const transformStartRef = useRef<TransformStart | null>(null)
+  // Pastes since the last copy; each one lands one offset further away
+  const pasteCountRef = useRef(0)
+
+  const selectionCenter = useMemo(
+    () => getSelectionCenter(polygons, getSelectedVertices(polygons, buildings, selection, false)),
+    [polygons, buildings, selection]
+  )
 
   const onActivate = useCallback(() => {
     // Select tool is default - just enables orbit controls
@@ -30,24 +102,63 @@ export function useSelectTool(): SelectToolExtended {
 
   const onPointDrag = useCallback(
     (polygonId: string, pointIndex: number, newPosition: THREE.Vector3) => {
-      setInternalPolygons((prev) =>
-        prev.map((p) => {
-          if (p.id !== polygonId) return p
-          const newPoints = [...p.points]
-          newPoints[pointIndex] = newPosition
-          return { ...p, points: newPoints }
-        })
-      )
+      // Angles and alignment are measured from the edge leading into the dragged vertex
+      const polygon = polygons.find((p) => p.id === polygonId)
+      const count = polygon?.points.length ?? 0
+      const previousPoints = polygon && count >= 3
+        ? [polygon.points[(pointIndex + count - 2) % count], polygon.points[(pointIndex + count - 1) % count]]
+        : []
+      if (!draggedVerticesRef.current) {
+        draggedVerticesRef.current = shareVertices
+          ? findLinkedVertices(polygons, { polygonId, pointIndex })
+          : [{ polygonId, pointIndex }]
+      }
+      const vertices = draggedVerticesRef.current
+      const { point } = snap(newPosition, { previousPoints, exclude: vertices })
+      dragPositionRef.current = point
+      setInternalPolygons((prev) => moveVertices(prev, vertices, point))
     },
-    [setInternalPolygons]
+    [polygons, shareVertices, snap, setInternalPolygons]
   )
 
   const onPointDragEnd = useCallback(() => {
+    const vertices = draggedVerticesRef.current
+    const position = dragPositionRef.current
+    draggedVerticesRef.current = null
+    dragPositionRef.current = null
+
+    // Merge the dragged corner into a neighbour it was dropped on, or drop it where the outline now runs straight
+    if (vertices && position) {
+      const moved = moveVertices(polygons, vertices, position)
+      const polygonIds = [...new Set(vertices.map((v) => v.polygonId))]
+      const cleaned = cleanupPolygons(moved, polygonIds, { tolerance: vertexMergeTolerance, shareVertices, vertices })
+      if (cleaned !== moved) {
+        setInternalPolygons(cleaned)
+        // Corners of the cleaned polygons may have been renumbered
+        const changed = new Set(cleaned.filter((p, i) => p !== moved[i]).map((p) => p.id))
+        if (selection.vertices.some((v) => changed.has(v.polygonId))) {
+          setSelection({ ...selection, vertices: selection.vertices.filter((v) => !changed.has(v.polygonId)) })
+        }
+      }
+    }
+
     setIsDraggingPoint(false)
+    clearSnap()
     historyContext?.endBatch()
     // Propagate the internal state to external (uses callback to avoid stale closure)
     commitPolygons()
-  }, [setIsDraggingPoint, historyContext, commitPolygons])
+  }, [
+    polygons,
+    shareVertices,
+    vertexMergeTolerance,
+    selection,
+    setSelection,
+    setInternalPolygons,
+    setIsDraggingPoint,
+    clearSnap,
+    historyContext,
+    commitPolygons,
+  ])
 
   // Point delete handler
   const onPointDelete = useCallback(
@@ -68,45 +179,195 @@ export function useSelectTool(): SelectToolExtended {
           ] as [number, number])
         return { ...p, points: newPoints, lines: newLines }
       })
-      setPolygons(newPolygons)
+      // Only the winding is normalized: no corner merged or dropped
+      setPolygons(cleanupPolygons(newPolygons, [polygonId], { shareVertices, vertices: [] }))
+      if (selection.vertices.some((v) => v.polygonId === polygonId)) {
+        setSelection(withoutVerticesOf(selection, [polygonId]))
+      }
     },
-    [polygons, setPolygons, historyContext]
+    [polygons, shareVertices, setPolygons, historyContext, selection, setSelection]
   )
 
   // Add point on edge handler
   const onEdgeClick = useCallback(
     (polygonId: string, edgeIndex: number, position: THREE.Vector3) => {
       historyContext?.takeSnapshot()
+      // A point on an edge shared with adjacent polygons is added to all of them
+      const edges = [
+        { polygonId, edgeIndex },
+        ...(shareVertices ? findSharedEdges(polygons, { polygonId, edgeIndex }) : []),
+      ]
       const newPolygons = polygons.map((p) => {
-        if (p.id !== polygonId) return p
-        const newPoints = [...p.points]
-        newPoints.splice(edgeIndex + 1, 0, position)
-        const newLines = (p.lines || []).map(([a, b]) => [
-          a > edgeIndex ? a + 1 : a,
-          b > edgeIndex ? b + 1 : b,
-        ] as [number, number])
-        return { ...p, points: newPoints, lines: newLines }
+        const edge = edges.find((e) => e.polygonId === p.id)
+        return edge ? insertPointOnEdge(p, edge.edgeIndex, position) : p
       })
-      setPolygons(newPolygons)
+      const changedIds = edges.map((e) => e.polygonId)
+      // The new corner lies on the edge by design, so only the winding is normalized
+      setPolygons(cleanupPolygons(newPolygons, changedIds, { shareVertices, vertices: [] }))
+      if (selection.vertices.some((v) => changedIds.includes(v.polygonId))) {
+        setSelection(withoutVerticesOf(selection, changedIds))
+      }
+    },
+    [polygons, shareVertices, setPolygons, historyContext, selection, setSelection]
+  )
+
+  // Selection: clicks replace it, shift-clicks add or remove the clicked item
+  const onPlaneClick = useCallback(
+    (_point: THREE.Vector3, additive?: boolean) => {
+      if (!additive && !isSelectionEmpty(selection)) setSelection(EMPTY_SELECTION)
     },
-    [polygons, setPolygons, historyContext]
+    [selection, setSelection]
   )
 
+  const onPolygonClick = useCallback(
+    (polygonId: string, additive?: boolean) => {
+      setSelection(updateSelection(selection, { polygonIds: [polygonId] }, additive ? 'toggle' : 'replace'))
+    },
+    [selection, setSelection]
+  )
+
+  const onBuildingClick = useCallback(
+    (buildingId: string, additive?: boolean) => {
+      setSelection(updateSelection(selection, { buildingIds: [buildingId] }, additive ? 'toggle' : 'replace'))
+    },
+    [selection, setSelection]
+  )
+
+  const onPointClick = useCallback(
+    (polygonId: string, pointIndex: number, additive?: boolean) => {
+      setSelection(updateSelection(selection, { vertices: [{ polygonId, pointIndex }] }, additive ? 'toggle' : 'replace'))
+    },
+    [selection, setSelection]
+  )
+
+  const onBoxSelect = useCallback(
+    (items: Selection) => {
+      setSelection(updateSelection(selection, items, 'add'))
+    },
+    [selection, setSelection]
+  )
+
+  const clearSelection = useCallback(() => {
+    if (!isSelectionEmpty(selection)) setSelection(EMPTY_SELECTION)
+  }, [selection, setSelection])
+
+  // Group transform with the gizmo, recorded as a single history entry like a point drag
+  const onTransformStart = useCallback(() => {
+    transformStartRef.current = {
+      polygons,
+      vertices: getSelectedVertices(polygons, buildings, selection, shareVertices),
+      polygonIds: getSelectedPolygonIds(buildings, selection),
+      matrix: new THREE.Matrix4(),
+      rotation: 0,
+    }
+    setIsDraggingPoint(true)
+    historyContext?.beginBatch()
+  }, [polygons, buildings, selection, shareVertices, setIsDraggingPoint, historyContext])
+
+  const onTransform = useCallback(
+    (matrix: THREE.Matrix4, rotation: number) => {
+      const start = transformStartRef.current
+      if (!start) return
+      start.matrix = matrix
+      start.rotation = rotation
+      setInternalPolygons(transformVertices(start.polygons, start.vertices, matrix))
+    },
+    [setInternalPolygons]
+  )
+
+  const onTransformEnd = useCallback(() => {
+    const start = transformStartRef.current
+    transformStartRef.current = null
+    if (!start) return
+
+    // Panels are carried along once, when the gizmo is released
+    if (panelArrays.some((a) => start.polygonIds.includes(a.polygonId))) {
+      setPanelArrays(transformPanelArrays(panelArrays, start.polygonIds, start.matrix, start.rotation))
+    }
+    setIsDraggingPoint(false)
+    historyContext?.endBatch()
+    commitPolygons()
+  }, [panelArrays, setPanelArrays, setIsDraggingPoint, historyContext, commitPolygons])
+
+  // Clipboard: pasted polygons and buildings get new ids and become the selection
+  const addCopies = useCallback(
+    (content: ClipboardContent, steps: number) => {
+      if (content.polygons.length === 0) return
+      const distance = PASTE_OFFSET * steps
+      const pasted = pastePolygons(content, new THREE.Vector3(distance, 0, distance))
+      historyContext?.takeSnapshot()
+      setPolygons(cleanupPolygons([...polygons, ...pasted.polygons], pasted.polygons.map((p) => p.id), {
+        tolerance: vertexMergeTolerance,
+        shareVertices,
+      }))
+      if (pasted.buildings.length > 0) {
+        setBuildings([...buildings, ...pasted.buildings])
+      }
+      setSelection({ ...EMPTY_SELECTION, polygonIds: pasted.polygons.map((p) => p.id) })
+    },
+    [polygons, buildings, shareVertices, vertexMergeTolerance, setPolygons, setBuildings, historyContext, setSelection]
+  )
+
+  const onCopy = useCallback(() => {
+    const polygonIds = getSelectedPolygonIds(buildings, selection)
+    if (polygonIds.length === 0) return
+    setClipboard(copyPolygons(polygons, buildings, polygonIds))
+    pasteCountRef.current = 0
+  }, [polygons, buildings, selection, setClipboard])
+
+  const onPaste = useCallback(() => {
+    if (!clipboard) return
+    pasteCountRef.current += 1
+    addCopies(clipboard, pasteCountRef.current)
+  }, [clipboard, addCopies])
+
+  const onDuplicate = useCallback(() => {
+    addCopies(copyPolygons(polygons, buildings, getSelectedPolygonIds(buildings, selection)), 1)
+  }, [polygons, buildings, selection, addCopies])
+
+  const onCancel = useCallback(() => {
+    clearSelection()
+  }, [clearSelection])
+
+  const getStatusText = (): string | null => {
+    if (isSelectionEmpty(selection)) return null
+    const count = selection.polygonIds.length + selection.buildingIds.length + selection.vertices.length
+    return `${count} selected • Drag the gizmo to move, rotate or scale • Shift-click to add or remove • Ctrl+C/V to copy and paste, Ctrl+D to duplicate • Esc to clear`
+  }
+
   return {
     state: {
       isDraggingPoint,
+      selection,
+      transformMode,
     },
     actions: {
       onActivate,
+      onPlaneClick,
+      onPointClick,
+      onPolygonClick,
+      onBuildingClick,
       onPointDragStart,
       onPointDrag,
       onPointDragEnd,
       onEdgeClick,
+      onCancel,
     },
     render: {
-      statusText: null,
+      statusText: getStatusText(),
     },
-    // Extended action for external use
+    // Extended actions for external use
     onPointDelete,
+    selectionCenter,
+    onBoxSelect,
+    setTransformMode,
+    clearSelection,
+    onTransformStart,
+    onTransform,
+    onTransformEnd,
+    onCopy,
+    onPaste,
+    onDuplicate,
+    canPaste: clipboard !== null && clipboard.polygons.length > 0,
   }
 }
@@ -0,0 +1 @@
+export { useSplitTool } from './useSplitTool'
@@ -0,0 +1,138 @@
+import { useCallback, useState } from 'react'
+import * as THREE from 'three'
+import type { ToolHookReturn, SplitToolState } from '../types'
+import type { Polygon } from '../../types'
+import { useCanvasContext } from '../../context/CanvasContext'
+import { useToolContext } from '../../context/ToolContext'
+import { useSnapping } from '../useSnapping'
+import { splitPolygon, copyBuildingsToPieces } from '../../../../utils/boolean'
+import { cleanupPolygons } from '../../../../utils/cleanup'
+
+export interface SplitToolExtended extends ToolHookReturn<SplitToolState> {}
+
+/**
+ * Cuts polygons in pieces along a line: two clicks set the ends of the cut, and every visible polygon
+ * it runs through from edge to edge is split. Clicking both ends of an internal line splits along it.
+ */
+export function useSplitTool(): SplitToolExtended {
+  const {
+    polygons,
+    setPolygons,
+    buildings,
+    setBuildings,
+    panelArrays,
+    setPanelArrays,
+    historyContext,
+    selection,
+    setSelection,
+    shareVertices,
+    vertexMergeTolerance,
+  } = useCanvasContext()
+  const { currentPoints, setCurrentPoints, setActiveTool } = useToolContext()
+  const { snap, clearSnap } = useSnapping()
+
+  const [previewPoints, setPreviewPoints] = useState<THREE.Vector3[] | null>(null)
+
+  const reset = useCallback(() => {
+    setCurrentPoints([])
+    setPreviewPoints(null)
+    clearSnap()
+  }, [setCurrentPoints, clearSnap])
+
+  const onPlaneClick = useCallback(
+    (point: THREE.Vector3) => {
+      const { point: snapped } = snap(point, { previousPoints: currentPoints })
+      if (currentPoints.length === 0) {
+        setCurrentPoints([snapped])
+        return
+      }
+
+      const [start] = currentPoints
+      if (start.distanceTo(snapped) === 0) return
+
+      const pieces = new Map<string, Polygon[]>()
+      for (const polygon of polygons) {
+        if (polygon.visible === false) continue
+        const result = splitPolygon(polygon, start, snapped)
+        if (result) pieces.set(polygon.id, result)
+      }
+      reset()
+      if (pieces.size === 0) return
+
+      historyContext?.takeSnapshot()
+      const pieceIds = [...pieces.values()].flat().map((p) => p.id)
+      setPolygons(cleanupPolygons(polygons.flatMap((p) => pieces.get(p.id) ?? [p]), pieceIds, {
+        tolerance: vertexMergeTolerance,
+        shareVertices,
+      }))
+      const newBuildings = [...pieces].flatMap(([polygonId, split]) => copyBuildingsToPieces(buildings, polygonId, split))
+      if (newBuildings.length > 0) {
+        setBuildings([...buildings, ...newBuildings])
+      }
+      // Panels were laid out for the old outline and roof faces
+      if (panelArrays.some((a) => pieces.has(a.polygonId))) {
+        setPanelArrays(panelArrays.filter((a) => !pieces.has(a.polygonId)))
+      }
+      // Corners of the split polygons were renumbered
+      if (selection.vertices.some((v) => pieces.has(v.polygonId))) {
+        setSelection({ ...selection, vertices: selection.vertices.filter((v) => !pieces.has(v.polygonId)) })
+      }
+    },
+    [
+      snap,
+      currentPoints,
+      setCurrentPoints,
+      polygons,
+      setPolygons,
+      buildings,
+      setBuildings,
+      panelArrays,
+      setPanelArrays,
+      historyContext,
+      selection,
+      setSelection,
+      shareVertices,
+      vertexMergeTolerance,
+      reset,
+    ]
+  )
+
+  const onPlaneHover = useCallback(
+    (point: THREE.Vector3 | null) => {
+      if (!point) {
+        setPreviewPoints(null)
+        clearSnap()
+        return
+      }
+      const { point: snapped } = snap(point, { previousPoints: currentPoints })
+      setPreviewPoints(currentPoints.length === 1 ? [currentPoints[0], snapped] : null)
+    },
+    [snap, clearSnap, currentPoints]
+  )
+
+  const onCancel = useCallback(() => {
+    reset()
+    setActiveTool('select')
+  }, [reset, setActiveTool])
+
+  const getStatusText = () => {
+    if (currentPoints.length === 0) return 'Click where the cut starts, or on one end of an internal line'
+    return 'Click where the cut ends; polygons are split where it runs through them from edge to edge'
+  }
+
+  return {
+    state: {
+      currentPoints,
+      previewPoints,
+    },
+    actions: {
+      onPlaneClick,
+      onPlaneHover,
+      onCancel,
+      onDeactivate: reset,
+    },
+    render: {
+      statusText: getStatusText(),
+    },
+  }
+}
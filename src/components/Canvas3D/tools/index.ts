@@ -2,6 +2,10 @@ export { useSelectTool } from './SelectTool'
 export type { SelectToolExtended } from './SelectTool/useSelectTool'
 export { usePolygonTool } from './PolygonTool'
 export type { PolygonToolExtended } from './PolygonTool/usePolygonTool'
+export { useRectangleTool } from './RectangleTool'
+export type { RectangleToolExtended } from './RectangleTool/useRectangleTool'
+export { useSplitTool } from './SplitTool'
+export type { SplitToolExtended } from './SplitTool/useSplitTool'
 export { useLineTool } from './LineTool'
 export { useBuildingTool } from './BuildingTool'
 export type { BuildingToolExtended } from './BuildingTool/useBuildingTool'
@@ -11,6 +15,10 @@ export { useMeasurementTool } from './MeasurementTool'
 export type { MeasurementToolExtended } from './MeasurementTool/useMeasurementTool'
 export { usePerpendicularTool } from './PerpendicularTool'
 export type { PerpendicularToolExtended } from './PerpendicularTool/usePerpendicularTool'
+export { usePanelTool } from './PanelTool'
+export type { PanelToolExtended } from './PanelTool/usePanelTool'
+export { useSnapping } from './useSnapping'
+export type { SnapOptions, SnappingReturn } from './useSnapping'
 export { useToolManager } from './useToolManager'
 export type { ToolManagerReturn, ToolManagerHandlers } from './useToolManager'
 export type {
@@ -20,9 +28,12 @@ export type {
   ToolState,
   SelectToolState,
   PolygonToolState,
+  RectangleToolState,
+  SplitToolState,
   LineToolState,
   BuildingToolState,
   CalibrationToolState,
   MeasurementToolState,
   PerpendicularToolState,
+  PanelToolState,
 } from './types'
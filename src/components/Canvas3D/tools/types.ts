@@ -1,16 +1,21 @@
 import * as THREE from 'three'
+import type { PanelLayoutSettings, PVModule, Selection, TransformMode } from '../types'
 
 export interface ToolActions {
   // Lifecycle
   onActivate?: () => void
   onDeactivate?: () => void
 
-  // Input events
-  onPlaneClick?: (point: THREE.Vector3) => void
-  onPointClick?: (polygonId: string, pointIndex: number) => void
+  // Input events; additive is set for shift-clicks, which add to or remove from the selection
+  onPlaneClick?: (point: THREE.Vector3, additive?: boolean) => void
+  /** Cursor position over the image plane, or null when it leaves the plane */
+  onPlaneHover?: (point: THREE.Vector3 | null) => void
+  onPointClick?: (polygonId: string, pointIndex: number, additive?: boolean) => void
   onEdgeClick?: (polygonId: string, edgeIndex: number, position: THREE.Vector3) => void
-  onPolygonClick?: (polygonId: string) => void
-  onBuildingClick?: (buildingId: string) => void
+  onPolygonClick?: (polygonId: string, additive?: boolean) => void
+  onBuildingClick?: (buildingId: string, additive?: boolean) => void
+  onRoofFaceClick?: (buildingId: string, faceIndex: number) => void
+  onPanelArrayClick?: (panelArrayId: string) => void
 
   // Drag events
   onPointDragStart?: () => void
@@ -24,6 +29,8 @@ export interface ToolActions {
 // Tool-specific state interfaces
 export interface SelectToolState {
   isDraggingPoint: boolean
+  selection: Selection
+  transformMode: TransformMode
 }
 
 export interface PolygonToolState {
@@ -33,6 +40,19 @@ export interface PolygonToolState {
   canUndo: boolean
 }
 
+export interface RectangleToolState {
+  currentPoints: THREE.Vector3[]
+  /** Rectangle (or baseline) following the cursor */
+  previewPoints: THREE.Vector3[] | null
+  currentColor: string
+}
+
+export interface SplitToolState {
+  currentPoints: THREE.Vector3[]
+  /** Cut line following the cursor */
+  previewPoints: THREE.Vector3[] | null
+}
+
 export interface LineToolState {
   selectedLinePoints: { polygonId: string; pointIndex: number } | null
 }
@@ -61,15 +81,24 @@ export interface PerpendicularToolState {
   previewPoints: THREE.Vector3[] | null
 }
 
+export interface PanelToolState {
+  module: PVModule | null
+  settings: PanelLayoutSettings
+  isCalibrated: boolean
+}
+
 // Union of all tool states for generic use
 export type ToolState =
   | SelectToolState
   | PolygonToolState
+  | RectangleToolState
+  | SplitToolState
   | LineToolState
   | BuildingToolState
   | CalibrationToolState
   | MeasurementToolState
   | PerpendicularToolState
+  | PanelToolState
 
 export interface ToolRender {
   statusText: string | null
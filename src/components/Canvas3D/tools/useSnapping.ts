@@ -0,0 +1,55 @@
+import { useCallback } from 'react'
+import * as THREE from 'three'
+import { useCanvasContext } from '../context/CanvasContext'
+import { useToolContext } from '../context/ToolContext'
+import { snapPoint } from '../../../utils/snapping'
+import type { SnapContext, SnapResult, SnapSettings } from '../../../utils/snapping'
+import { getUnitsPerMeter } from '../../../utils/geometry'
+
+export interface SnapOptions extends Pick<SnapContext, 'previousPoints' | 'exclude'> {
+  /** Overrides of the current snap settings, e.g. to snap to vertices only */
+  settings?: Partial<SnapSettings>
+}
+
+export interface SnappingReturn {
+  /** Snap a point and show the snap indicator for it */
+  snap: (point: THREE.Vector3, options?: SnapOptions) => SnapResult
+  /** Hide the snap indicator */
+  clearSnap: () => void
+}
+
+function isSameSnap(a: SnapResult | null, b: SnapResult | null): boolean {
+  if (!a || !b) return a === b
+  return a.kind === b.kind && a.point.equals(b.point)
+}
+
+/**
+ * Shared snapping for the drawing and editing tools
+ */
+export function useSnapping(): SnappingReturn {
+  const { polygons, pixelsPerMeter, imageWidth } = useCanvasContext()
+  const { snapSettings, setSnapIndicator } = useToolContext()
+
+  const snap = useCallback(
+    (point: THREE.Vector3, options: SnapOptions = {}) => {
+      const result = snapPoint(point, {
+        polygons,
+        settings: { ...snapSettings, ...options.settings },
+        previousPoints: options.previousPoints,
+        exclude: options.exclude,
+        unitsPerMeter: getUnitsPerMeter(pixelsPerMeter, imageWidth),
+      })
+      // Only re-render when the indicator actually changes
+      const indicator = result.kind ? result : null
+      setSnapIndicator((prev) => (isSameSnap(prev, indicator) ? prev : indicator))
+      return result
+    },
+    [polygons, snapSettings, pixelsPerMeter, imageWidth, setSnapIndicator]
+  )
+
+  const clearSnap = useCallback(() => {
+    setSnapIndicator(null)
+  }, [setSnapIndicator])
+
+  return { snap, clearSnap }
+}
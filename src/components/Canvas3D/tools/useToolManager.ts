@@ -4,20 +4,27 @@ import type { ToolName } from '../types'
 import type { ToolActions, ToolHookReturn, ToolState } from './types'
 import { useSelectTool, type SelectToolExtended } from './SelectTool/useSelectTool'
 import { usePolygonTool, type PolygonToolExtended } from './PolygonTool/usePolygonTool'
+import { useRectangleTool, type RectangleToolExtended } from './RectangleTool/useRectangleTool'
+import { useSplitTool, type SplitToolExtended } from './SplitTool/useSplitTool'
 import { useLineTool } from './LineTool/useLineTool'
 import { useBuildingTool, type BuildingToolExtended } from './BuildingTool/useBuildingTool'
 import { useCalibrationTool, type CalibrationToolExtended } from './CalibrationTool/useCalibrationTool'
 import { useMeasurementTool, type MeasurementToolExtended } from './MeasurementTool/useMeasurementTool'
 import { usePerpendicularTool, type PerpendicularToolExtended } from './PerpendicularTool/usePerpendicularTool'
+import { usePanelTool, type PanelToolExtended } from './PanelTool/usePanelTool'
 import { useToolContext } from '../context/ToolContext'
 import { useCanvasContext } from '../context/CanvasContext'
+import type { SnapResult } from '../../../utils/snapping'
 
 export type { PolygonToolExtended } from './PolygonTool/usePolygonTool'
+export type { RectangleToolExtended } from './RectangleTool/useRectangleTool'
+export type { SplitToolExtended } from './SplitTool/useSplitTool'
 export type { BuildingToolExtended } from './BuildingTool/useBuildingTool'
 export type { CalibrationToolExtended } from './CalibrationTool/useCalibrationTool'
 export type { MeasurementToolExtended } from './MeasurementTool/useMeasurementTool'
 export type { PerpendicularToolExtended } from './PerpendicularTool/usePerpendicularTool'
 export type { SelectToolExtended } from './SelectTool/useSelectTool'
+export type { PanelToolExtended } from './PanelTool/usePanelTool'
 
 export interface ToolManagerHandlers extends ToolActions {
   onPointDelete: (polygonId: string, pointIndex: number) => void
@@ -44,15 +51,20 @@ export interface ToolManagerReturn {
   calibrationPoints: THREE.Vector3[]
   measurementPoints: THREE.Vector3[]
   selectedLinePoints: { polygonId: string; pointIndex: number } | null
+  snapIndicator: SnapResult | null
 
   // Individual tool instances for direct access
   selectTool: SelectToolExtended
   polygonTool: PolygonToolExtended
+  obstructionTool: PolygonToolExtended
+  rectangleTool: RectangleToolExtended
+  splitTool: SplitToolExtended
   lineTool: ToolHookReturn
   buildingTool: BuildingToolExtended
   calibrationTool: CalibrationToolExtended
   measurementTool: MeasurementToolExtended
   perpendicularTool: PerpendicularToolExtended
+  panelTool: PanelToolExtended
 }
 
 export function useToolManager(): ToolManagerReturn {
@@ -66,6 +78,7 @@ export function useToolManager(): ToolManagerReturn {
     calibrationPoints,
     measurementPoints,
     selectedLinePoints,
+    snapIndicator,
   } = toolContext
 
   const { isDraggingPoint } = canvasContext
@@ -73,22 +86,30 @@ export function useToolManager(): ToolManagerReturn {
   // Initialize all tool hooks - they now use context internally
   const selectTool = useSelectTool()
   const polygonTool = usePolygonTool()
+  const obstructionTool = usePolygonTool('obstruction')
+  const rectangleTool = useRectangleTool()
+  const splitTool = useSplitTool()
   const lineTool = useLineTool()
   const buildingTool = useBuildingTool()
   const calibrationTool = useCalibrationTool()
   const measurementTool = useMeasurementTool()
   const perpendicularTool = usePerpendicularTool()
+  const panelTool = usePanelTool()
 
   // Tool lookup by name
   const tools = useMemo(() => ({
     select: selectTool,
     polygon: polygonTool,
+    obstruction: obstructionTool,
+    rectangle: rectangleTool,
+    split: splitTool,
     line: lineTool,
     building: buildingTool,
     calibration: calibrationTool,
     measurement: measurementTool,
     perpendicular: perpendicularTool,
-  }), [selectTool, polygonTool, lineTool, buildingTool, calibrationTool, measurementTool, perpendicularTool])
+    panels: panelTool,
+  }), [selectTool, polygonTool, obstructionTool, rectangleTool, splitTool, lineTool, buildingTool, calibrationTool, measurementTool, perpendicularTool, panelTool])
 
   const getToolByName = useCallback((name: ToolName): ToolHookReturn<ToolState> => {
     return tools[name]
@@ -118,20 +139,47 @@ export function useToolManager(): ToolManagerReturn {
     onActivate: () => currentTool.actions.onActivate?.(),
     onDeactivate: () => currentTool.actions.onDeactivate?.(),
 
-    // Plane click - polygon, calibration, and measurement tools
-    onPlaneClick: (point: THREE.Vector3) => {
-      if (activeTool === 'polygon') {
+    // Plane click - select (clears the selection), polygon, obstruction, rectangle, split, calibration, measurement and line tools
+    onPlaneClick: (point: THREE.Vector3, additive?: boolean) => {
+      if (activeTool === 'select') {
+        selectTool.actions.onPlaneClick?.(point, additive)
+      } else if (activeTool === 'polygon') {
         polygonTool.actions.onPlaneClick?.(point)
+      } else if (activeTool === 'obstruction') {
+        obstructionTool.actions.onPlaneClick?.(point)
+      } else if (activeTool === 'rectangle') {
+        rectangleTool.actions.onPlaneClick?.(point)
+      } else if (activeTool === 'split') {
+        splitTool.actions.onPlaneClick?.(point)
       } else if (activeTool === 'calibration') {
         calibrationTool.actions.onPlaneClick?.(point)
       } else if (activeTool === 'measurement') {
         measurementTool.actions.onPlaneClick?.(point)
+      } else if (activeTool === 'line') {
+        lineTool.actions.onPlaneClick?.(point)
+      }
+    },
+
+    // Plane hover - snapping and shape preview for the polygon, obstruction, rectangle, split and line tools
+    onPlaneHover: (point: THREE.Vector3 | null) => {
+      if (activeTool === 'polygon') {
+        polygonTool.actions.onPlaneHover?.(point)
+      } else if (activeTool === 'obstruction') {
+        obstructionTool.actions.onPlaneHover?.(point)
+      } else if (activeTool === 'rectangle') {
+        rectangleTool.actions.onPlaneHover?.(point)
+      } else if (activeTool === 'split') {
+        splitTool.actions.onPlaneHover?.(point)
+      } else if (activeTool === 'line') {
+        lineTool.actions.onPlaneHover?.(point)
       }
     },
 
-    // Point click - line tool and perpendicular tool
-    onPointClick: (polygonId: string, pointIndex: number) => {
-      if (activeTool === 'line') {
+    // Point click - select tool (shift-click), line tool and perpendicular tool
+    onPointClick: (polygonId: string, pointIndex: number, additive?: boolean) => {
+      if (activeTool === 'select') {
+        selectTool.actions.onPointClick?.(polygonId, pointIndex, additive)
+      } else if (activeTool === 'line') {
         lineTool.actions.onPointClick?.(polygonId, pointIndex)
       } else if (activeTool === 'perpendicular') {
         perpendicularTool.actions.onPointClick?.(polygonId, pointIndex)
@@ -145,20 +193,40 @@ export function useToolManager(): ToolManagerReturn {
       }
     },
 
-    // Polygon click - building tool
-    onPolygonClick: (polygonId: string) => {
-      if (activeTool === 'building') {
+    // Polygon click - select, building and panel tools
+    onPolygonClick: (polygonId: string, additive?: boolean) => {
+      if (activeTool === 'select') {
+        selectTool.actions.onPolygonClick?.(polygonId, additive)
+      } else if (activeTool === 'building') {
         buildingTool.actions.onPolygonClick?.(polygonId)
+      } else if (activeTool === 'panels') {
+        panelTool.actions.onPolygonClick?.(polygonId)
       }
     },
 
-    // Building click - building tool (for deletion)
-    onBuildingClick: (buildingId: string) => {
-      if (activeTool === 'building') {
+    // Building click - select tool, building tool (for deletion)
+    onBuildingClick: (buildingId: string, additive?: boolean) => {
+      if (activeTool === 'select') {
+        selectTool.actions.onBuildingClick?.(buildingId, additive)
+      } else if (activeTool === 'building') {
         buildingTool.actions.onBuildingClick?.(buildingId)
       }
     },
 
+    // Roof face click - panel tool
+    onRoofFaceClick: (buildingId: string, faceIndex: number) => {
+      if (activeTool === 'panels') {
+        panelTool.actions.onRoofFaceClick?.(buildingId, faceIndex)
+      }
+    },
+
+    // Panel array click - panel tool (for deletion)
+    onPanelArrayClick: (panelArrayId: string) => {
+      if (activeTool === 'panels') {
+        panelTool.actions.onPanelArrayClick?.(panelArrayId)
+      }
+    },
+
     // Drag handlers - select tool only
     onPointDragStart: () => {
       if (activeTool === 'select') {
@@ -195,11 +263,15 @@ export function useToolManager(): ToolManagerReturn {
     activeTool,
     selectTool,
     polygonTool,
+    obstructionTool,
+    rectangleTool,
+    splitTool,
     lineTool,
     buildingTool,
     calibrationTool,
     measurementTool,
     perpendicularTool,
+    panelTool,
     setActiveTool,
   ])
 
@@ -210,22 +282,55 @@ export function useToolManager(): ToolManagerReturn {
         handlers.onCancel?.()
       } else if (e.key === 'Enter' && activeTool === 'perpendicular') {
         perpendicularTool.applyConstraint()
+      } else if (activeTool === 'select') {
+        // Clipboard shortcuts, left to the browser while typing in a field
+        const target = e.target as HTMLElement
+        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return
+
+        const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0
+        const isCtrlOrCmd = isMac ? e.metaKey : e.ctrlKey
+        if (!isCtrlOrCmd || e.shiftKey) return
+
+        if (e.key === 'c') {
+          selectTool.onCopy()
+        } else if (e.key === 'v') {
+          e.preventDefault()
+          selectTool.onPaste()
+        } else if (e.key === 'd') {
+          e.preventDefault()
+          selectTool.onDuplicate()
+        }
       }
     }
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [handlers, activeTool, perpendicularTool])
+  }, [handlers, activeTool, perpendicularTool, selectTool])
 
   // Computed flags
-  const isDrawing = activeTool === 'polygon' || activeTool === 'calibration' || activeTool === 'measurement'
+  const isDrawing =
+    activeTool === 'polygon' ||
+    activeTool === 'obstruction' ||
+    activeTool === 'rectangle' ||
+    activeTool === 'split' ||
+    activeTool === 'calibration' ||
+    activeTool === 'measurement'
   const orbitEnabled = activeTool === 'select' && !isDraggingPoint
 
-  // Get current color from polygon tool state (now properly typed)
-  const currentColor = polygonTool.state.currentColor
+  // Get current color from the drawing tool state (now properly typed)
+  const currentColor = activeTool === 'obstruction'
+    ? obstructionTool.state.currentColor
+    : activeTool === 'rectangle'
+      ? rectangleTool.state.currentColor
+      : polygonTool.state.currentColor
+
+  // Tell the user what the cursor snapped to
+  const statusText = currentTool.render.statusText && snapIndicator?.kind
+    ? `${currentTool.render.statusText} • Snap: ${snapIndicator.kind}`
+    : currentTool.render.statusText
 
   return {
     activeTool,
-    statusText: currentTool.render.statusText,
+    statusText,
     handlers,
     setActiveTool,
     isDrawing,
@@ -235,12 +340,17 @@ export function useToolManager(): ToolManagerReturn {
     calibrationPoints,
     measurementPoints,
     selectedLinePoints,
+    snapIndicator,
     selectTool,
     polygonTool,
+    obstructionTool,
+    rectangleTool,
+    splitTool,
     lineTool,
     buildingTool,
     calibrationTool,
     measurementTool,
     perpendicularTool,
+    panelTool,
   }
 }
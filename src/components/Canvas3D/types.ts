@@ -1,20 +1,103 @@
 import * as THREE from 'three'
 
+export type PolygonKind = 'roof' | 'obstruction'
+
 export interface Polygon {
   id: string
   points: THREE.Vector3[]
   color: string
   lines: [number, number][]  // pairs of point indices that form internal lines
   visible?: boolean  // whether the polygon is visible in the editor (default: true)
+  kind?: PolygonKind  // roof outline or keep-out zone such as a chimney, skylight or vent (default: 'roof')
+  obstructionHeight?: number  // obstruction height above the surface below it in Three.js units (default: 0)
+  obstructionSetback?: number  // keep-out buffer around the obstruction in Three.js units (default: 0)
+}
+
+export type RoofType = 'flat' | 'gable' | 'hip' | 'shed'
+
+export interface RoofFace {
+  vertexIndices: number[] // indices into Building.roofVertices, counter-clockwise seen from above
+  pitch: number // slope in degrees (0 = flat)
+  azimuth: number // direction the face slopes down towards, degrees clockwise from north (0 for flat faces)
+  area: number // true (sloped) surface area in Three.js units squared
 }
 
 export interface Building {
   id: string
   polygonId: string // reference to source polygon
   points: THREE.Vector3[] // base points (from polygon)
-  height: number
+  height: number // eave height in Three.js units
   color: string
   visible?: boolean // whether the building is visible in the editor (default: true)
+  roofType?: RoofType // roof shape generated above the eaves (default: 'flat')
+  roofPitch?: number // roof slope in degrees for pitched roof types (default: 30)
+  roofVertices?: THREE.Vector3[] // roof surface vertices, derived from the polygon (footprint points first)
+  roofFaces?: RoofFace[] // roof planes, derived from the polygon and its internal lines
+}
+
+export type PanelOrientation = 'portrait' | 'landscape'
+
+export interface PVModule {
+  id: string
+  name: string
+  width: number // short side in meters
+  height: number // long side in meters
+  power: number // rated power at STC in Wp
+  efficiency: number // module efficiency at STC as a fraction (e.g. 0.21)
+  temperatureCoefficient: number // power temperature coefficient in %/°C (e.g. -0.35)
+}
+
+export interface PanelLayoutSettings {
+  orientation: PanelOrientation // portrait puts the long side up the slope
+  rowSpacing: number // gap between rows in meters
+  columnSpacing: number // gap between modules in a row in meters
+  setback: number // minimum distance from the surface edges in meters
 }
 
-export type ToolName = 'select' | 'polygon' | 'line' | 'building' | 'calibration' | 'measurement' | 'perpendicular'
+export interface PanelArray {
+  id: string
+  polygonId: string // polygon the array was placed on
+  buildingId: string | null // building whose roof face holds the array (null when placed on the flat polygon)
+  faceIndex: number | null // index into Building.roofFaces (null when placed on the flat polygon)
+  module: PVModule // module used for every panel in the array
+  panels: THREE.Vector3[][] // four corners of every module in Three.js units
+  tilt: number // module tilt in degrees (follows the surface pitch)
+  azimuth: number // direction the modules face, degrees clockwise from north
+  settings: PanelLayoutSettings // layout used to generate the panels
+}
+
+/** Insolation period shown on roof faces and panels, or 'off' for the regular materials */
+export type HeatmapMode = 'off' | 'annual' | 'summer' | 'winter'
+
+/** Insolation shown by the heatmap, in kWh/m² */
+export interface HeatmapData {
+  /** Insolation of each roof face, keyed by building id */
+  roofFaces: Map<string, number[]>
+  /** Insolation of each panel, keyed by panel array id */
+  panels: Map<string, number[]>
+  min: number
+  max: number
+}
+
+/** Polygons, single corners and buildings selected together, e.g. to move them as a group */
+export interface Selection {
+  polygonIds: string[]
+  vertices: { polygonId: string; pointIndex: number }[]
+  buildingIds: string[]
+}
+
+/** Gizmo shown for the selection: move, rotate or scale it in the ground plane */
+export type TransformMode = 'translate' | 'rotate' | 'scale'
+
+export type ToolName =
+  | 'select'
+  | 'polygon'
+  | 'obstruction'
+  | 'rectangle'
+  | 'split'
+  | 'line'
+  | 'building'
+  | 'calibration'
+  | 'measurement'
+  | 'perpendicular'
+  | 'panels'
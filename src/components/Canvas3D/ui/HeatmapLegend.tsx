@@ -0,0 +1,55 @@
+import type { HeatmapMode } from '../types'
+import { HEATMAP_GRADIENT } from '../../../utils/heatmap'
+import { IconHeatmap } from './Icons'
+
+const HEATMAP_MODE_LABELS: Record<HeatmapMode, string> = {
+  off: 'Off',
+  annual: 'Year',
+  summer: 'Summer',
+  winter: 'Winter',
+}
+
+export interface HeatmapLegendProps {
+  mode: HeatmapMode
+  /** Lowest and highest insolation shown in kWh/m², or null while the analysis is running */
+  range: { min: number; max: number } | null
+  onModeChange: (mode: HeatmapMode) => void
+}
+
+export function HeatmapLegend({ mode, range, onModeChange }: HeatmapLegendProps) {
+  return (
+    <div className="canvas3d-heatmap-legend">
+      <div className="canvas3d-heatmap-header">
+        <div className="canvas3d-heatmap-icon">
+          <IconHeatmap />
+        </div>
+        <select
+          className="canvas3d-heatmap-select"
+          value={mode}
+          onChange={(e) => onModeChange(e.target.value as HeatmapMode)}
+          title="Insolation heatmap"
+        >
+          {(Object.keys(HEATMAP_MODE_LABELS) as HeatmapMode[]).map((value) => (
+            <option key={value} value={value}>
+              {HEATMAP_MODE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {mode !== 'off' && (
+        range ? (
+          <>
+            <div className="canvas3d-heatmap-gradient" style={{ background: HEATMAP_GRADIENT }} />
+            <div className="canvas3d-heatmap-labels">
+              <span>{range.min.toFixed(0)}</span>
+              <span>kWh/m²</span>
+              <span>{range.max.toFixed(0)}</span>
+            </div>
+          </>
+        ) : (
+          <div className="canvas3d-heatmap-labels">Analyzing…</div>
+        )
+      )}
+    </div>
+  )
+}
@@ -10,6 +10,14 @@ export const IconPolygon = () => (
   </svg>
 )
 
+export const IconObstruction = () => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <rect x="4" y="4" width="16" height="16" strokeDasharray="3 2" />
+    <path d="M9 9l6 6" />
+    <path d="M15 9l-6 6" />
+  </svg>
+)
+
 export const IconLine = () => (
   <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
     <line x1="5" y1="19" x2="19" y2="5" />
@@ -88,3 +96,54 @@ export const IconPerpendicular = () => (
     <rect x="4" y="14" width="6" height="6" fill="none" />
   </svg>
 )
+
+export const IconPanels = () => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <path d="M5 4h14l3 12H2L5 4z" />
+    <path d="M3.5 10h17" />
+    <path d="M9.5 4l-1 12" />
+    <path d="M14.5 4l1 12" />
+    <path d="M12 16v4" />
+    <path d="M8 20h8" />
+  </svg>
+)
+
+export const IconHeatmap = () => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <rect x="3" y="3" width="18" height="18" rx="2" />
+    <path d="M3 9h18" />
+    <path d="M3 15h18" />
+    <path d="M9 3v18" />
+    <path d="M15 3v18" />
+  </svg>
+)
+
+export const IconRectangle = () => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <path d="M4 10l10-6 6 10-10 6z" />
+  </svg>
+)
+
+export const IconSplit = () => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <path d="M3 5h18v14H3z" />
+    <path d="M14 2l-4 20" strokeDasharray="3 2" />
+  </svg>
+)
+
+export const IconSnap = () => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <path d="M6 3v8a6 6 0 0 0 12 0V3" />
+    <path d="M6 7h4" />
+    <path d="M14 7h4" />
+    <path d="M12 20v2" />
+  </svg>
+)
+
+export const IconExport = () => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <path d="M12 3v12" />
+    <path d="M7 10l5 5 5-5" />
+    <path d="M4 17v3h16v-3" />
+  </svg>
+)
@@ -0,0 +1,98 @@
+import type { PanelLayoutSettings, PanelOrientation, PVModule } from '../types'
+
+export interface PanelLayoutPanelProps {
+  show: boolean
+  modules: PVModule[]
+  selectedModule: PVModule | null
+  settings: PanelLayoutSettings
+  panelCount: number
+  /** Total rated power of all placed modules in Wp */
+  totalPower: number
+  onModuleChange: (moduleId: string) => void
+  onSettingsChange: (settings: PanelLayoutSettings) => void
+  onClear: () => void
+}
+
+type NumericSetting = 'rowSpacing' | 'columnSpacing' | 'setback'
+
+const NUMERIC_FIELDS: { key: NumericSetting; label: string }[] = [
+  { key: 'rowSpacing', label: 'Row spacing' },
+  { key: 'columnSpacing', label: 'Column spacing' },
+  { key: 'setback', label: 'Edge setback' },
+]
+
+export function PanelLayoutPanel({
+  show,
+  modules,
+  selectedModule,
+  settings,
+  panelCount,
+  totalPower,
+  onModuleChange,
+  onSettingsChange,
+  onClear,
+}: PanelLayoutPanelProps) {
+  if (!show) return null
+
+  return (
+    <div className="canvas3d-calibration-panel">
+      <div className="canvas3d-calibration-row">
+        <label className="canvas3d-calibration-label">Module</label>
+        <select
+          className="canvas3d-calibration-input canvas3d-panel-layout-select"
+          value={selectedModule?.id ?? ''}
+          onChange={(e) => onModuleChange(e.target.value)}
+          disabled={modules.length === 0}
+        >
+          {modules.map((module) => (
+            <option key={module.id} value={module.id}>
+              {module.name} ({module.height.toFixed(2)} × {module.width.toFixed(2)} m)
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="canvas3d-calibration-row">
+        <label className="canvas3d-calibration-label">Orientation</label>
+        <select
+          className="canvas3d-calibration-input canvas3d-panel-layout-select"
+          value={settings.orientation}
+          onChange={(e) => onSettingsChange({ ...settings, orientation: e.target.value as PanelOrientation })}
+        >
+          <option value="portrait">Portrait</option>
+          <option value="landscape">Landscape</option>
+        </select>
+      </div>
+      {NUMERIC_FIELDS.map(({ key, label }) => (
+        <div key={key} className="canvas3d-calibration-row">
+          <label className="canvas3d-calibration-label">{label}</label>
+          <div className="canvas3d-calibration-input-group">
+            <input
+              type="number"
+              className="canvas3d-calibration-input"
+              min="0"
+              step="0.01"
+              value={settings[key]}
+              onChange={(e) => onSettingsChange({ ...settings, [key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+            />
+            <span className="canvas3d-calibration-unit">m</span>
+          </div>
+        </div>
+      ))}
+      <div className="canvas3d-calibration-row">
+        <label className="canvas3d-calibration-label">Modules placed</label>
+        <span className="canvas3d-calibration-label">
+          {panelCount} ({(totalPower / 1000).toFixed(2)} kWp)
+        </span>
+      </div>
+      <div className="canvas3d-calibration-actions">
+        <button
+          className="canvas3d-action-btn"
+          onClick={onClear}
+          disabled={panelCount === 0}
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  )
+}
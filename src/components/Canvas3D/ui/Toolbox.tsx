@@ -1,19 +1,34 @@
 import type { ToolName } from '../types'
 import type { HistoryContextValue } from '../../../hooks/useHistory'
-import { IconCursor, IconPolygon, IconLine, IconBuilding, IconCalibration, IconMeasurement, IconPerpendicular, IconUndo, IconRedo } from './Icons'
+import { IconCursor, IconPolygon, IconRectangle, IconObstruction, IconLine, IconSplit, IconBuilding, IconCalibration, IconMeasurement, IconPerpendicular, IconPanels, IconSnap, IconExport, IconUndo, IconRedo } from './Icons'
 
 export interface ToolboxProps {
   activeTool: ToolName
   onSelectTool: (tool: ToolName) => void
   polygonsCount: number
+  /** Number of polygons that outline roofs (not obstructions) */
+  roofPolygonsCount: number
   historyContext?: HistoryContextValue
+  /** Whether snapping is on */
+  snapEnabled?: boolean
+  /** Shows the snapping toggle when given */
+  onToggleSnap?: () => void
+  /** Shows the 3D model export button when given */
+  onExport?: () => void
+  /** Whether an export is being written */
+  isExporting?: boolean
 }
 
 export function Toolbox({
   activeTool,
   onSelectTool,
   polygonsCount,
+  roofPolygonsCount,
   historyContext,
+  snapEnabled = false,
+  onToggleSnap,
+  onExport,
+  isExporting = false,
 }: ToolboxProps) {
   return (
     <div className="canvas3d-toolbox">
@@ -34,6 +49,23 @@ export function Toolbox({
         <IconPolygon />
         <span className="canvas3d-tool-tooltip">Add Polygon (P)</span>
       </button>
+      <button
+        className={`canvas3d-tool ${activeTool === 'rectangle' ? 'canvas3d-tool--active' : ''}`}
+        onClick={() => onSelectTool('rectangle')}
+        title="Add Rectangle"
+      >
+        <IconRectangle />
+        <span className="canvas3d-tool-tooltip">Add Rectangle</span>
+      </button>
+      <button
+        className={`canvas3d-tool ${activeTool === 'obstruction' ? 'canvas3d-tool--active' : ''}`}
+        onClick={() => onSelectTool('obstruction')}
+        disabled={roofPolygonsCount === 0}
+        title="Add Obstruction"
+      >
+        <IconObstruction />
+        <span className="canvas3d-tool-tooltip">Add Obstruction</span>
+      </button>
       <button
         className={`canvas3d-tool ${activeTool === 'line' ? 'canvas3d-tool--active' : ''}`}
         onClick={() => onSelectTool('line')}
@@ -43,6 +75,15 @@ export function Toolbox({
         <IconLine />
         <span className="canvas3d-tool-tooltip">Add Line (L)</span>
       </button>
+      <button
+        className={`canvas3d-tool ${activeTool === 'split' ? 'canvas3d-tool--active' : ''}`}
+        onClick={() => onSelectTool('split')}
+        disabled={polygonsCount === 0}
+        title="Split Polygons"
+      >
+        <IconSplit />
+        <span className="canvas3d-tool-tooltip">Split Polygons</span>
+      </button>
       <button
         className={`canvas3d-tool ${activeTool === 'perpendicular' ? 'canvas3d-tool--active' : ''}`}
         onClick={() => onSelectTool('perpendicular')}
@@ -55,12 +96,21 @@ export function Toolbox({
       <button
         className={`canvas3d-tool ${activeTool === 'building' ? 'canvas3d-tool--active' : ''}`}
         onClick={() => onSelectTool('building')}
-        disabled={polygonsCount === 0}
+        disabled={roofPolygonsCount === 0}
         title="Add Building"
       >
         <IconBuilding />
         <span className="canvas3d-tool-tooltip">Add Building (B)</span>
       </button>
+      <button
+        className={`canvas3d-tool ${activeTool === 'panels' ? 'canvas3d-tool--active' : ''}`}
+        onClick={() => onSelectTool('panels')}
+        disabled={roofPolygonsCount === 0}
+        title="Place PV Modules"
+      >
+        <IconPanels />
+        <span className="canvas3d-tool-tooltip">Place Modules</span>
+      </button>
       <div className="canvas3d-toolbox-divider" />
       <button
         className={`canvas3d-tool ${activeTool === 'calibration' ? 'canvas3d-tool--active' : ''}`}
@@ -79,6 +129,35 @@ export function Toolbox({
         <span className="canvas3d-tool-tooltip">Measure (M)</span>
       </button>
 
+      {onToggleSnap && (
+        <>
+          <div className="canvas3d-toolbox-divider" />
+          <button
+            className={`canvas3d-tool ${snapEnabled ? 'canvas3d-tool--active' : ''}`}
+            onClick={onToggleSnap}
+            title="Snapping"
+          >
+            <IconSnap />
+            <span className="canvas3d-tool-tooltip">Snapping {snapEnabled ? 'on' : 'off'}</span>
+          </button>
+        </>
+      )}
+
+      {onExport && (
+        <>
+          <div className="canvas3d-toolbox-divider" />
+          <button
+            className="canvas3d-tool"
+            onClick={onExport}
+            disabled={isExporting}
+            title="Export 3D model (GLB)"
+          >
+            <IconExport />
+            <span className="canvas3d-tool-tooltip">Export GLB</span>
+          </button>
+        </>
+      )}
+
       {historyContext && (
         <>
           <div className="canvas3d-toolbox-divider" />
@@ -0,0 +1,56 @@
+import type { TransformMode } from '../types'
+
+export interface TransformPanelProps {
+  mode: TransformMode
+  onModeChange: (mode: TransformMode) => void
+  onClear: () => void
+  /** Whether the selection holds whole polygons or buildings that can be copied */
+  canCopy: boolean
+  canPaste: boolean
+  onCopy: () => void
+  onPaste: () => void
+  onDuplicate: () => void
+}
+
+const MODES: { mode: TransformMode; label: string }[] = [
+  { mode: 'translate', label: 'Move' },
+  { mode: 'rotate', label: 'Rotate' },
+  { mode: 'scale', label: 'Scale' },
+]
+
+export function TransformPanel({
+  mode,
+  onModeChange,
+  onClear,
+  canCopy,
+  canPaste,
+  onCopy,
+  onPaste,
+  onDuplicate,
+}: TransformPanelProps) {
+  return (
+    <div className="canvas3d-actions">
+      {MODES.map((item) => (
+        <button
+          key={item.mode}
+          className={`canvas3d-action-btn ${mode === item.mode ? 'canvas3d-action-btn--primary' : ''}`}
+          onClick={() => onModeChange(item.mode)}
+        >
+          {item.label}
+        </button>
+      ))}
+      <button className="canvas3d-action-btn" onClick={onCopy} disabled={!canCopy}>
+        Copy
+      </button>
+      <button className="canvas3d-action-btn" onClick={onPaste} disabled={!canPaste}>
+        Paste
+      </button>
+      <button className="canvas3d-action-btn" onClick={onDuplicate} disabled={!canCopy}>
+        Duplicate
+      </button>
+      <button className="canvas3d-action-btn" onClick={onClear}>
+        Clear selection
+      </button>
+    </div>
+  )
+}
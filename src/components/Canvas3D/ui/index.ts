@@ -7,15 +7,24 @@ export type { StatusBarProps } from './StatusBar'
 export { PolygonActions } from './PolygonActions'
 export type { PolygonActionsProps } from './PolygonActions'
 
+export { TransformPanel } from './TransformPanel'
+export type { TransformPanelProps } from './TransformPanel'
+
 export { CalibrationPanel } from './CalibrationPanel'
 export type { CalibrationPanelProps } from './CalibrationPanel'
 
 export { MeasurementPanel } from './MeasurementPanel'
 export type { MeasurementPanelProps } from './MeasurementPanel'
 
+export { PanelLayoutPanel } from './PanelLayoutPanel'
+export type { PanelLayoutPanelProps } from './PanelLayoutPanel'
+
 export { TimeControl } from './TimeControl'
 export type { TimeControlProps } from './TimeControl'
 
+export { HeatmapLegend } from './HeatmapLegend'
+export type { HeatmapLegendProps } from './HeatmapLegend'
+
 export { CompassDisplay } from './CompassDisplay'
 export type { CompassDisplayProps } from './CompassDisplay'
 
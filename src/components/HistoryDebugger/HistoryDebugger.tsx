@@ -22,6 +22,7 @@ function StatePreview({ state, label, isCurrent, onClick }: StatePreviewProps) {
   const polygonCount = state.polygons.length
   const buildingCount = state.buildings.length
   const pointCount = state.polygons.reduce((sum, p) => sum + p.points.length, 0)
+  const panelCount = state.panelArrays.reduce((sum, a) => sum + a.panels.length, 0)
 
   return (
     <div
@@ -30,7 +31,7 @@ function StatePreview({ state, label, isCurrent, onClick }: StatePreviewProps) {
     >
       <span className="history-debugger-item-label">{label}</span>
       <span className="history-debugger-item-stats">
-        {polygonCount} poly, {buildingCount} building, {pointCount} pts
+        {polygonCount} poly, {buildingCount} building, {pointCount} pts, {panelCount} panels
       </span>
     </div>
   )
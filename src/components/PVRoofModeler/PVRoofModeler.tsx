@@ -1,9 +1,20 @@
-import { useState, useCallback, useEffect, useRef } from 'react'
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
+import * as THREE from 'three'
 import { Canvas3D } from '../Canvas3D'
-import type { Canvas3DProps, Polygon, Building } from '../Canvas3D'
+import type { Canvas3DProps, Polygon, Building, RoofType, PanelArray, PVModule, HeatmapMode, Selection } from '../Canvas3D'
 import { PolygonList } from '../PolygonList'
 import { HistoryProvider, useHistoryOptional } from '../../hooks/useHistory'
 import type { HistoryContextValue } from '../../hooks/useHistory'
+import { useShadingAnalysis } from '../../hooks/useShadingAnalysis'
+import type { ShadingAnalysis } from '../../utils/shading'
+import { estimatePanelArrayYields } from '../../utils/yield'
+import type { WeatherData } from '../../utils/tmy'
+import type { SnapSettings } from '../../utils/snapping'
+import { orthogonalizePolygons } from '../../utils/orthogonalize'
+import { findLinkedVertices, moveVertices } from '../../utils/topology'
+import { EMPTY_SELECTION, updateSelection } from '../../utils/selection'
+import { unionPolygons, subtractPolygon, copyBuildingsToPieces } from '../../utils/boolean'
+import { cleanupPolygons } from '../../utils/cleanup'
 import './PVRoofModeler.css'
 
 export interface PVRoofModelerProps {
@@ -29,8 +40,26 @@ export interface PVRoofModelerProps {
   longitude?: number
   /** Date for sun position calculation (default: current date) */
   date?: Date
+  /** Insolation heatmap shown on roof faces and panels (default: 'off'); requires latitude and longitude */
+  heatmap?: HeatmapMode
+  /** Show the heatmap selector and legend when latitude and longitude are set (default: true) */
+  showHeatmapControl?: boolean
+  /** Typical-year irradiance and temperature (see parseTmyCsv / loadTmyFile), used instead of the clear-sky model */
+  weather?: WeatherData
   /** Pixels per meter ratio for scaling calculations */
   pixelsPerMeter?: number
+  /** Image to show instead of an uploaded one, as a URL or data URL (e.g. from a saved project) */
+  imageUrl?: string
+  /** Move corners at the same position in adjacent polygons together when dragging (default: true) */
+  shareVertices?: boolean
+  /** Merge neighbouring corners closer than this (in Three.js units) when a polygon is drawn or a corner dragged (default: DEFAULT_VALIDATION_TOLERANCE) */
+  vertexMergeTolerance?: number
+  /** Controlled snapping settings for drawing and dragging points (default: DEFAULT_SNAP_SETTINGS) */
+  snapping?: SnapSettings
+  /** Show a toolbar button that toggles snapping (default: true) */
+  showSnapControl?: boolean
+  /** Show a toolbar button that downloads the buildings and panels as a GLB file (default: false) */
+  showExportButton?: boolean
   /** Width of the polygon list sidebar (default: 280) */
   sidebarWidth?: number | string
   /** Position of the sidebar (default: 'right') */
@@ -41,26 +70,51 @@ export interface PVRoofModelerProps {
   polygons?: Polygon[]
   /** Controlled buildings array */
   buildings?: Building[]
+  /** Controlled PV panel arrays */
+  panelArrays?: PanelArray[]
+  /** PV module catalog offered by the module layout tool (default: generic 400 and 450 Wp modules) */
+  modules?: PVModule[]
+  /** Controlled selection of polygons, corners and buildings */
+  selection?: Selection
   /** External history context (for controlled mode with external history management) */
   historyContext?: HistoryContextValue
   /** Callback when polygons change */
   onPolygonsChange?: (polygons: Polygon[]) => void
   /** Callback when buildings change */
   onBuildingsChange?: (buildings: Building[]) => void
+  /** Callback when PV panel arrays change */
+  onPanelArraysChange?: (panelArrays: PanelArray[]) => void
   /** Callback when an image is loaded */
   onImageLoad?: (file: File) => void
-  /** Callback when selection changes */
+  /** Callback when the first selected polygon changes */
   onSelectionChange?: (polygonId: string | null) => void
+  /** Callback when the selected polygons, corners or buildings change */
+  onSelectedItemsChange?: (selection: Selection) => void
   /** Callback when time of day changes */
   onTimeOfDayChange?: (time: number) => void
   /** Callback when pixels per meter is calculated via measurement tool */
   onPixelsPerMeterChange?: (pixelsPerMeter: number) => void
+  onSnappingChange?: (snapping: SnapSettings) => void
+  /** Callback when the heatmap mode changes */
+  onHeatmapChange?: (heatmap: HeatmapMode) => void
+  /** Callback when downloading the GLB file fails; the status bar shows the error either way */
+  onExportError?: (error: unknown) => void
+  /** Callback when the annual shading analysis is updated (requires latitude and longitude) */
+  onShadingChange?: (shading: ShadingAnalysis) => void
+  /** Callback when the annual shading analysis fails; the previous analysis is kept */
+  onShadingError?: (error: unknown) => void
 }
 
 interface PVRoofModelerInnerProps extends PVRoofModelerProps {
   internalHistory: HistoryContextValue | null
 }
 
+// Drop selected corners of polygons whose points were renumbered by the cleanup
+function withoutRenumberedVertices(selection: Selection, before: Polygon[], after: Polygon[]): Selection {
+  const renumbered = new Set(after.filter((p, i) => p !== before[i]).map((p) => p.id))
+  return { ...selection, vertices: selection.vertices.filter((v) => !renumbered.has(v.polygonId)) }
+}
+
 function PVRoofModelerInner({
   width = '100%',
   height = 500,
@@ -73,23 +127,42 @@ function PVRoofModelerInner({
   latitude,
   longitude,
   date,
+  heatmap,
+  showHeatmapControl = true,
+  weather,
   pixelsPerMeter,
+  imageUrl,
+  shareVertices,
+  vertexMergeTolerance,
+  snapping,
+  showSnapControl,
+  onSnappingChange,
+  showExportButton,
   sidebarWidth = 280,
   sidebarPosition = 'right',
   hideSidebar = false,
   polygons: controlledPolygons,
   buildings: controlledBuildings,
+  panelArrays: controlledPanelArrays,
+  modules,
+  selection: controlledSelection,
   historyContext: externalHistory,
   onPolygonsChange,
   onBuildingsChange,
+  onPanelArraysChange,
   onImageLoad,
   onSelectionChange,
+  onSelectedItemsChange,
   onTimeOfDayChange,
   onPixelsPerMeterChange,
+  onHeatmapChange,
+  onExportError,
+  onShadingChange,
+  onShadingError,
   internalHistory,
 }: PVRoofModelerInnerProps) {
   const containerRef = useRef<HTMLDivElement>(null)
-  const [selectedPolygonId, setSelectedPolygonId] = useState<string | null>(null)
+  const [internalSelection, setInternalSelection] = useState<Selection>(EMPTY_SELECTION)
   const [imageWidth, setImageWidth] = useState<number | null>(null)
 
   // Use external history if provided, otherwise use internal
@@ -99,10 +172,12 @@ function PVRoofModelerInner({
   // For controlled mode, use controlled props
   const isPolygonsControlled = controlledPolygons !== undefined
   const isBuildingsControlled = controlledBuildings !== undefined
+  const isPanelArraysControlled = controlledPanelArrays !== undefined
 
   // Internal state for uncontrolled mode without history
   const [internalPolygons, setInternalPolygons] = useState<Polygon[]>([])
   const [internalBuildings, setInternalBuildings] = useState<Building[]>([])
+  const [internalPanelArrays, setInternalPanelArrays] = useState<PanelArray[]>([])
 
   // Track if we're currently dragging sliders for batch operations
   const isDraggingHeightRef = useRef(false)
@@ -120,6 +195,55 @@ function PVRoofModelerInner({
       ? history.state.buildings
       : internalBuildings
 
+  const panelArrays = isPanelArraysControlled
+    ? controlledPanelArrays
+    : history
+      ? history.state.panelArrays
+      : internalPanelArrays
+
+  // Selection can be controlled or uncontrolled; the sidebar and the canvas share it
+  const selection = controlledSelection !== undefined ? controlledSelection : internalSelection
+
+  const handleSelectionChange = useCallback(
+    (newSelection: Selection) => {
+      if (controlledSelection === undefined) {
+        setInternalSelection(newSelection)
+      }
+      onSelectedItemsChange?.(newSelection)
+      const polygonId = newSelection.polygonIds[0] ?? null
+      if (polygonId !== (selection.polygonIds[0] ?? null)) {
+        onSelectionChange?.(polygonId)
+      }
+    },
+    [controlledSelection, selection, onSelectedItemsChange, onSelectionChange]
+  )
+
+  // Annual shading of roof faces and arrays, only available with a location
+  const { analysis: shading, error: shadingError } = useShadingAnalysis({
+    polygons,
+    buildings,
+    panelArrays,
+    latitude,
+    longitude,
+    date,
+    weather,
+  })
+
+  useEffect(() => {
+    if (shading) onShadingChange?.(shading)
+  }, [shading, onShadingChange])
+
+  useEffect(() => {
+    if (shadingError) onShadingError?.(shadingError)
+  }, [shadingError, onShadingError])
+
+  // Yield estimate per array, shaded once the analysis is available; only the year of the date is simulated
+  const year = date?.getFullYear()
+  const yields = useMemo(() => {
+    if (latitude === undefined || longitude === undefined) return null
+    return estimatePanelArrayYields(panelArrays, { latitude, longitude, year, weather }, shading)
+  }, [panelArrays, latitude, longitude, year, weather, shading])
+
   // Keyboard shortcuts for undo/redo
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -167,6 +291,7 @@ function PVRoofModelerInner({
 
       const newPolygons = polygons.filter((p) => p.id !== polygonId)
       const newBuildings = buildings.filter((b) => b.polygonId !== polygonId)
+      const newPanelArrays = panelArrays.filter((a) => a.polygonId !== polygonId)
 
       if (history && !isPolygonsControlled) {
         history.setPolygons(newPolygons)
@@ -182,12 +307,30 @@ function PVRoofModelerInner({
       }
       onBuildingsChange?.(newBuildings)
 
-      if (selectedPolygonId === polygonId) {
-        setSelectedPolygonId(null)
-        onSelectionChange?.(null)
+      if (newPanelArrays.length !== panelArrays.length) {
+        if (history && !isPanelArraysControlled) {
+          history.setPanelArrays(newPanelArrays)
+        } else if (!isPanelArraysControlled) {
+          setInternalPanelArrays(newPanelArrays)
+        }
+        onPanelArraysChange?.(newPanelArrays)
+      }
+
+      // Deselect the polygon, its corners and its buildings
+      const deletedBuildingIds = buildings.filter((b) => b.polygonId === polygonId).map((b) => b.id)
+      if (
+        selection.polygonIds.includes(polygonId) ||
+        selection.vertices.some((v) => v.polygonId === polygonId) ||
+        selection.buildingIds.some((id) => deletedBuildingIds.includes(id))
+      ) {
+        handleSelectionChange({
+          polygonIds: selection.polygonIds.filter((id) => id !== polygonId),
+          vertices: selection.vertices.filter((v) => v.polygonId !== polygonId),
+          buildingIds: selection.buildingIds.filter((id) => !deletedBuildingIds.includes(id)),
+        })
       }
     },
-    [polygons, buildings, history, isPolygonsControlled, isBuildingsControlled, selectedPolygonId, onPolygonsChange, onBuildingsChange, onSelectionChange]
+    [polygons, buildings, panelArrays, history, isPolygonsControlled, isBuildingsControlled, isPanelArraysControlled, selection, onPolygonsChange, onBuildingsChange, onPanelArraysChange, handleSelectionChange]
   )
 
   const handlePolygonColorChange = useCallback(
@@ -208,6 +351,227 @@ function PVRoofModelerInner({
     [polygons, history, isPolygonsControlled, onPolygonsChange]
   )
 
+  const handleObstructionHeightChange = useCallback(
+    (polygonId: string, obstructionHeight: number) => {
+      history?.takeSnapshot()
+
+      const newPolygons = polygons.map((p) =>
+        p.id === polygonId ? { ...p, obstructionHeight } : p
+      )
+
+      if (history && !isPolygonsControlled) {
+        history.setPolygons(newPolygons)
+      } else if (!isPolygonsControlled) {
+        setInternalPolygons(newPolygons)
+      }
+      onPolygonsChange?.(newPolygons)
+    },
+    [polygons, history, isPolygonsControlled, onPolygonsChange]
+  )
+
+  const handleObstructionSetbackChange = useCallback(
+    (polygonId: string, obstructionSetback: number) => {
+      history?.takeSnapshot()
+
+      const newPolygons = polygons.map((p) =>
+        p.id === polygonId ? { ...p, obstructionSetback } : p
+      )
+
+      if (history && !isPolygonsControlled) {
+        history.setPolygons(newPolygons)
+      } else if (!isPolygonsControlled) {
+        setInternalPolygons(newPolygons)
+      }
+      onPolygonsChange?.(newPolygons)
+    },
+    [polygons, history, isPolygonsControlled, onPolygonsChange]
+  )
+
+  // Square the corners of traced outlines in one step
+  const handleOrthogonalize = useCallback(
+    (polygonIds: string[]) => {
+      history?.takeSnapshot()
+
+      const squared = orthogonalizePolygons(polygons, polygonIds, { shareVertices: shareVertices !== false })
+      // Only the winding is normalized: no corner merged or dropped
+      const newPolygons = cleanupPolygons(squared, polygonIds, { shareVertices: shareVertices !== false, vertices: [] })
+
+      if (history && !isPolygonsControlled) {
+        history.setPolygons(newPolygons)
+      } else if (!isPolygonsControlled) {
+        setInternalPolygons(newPolygons)
+      }
+      onPolygonsChange?.(newPolygons)
+
+      if (newPolygons !== squared && selection.vertices.length > 0) {
+        handleSelectionChange(withoutRenumberedVertices(selection, squared, newPolygons))
+      }
+    },
+    [polygons, shareVertices, selection, history, isPolygonsControlled, onPolygonsChange, handleSelectionChange]
+  )
+
+  // Merge the other polygons into the first; buildings on the merged-away polygons are removed, and module
+  // arrays on all of them, since they were laid out for the old outlines
+  const handleMergePolygons = useCallback(
+    (polygonIds: string[]) => {
+      const [firstId, ...otherIds] = polygonIds
+      const first = polygons.find((p) => p.id === firstId)
+      if (!first) return
+
+      // Merging one polygon can connect the result to another, so repeat until nothing more joins
+      let merged = first
+      let remaining = polygons.filter((p) => otherIds.includes(p.id))
+      const mergedIds: string[] = []
+      let hasMerged = true
+      while (hasMerged) {
+        hasMerged = false
+        for (const other of remaining) {
+          const result = unionPolygons(merged, other)
+          if (!result) continue
+          merged = result
+          mergedIds.push(other.id)
+          hasMerged = true
+        }
+        remaining = remaining.filter((p) => !mergedIds.includes(p.id))
+      }
+      if (mergedIds.length === 0) return
+
+      history?.takeSnapshot()
+
+      const result = merged
+      const newPolygons = cleanupPolygons(
+        polygons.filter((p) => !mergedIds.includes(p.id)).map((p) => (p.id === firstId ? result : p)),
+        [firstId],
+        { tolerance: vertexMergeTolerance, shareVertices: shareVertices !== false }
+      )
+      const newBuildings = buildings.filter((b) => !mergedIds.includes(b.polygonId))
+      const newPanelArrays = panelArrays.filter((a) => a.polygonId !== firstId && !mergedIds.includes(a.polygonId))
+
+      if (history && !isPolygonsControlled) {
+        history.setPolygons(newPolygons)
+      } else if (!isPolygonsControlled) {
+        setInternalPolygons(newPolygons)
+      }
+      onPolygonsChange?.(newPolygons)
+
+      if (newBuildings.length !== buildings.length) {
+        if (history && !isBuildingsControlled) {
+          history.setBuildings(newBuildings)
+        } else if (!isBuildingsControlled) {
+          setInternalBuildings(newBuildings)
+        }
+        onBuildingsChange?.(newBuildings)
+      }
+
+      if (newPanelArrays.length !== panelArrays.length) {
+        if (history && !isPanelArraysControlled) {
+          history.setPanelArrays(newPanelArrays)
+        } else if (!isPanelArraysControlled) {
+          setInternalPanelArrays(newPanelArrays)
+        }
+        onPanelArraysChange?.(newPanelArrays)
+      }
+
+      handleSelectionChange({ ...EMPTY_SELECTION, polygonIds: [firstId] })
+    },
+    [polygons, buildings, panelArrays, shareVertices, vertexMergeTolerance, history, isPolygonsControlled, isBuildingsControlled, isPanelArraysControlled, onPolygonsChange, onBuildingsChange, onPanelArraysChange, handleSelectionChange]
+  )
+
+  // Cut the other polygons out of the first; the cutters stay, pieces the first falls apart into get copies
+  // of its buildings, and its module arrays are removed since they may now cover the cut-out area
+  const handleSubtractPolygons = useCallback(
+    (polygonIds: string[]) => {
+      const [subjectId, ...cutterIds] = polygonIds
+      const subject = polygons.find((p) => p.id === subjectId)
+      if (!subject) return
+
+      let pieces = [subject]
+      for (const cutter of polygons.filter((p) => cutterIds.includes(p.id))) {
+        pieces = pieces.flatMap((piece) => subtractPolygon(piece, cutter) ?? [piece])
+      }
+      if (pieces.length === 1 && pieces[0] === subject) return
+      // A later cutter may remove the piece that kept the id
+      if (pieces.length > 0 && pieces[0].id !== subjectId) {
+        pieces = [{ ...pieces[0], id: subjectId }, ...pieces.slice(1)]
+      }
+
+      history?.takeSnapshot()
+
+      const newPolygons = cleanupPolygons(
+        polygons.flatMap((p) => (p.id === subjectId ? pieces : [p])),
+        pieces.map((p) => p.id),
+        { tolerance: vertexMergeTolerance, shareVertices: shareVertices !== false }
+      )
+      const newBuildings = pieces.length === 0
+        ? buildings.filter((b) => b.polygonId !== subjectId)
+        : [...buildings, ...copyBuildingsToPieces(buildings, subjectId, pieces)]
+      const newPanelArrays = panelArrays.filter((a) => a.polygonId !== subjectId)
+
+      if (history && !isPolygonsControlled) {
+        history.setPolygons(newPolygons)
+      } else if (!isPolygonsControlled) {
+        setInternalPolygons(newPolygons)
+      }
+      onPolygonsChange?.(newPolygons)
+
+      if (newBuildings.length !== buildings.length) {
+        if (history && !isBuildingsControlled) {
+          history.setBuildings(newBuildings)
+        } else if (!isBuildingsControlled) {
+          setInternalBuildings(newBuildings)
+        }
+        onBuildingsChange?.(newBuildings)
+      }
+
+      if (newPanelArrays.length !== panelArrays.length) {
+        if (history && !isPanelArraysControlled) {
+          history.setPanelArrays(newPanelArrays)
+        } else if (!isPanelArraysControlled) {
+          setInternalPanelArrays(newPanelArrays)
+        }
+        onPanelArraysChange?.(newPanelArrays)
+      }
+
+      handleSelectionChange({ ...EMPTY_SELECTION, polygonIds: pieces.map((p) => p.id) })
+    },
+    [polygons, buildings, panelArrays, shareVertices, vertexMergeTolerance, history, isPolygonsControlled, isBuildingsControlled, isPanelArraysControlled, onPolygonsChange, onBuildingsChange, onPanelArraysChange, handleSelectionChange]
+  )
+
+  // Numeric vertex and edge edits from the polygon editor
+  const handlePolygonPointsChange = useCallback(
+    (polygonId: string, points: THREE.Vector3[]) => {
+      const polygon = polygons.find((p) => p.id === polygonId)
+      if (!polygon) return
+
+      history?.takeSnapshot()
+
+      let newPolygons = polygons.map((p) => (p.id === polygonId ? { ...p, points } : p))
+      // Moved corners take the adjacent polygons sharing them along
+      if (shareVertices !== false) {
+        polygon.points.forEach((point, pointIndex) => {
+          if (point.equals(points[pointIndex])) return
+          const linked = findLinkedVertices(polygons, { polygonId, pointIndex }).filter((v) => v.polygonId !== polygonId)
+          newPolygons = moveVertices(newPolygons, linked, points[pointIndex])
+        })
+      }
+      // Only the winding is normalized: the corners stay where they were typed in
+      const moved = newPolygons
+      newPolygons = cleanupPolygons(moved, [polygonId], { shareVertices: shareVertices !== false, vertices: [] })
+
+      if (history && !isPolygonsControlled) {
+        history.setPolygons(newPolygons)
+      } else if (!isPolygonsControlled) {
+        setInternalPolygons(newPolygons)
+      }
+      onPolygonsChange?.(newPolygons)
+
+      if (newPolygons !== moved && selection.vertices.length > 0) {
+        handleSelectionChange(withoutRenumberedVertices(selection, moved, newPolygons))
+      }
+    },
+    [polygons, shareVertices, selection, history, isPolygonsControlled, onPolygonsChange, handleSelectionChange]
+  )
+
   // Building handlers
   const handleBuildingsChange = useCallback(
     (newBuildings: Building[]) => {
@@ -226,6 +590,7 @@ function PVRoofModelerInner({
       history?.takeSnapshot()
 
       const newBuildings = buildings.filter((b) => b.id !== buildingId)
+      const newPanelArrays = panelArrays.filter((a) => a.buildingId !== buildingId)
 
       if (history && !isBuildingsControlled) {
         history.setBuildings(newBuildings)
@@ -233,8 +598,17 @@ function PVRoofModelerInner({
         setInternalBuildings(newBuildings)
       }
       onBuildingsChange?.(newBuildings)
+
+      if (newPanelArrays.length !== panelArrays.length) {
+        if (history && !isPanelArraysControlled) {
+          history.setPanelArrays(newPanelArrays)
+        } else if (!isPanelArraysControlled) {
+          setInternalPanelArrays(newPanelArrays)
+        }
+        onPanelArraysChange?.(newPanelArrays)
+      }
     },
-    [buildings, history, isBuildingsControlled, onBuildingsChange]
+    [buildings, panelArrays, history, isBuildingsControlled, isPanelArraysControlled, onBuildingsChange, onPanelArraysChange]
   )
 
   const handleBuildingColorChange = useCallback(
@@ -277,6 +651,71 @@ function PVRoofModelerInner({
     [buildings, history, isBuildingsControlled, onBuildingsChange]
   )
 
+  const handleBuildingRoofTypeChange = useCallback(
+    (buildingId: string, roofType: RoofType) => {
+      history?.takeSnapshot()
+
+      const newBuildings = buildings.map((b) =>
+        b.id === buildingId ? { ...b, roofType } : b
+      )
+
+      if (history && !isBuildingsControlled) {
+        history.setBuildings(newBuildings)
+      } else if (!isBuildingsControlled) {
+        setInternalBuildings(newBuildings)
+      }
+      onBuildingsChange?.(newBuildings)
+    },
+    [buildings, history, isBuildingsControlled, onBuildingsChange]
+  )
+
+  const handleBuildingRoofPitchChange = useCallback(
+    (buildingId: string, roofPitch: number) => {
+      history?.takeSnapshot()
+
+      const newBuildings = buildings.map((b) =>
+        b.id === buildingId ? { ...b, roofPitch } : b
+      )
+
+      if (history && !isBuildingsControlled) {
+        history.setBuildings(newBuildings)
+      } else if (!isBuildingsControlled) {
+        setInternalBuildings(newBuildings)
+      }
+      onBuildingsChange?.(newBuildings)
+    },
+    [buildings, history, isBuildingsControlled, onBuildingsChange]
+  )
+
+  // Panel array handlers
+  const handlePanelArraysChange = useCallback(
+    (newPanelArrays: PanelArray[]) => {
+      if (history && !isPanelArraysControlled) {
+        history.setPanelArrays(newPanelArrays)
+      } else if (!isPanelArraysControlled) {
+        setInternalPanelArrays(newPanelArrays)
+      }
+      onPanelArraysChange?.(newPanelArrays)
+    },
+    [history, isPanelArraysControlled, onPanelArraysChange]
+  )
+
+  const handleDeletePanelArray = useCallback(
+    (panelArrayId: string) => {
+      history?.takeSnapshot()
+
+      const newPanelArrays = panelArrays.filter((a) => a.id !== panelArrayId)
+
+      if (history && !isPanelArraysControlled) {
+        history.setPanelArrays(newPanelArrays)
+      } else if (!isPanelArraysControlled) {
+        setInternalPanelArrays(newPanelArrays)
+      }
+      onPanelArraysChange?.(newPanelArrays)
+    },
+    [panelArrays, history, isPanelArraysControlled, onPanelArraysChange]
+  )
+
   // End batch when mouse is released anywhere
   useEffect(() => {
     const handleMouseUp = () => {
@@ -290,13 +729,16 @@ function PVRoofModelerInner({
     return () => window.removeEventListener('mouseup', handleMouseUp)
   }, [history])
 
-  // Selection handler
+  // Selection from the sidebar; shift-clicks add or remove a polygon
   const handleSelectPolygon = useCallback(
-    (polygonId: string | null) => {
-      setSelectedPolygonId(polygonId)
-      onSelectionChange?.(polygonId)
+    (polygonId: string | null, additive?: boolean) => {
+      handleSelectionChange(
+        polygonId === null
+          ? EMPTY_SELECTION
+          : updateSelection(selection, { polygonIds: [polygonId] }, additive ? 'toggle' : 'replace')
+      )
     },
-    [onSelectionChange]
+    [selection, handleSelectionChange]
   )
 
   // Image dimensions handler
@@ -348,7 +790,10 @@ function PVRoofModelerInner({
       <PolygonList
         polygons={polygons}
         buildings={buildings}
-        selectedPolygonId={selectedPolygonId}
+        panelArrays={panelArrays}
+        shading={shading}
+        yields={yields}
+        selectedPolygonIds={selection.polygonIds}
         pixelsPerMeter={pixelsPerMeter}
         imageWidth={imageWidth ?? undefined}
         onSelectPolygon={handleSelectPolygon}
@@ -359,6 +804,15 @@ function PVRoofModelerInner({
         onBuildingColorChange={handleBuildingColorChange}
         onBuildingHeightChange={handleBuildingHeightChange}
         onBuildingVisibilityChange={handleBuildingVisibilityChange}
+        onBuildingRoofTypeChange={handleBuildingRoofTypeChange}
+        onBuildingRoofPitchChange={handleBuildingRoofPitchChange}
+        onDeletePanelArray={handleDeletePanelArray}
+        onObstructionHeightChange={handleObstructionHeightChange}
+        onObstructionSetbackChange={handleObstructionSetbackChange}
+        onOrthogonalize={handleOrthogonalize}
+        onMergePolygons={handleMergePolygons}
+        onSubtractPolygons={handleSubtractPolygons}
+        onPolygonPointsChange={handlePolygonPointsChange}
       />
     </div>
   )
@@ -379,13 +833,31 @@ function PVRoofModelerInner({
           latitude={latitude}
           longitude={longitude}
           date={date}
+          heatmap={heatmap}
+          showHeatmapControl={showHeatmapControl}
+          shading={shading}
+          weather={weather}
           pixelsPerMeter={pixelsPerMeter}
+          imageUrl={imageUrl}
+          shareVertices={shareVertices}
+          vertexMergeTolerance={vertexMergeTolerance}
+          snapping={snapping}
+          showSnapControl={showSnapControl}
+          onSnappingChange={onSnappingChange}
+          showExportButton={showExportButton}
           historyContext={history || undefined}
           polygons={polygons}
           buildings={buildings}
+          panelArrays={panelArrays}
+          modules={modules}
+          selection={selection}
+          onSelectionChange={handleSelectionChange}
           onPolygonsChange={handlePolygonsChange}
           onTimeOfDayChange={onTimeOfDayChange}
+          onHeatmapChange={onHeatmapChange}
+          onExportError={onExportError}
           onBuildingsChange={handleBuildingsChange}
+          onPanelArraysChange={handlePanelArraysChange}
           onImageLoad={onImageLoad}
           onImageDimensionsChange={handleImageDimensionsChange}
           onPixelsPerMeterChange={onPixelsPerMeterChange}
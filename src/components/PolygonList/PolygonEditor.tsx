@@ -0,0 +1,152 @@
+import { useState } from 'react'
+import * as THREE from 'three'
+import type { Polygon } from '../Canvas3D/types'
+import { getBearing, setEdgeBearing, setEdgeLength } from '../../utils/geometry'
+
+export interface PolygonEditorProps {
+  polygon: Polygon
+  /** Three.js units per meter; values are shown in Three.js units while the scale is unknown */
+  unitsPerMeter: number | null
+  onPointsChange: (points: THREE.Vector3[]) => void
+}
+
+interface NumberFieldProps {
+  value: number
+  decimals: number
+  title: string
+  onCommit: (value: number) => void
+}
+
+// Number input that applies its value on Enter or blur, so typing "9.45" is a single edit
+function NumberField({ value, decimals, title, onCommit }: NumberFieldProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const commit = () => {
+    if (draft === null) return
+    const parsed = parseFloat(draft)
+    setDraft(null)
+    if (!isNaN(parsed) && parsed !== parseFloat(value.toFixed(decimals))) {
+      onCommit(parsed)
+    }
+  }
+
+  return (
+    <input
+      type="number"
+      className="polygon-editor-input"
+      step={Math.pow(10, -decimals)}
+      value={draft ?? value.toFixed(decimals)}
+      title={title}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit()
+        if (e.key === 'Escape') setDraft(null)
+      }}
+      onClick={(e) => e.stopPropagation()}
+    />
+  )
+}
+
+/**
+ * Vertex coordinates and edge lengths and bearings of a polygon, editable as numbers.
+ * Coordinates are measured from the image center, with X pointing east and Y pointing north.
+ */
+export function PolygonEditor({ polygon, unitsPerMeter, onPointsChange }: PolygonEditorProps) {
+  const scale = unitsPerMeter ?? 1
+  const unit = unitsPerMeter ? 'm' : 'u'
+  const decimals = unitsPerMeter ? 2 : 3
+  const { points } = polygon
+
+  const handleCoordinateChange = (pointIndex: number, axis: 'east' | 'north', value: number) => {
+    onPointsChange(
+      points.map((p, i) => {
+        if (i !== pointIndex) return p
+        return axis === 'east' ? new THREE.Vector3(value * scale, p.y, p.z) : new THREE.Vector3(p.x, p.y, -value * scale)
+      })
+    )
+  }
+
+  const handleLengthChange = (edgeIndex: number, length: number) => {
+    if (length <= 0) return
+    onPointsChange(setEdgeLength(points, edgeIndex, length * scale))
+  }
+
+  const handleBearingChange = (edgeIndex: number, bearing: number) => {
+    onPointsChange(setEdgeBearing(points, edgeIndex, ((bearing % 360) + 360) % 360))
+  }
+
+  return (
+    <div className="polygon-editor" onClick={(e) => e.stopPropagation()}>
+      <table className="polygon-editor-table">
+        <thead>
+          <tr>
+            <th>Vertex</th>
+            <th>East ({unit})</th>
+            <th>North ({unit})</th>
+          </tr>
+        </thead>
+        <tbody>
+          {points.map((point, i) => (
+            <tr key={`vertex-${i}`}>
+              <td>{i + 1}</td>
+              <td>
+                <NumberField
+                  value={point.x / scale}
+                  decimals={decimals}
+                  title="Distance east of the image center"
+                  onCommit={(value) => handleCoordinateChange(i, 'east', value)}
+                />
+              </td>
+              <td>
+                <NumberField
+                  value={-point.z / scale}
+                  decimals={decimals}
+                  title="Distance north of the image center"
+                  onCommit={(value) => handleCoordinateChange(i, 'north', value)}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <table className="polygon-editor-table">
+        <thead>
+          <tr>
+            <th>Edge</th>
+            <th>Length ({unit})</th>
+            <th>Bearing (°)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {points.map((start, i) => {
+            const end = points[(i + 1) % points.length]
+            return (
+              <tr key={`edge-${i}`}>
+                <td>
+                  {i + 1}–{((i + 1) % points.length) + 1}
+                </td>
+                <td>
+                  <NumberField
+                    value={start.distanceTo(end) / scale}
+                    decimals={decimals}
+                    title="Edge length; moves the end vertex along the edge"
+                    onCommit={(value) => handleLengthChange(i, value)}
+                  />
+                </td>
+                <td>
+                  <NumberField
+                    value={getBearing(start, end)}
+                    decimals={1}
+                    title="Direction clockwise from north; turns the edge around its start vertex"
+                    onCommit={(value) => handleBearingChange(i, value)}
+                  />
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -1,19 +1,37 @@
-import { useCallback, useState } from 'react'
+import { useCallback, useMemo, useState } from 'react'
+import * as THREE from 'three'
 import type { Polygon, Building } from '../Canvas3D/Canvas3D'
+import type { RoofType, PanelArray } from '../Canvas3D/types'
+import { DEFAULT_ROOF_PITCH } from '../Canvas3D/constants'
+import { getObstructedArea, isObstruction } from '../../utils/obstructions'
+import { getBuildingRoof } from '../../utils/roof'
+import type { ShadingAnalysis } from '../../utils/shading'
+import type { PanelArrayYield } from '../../utils/yield'
+import { getUnitsPerMeter } from '../../utils/geometry'
+import { formatShading, formatEnergy, formatAzimuth, MONTH_NAMES } from '../../utils/format'
+import { validatePolygons } from '../../utils/validation'
+import type { PolygonIssue } from '../../utils/validation'
+import { getPolygonStats, getProjectStats } from '../../utils/stats'
+import { PolygonEditor } from './PolygonEditor'
 import './PolygonList.css'
 
-// The image plane width in Three.js units (must match Canvas3D PLANE_WIDTH)
-const PLANE_WIDTH = 5
-
 export interface PolygonListProps {
   polygons: Polygon[]
   buildings?: Building[]
+  panelArrays?: PanelArray[]
+  /** Annual shading analysis, shown per roof face and array when provided */
+  shading?: ShadingAnalysis | null
+  /** Energy yield estimate per array, shown when provided */
+  yields?: PanelArrayYield[] | null
   selectedPolygonId?: string | null
+  /** Polygons selected together; takes precedence over selectedPolygonId */
+  selectedPolygonIds?: string[]
   /** Pixels per meter ratio for height conversion */
   pixelsPerMeter?: number
   /** Image width in pixels for height conversion */
   imageWidth?: number
-  onSelectPolygon?: (polygonId: string | null) => void
+  /** additive is set for shift-clicks, which add the polygon to the selection or remove it */
+  onSelectPolygon?: (polygonId: string | null, additive?: boolean) => void
   onDeletePolygon?: (polygonId: string) => void
   onPolygonColorChange?: (polygonId: string, color: string) => void
   onPolygonVisibilityChange?: (polygonId: string, visible: boolean) => void
@@ -21,6 +39,26 @@ export interface PolygonListProps {
   onBuildingColorChange?: (buildingId: string, color: string) => void
   onBuildingHeightChange?: (buildingId: string, height: number) => void
   onBuildingVisibilityChange?: (buildingId: string, visible: boolean) => void
+  onBuildingRoofTypeChange?: (buildingId: string, roofType: RoofType) => void
+  onBuildingRoofPitchChange?: (buildingId: string, roofPitch: number) => void
+  onDeletePanelArray?: (panelArrayId: string) => void
+  onObstructionHeightChange?: (polygonId: string, height: number) => void
+  onObstructionSetbackChange?: (polygonId: string, setback: number) => void
+  /** Square the corners of the given polygons */
+  onOrthogonalize?: (polygonIds: string[]) => void
+  /** Merge the given polygons into the first one */
+  onMergePolygons?: (polygonIds: string[]) => void
+  /** Cut the other given polygons out of the first one */
+  onSubtractPolygons?: (polygonIds: string[]) => void
+  /** Shows vertex and edge fields for the selected polygon when given and a single polygon is selected */
+  onPolygonPointsChange?: (polygonId: string, points: THREE.Vector3[]) => void
+}
+
+const ROOF_TYPE_LABELS: Record<RoofType, string> = {
+  flat: 'Flat',
+  gable: 'Gable',
+  hip: 'Hip',
+  shed: 'Shed',
 }
 
 const IconTrash = () => (
@@ -44,6 +82,58 @@ const IconBuilding = () => (
   </svg>
 )
 
+const IconPanels = () => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <path d="M5 4h14l3 12H2L5 4z" />
+    <path d="M3.5 10h17" />
+    <path d="M9.5 4l-1 12" />
+    <path d="M14.5 4l1 12" />
+    <path d="M12 16v4" />
+    <path d="M8 20h8" />
+  </svg>
+)
+
+const IconObstruction = () => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <rect x="4" y="4" width="16" height="16" strokeDasharray="3 2" />
+    <path d="M9 9l6 6" />
+    <path d="M15 9l-6 6" />
+  </svg>
+)
+
+const IconSquare = () => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <path d="M4 4v16h16" />
+    <path d="M4 14h6v6" />
+  </svg>
+)
+
+// Badge per severity, with the problems listed in its tooltip
+function IssueBadges({ issues }: { issues: PolygonIssue[] }) {
+  const errors = issues.filter((i) => i.severity === 'error')
+  const warnings = issues.filter((i) => i.severity === 'warning')
+  return (
+    <div className="polygon-list-item-badges">
+      {errors.length > 0 && (
+        <span
+          className="polygon-list-item-badge polygon-list-item-badge--error"
+          title={errors.map((i) => i.message).join('\n')}
+        >
+          {errors.length} {errors.length === 1 ? 'error' : 'errors'}
+        </span>
+      )}
+      {warnings.length > 0 && (
+        <span
+          className="polygon-list-item-badge polygon-list-item-badge--warning"
+          title={warnings.map((i) => i.message).join('\n')}
+        >
+          {warnings.length} {warnings.length === 1 ? 'warning' : 'warnings'}
+        </span>
+      )}
+    </div>
+  )
+}
+
 const IconChevron = ({ expanded }: { expanded: boolean }) => (
   <svg
     viewBox="0 0 24 24"
@@ -73,7 +163,11 @@ const IconEyeOff = () => (
 export function PolygonList({
   polygons,
   buildings = [],
+  panelArrays = [],
+  shading,
+  yields,
   selectedPolygonId,
+  selectedPolygonIds,
   pixelsPerMeter,
   imageWidth,
   onSelectPolygon,
@@ -84,15 +178,21 @@ export function PolygonList({
   onBuildingColorChange,
   onBuildingHeightChange,
   onBuildingVisibilityChange,
+  onBuildingRoofTypeChange,
+  onBuildingRoofPitchChange,
+  onDeletePanelArray,
+  onObstructionHeightChange,
+  onObstructionSetbackChange,
+  onOrthogonalize,
+  onMergePolygons,
+  onSubtractPolygons,
+  onPolygonPointsChange,
 }: PolygonListProps) {
   // Track collapsed items instead of expanded - this way items start expanded by default
   const [collapsedPolygons, setCollapsedPolygons] = useState<Set<string>>(new Set())
 
   // Calculate units per meter for height conversion
-  // unitsPerMeter = PLANE_WIDTH * pixelsPerMeter / imageWidth
-  const unitsPerMeter = pixelsPerMeter && imageWidth
-    ? (PLANE_WIDTH * pixelsPerMeter) / imageWidth
-    : null
+  const unitsPerMeter = getUnitsPerMeter(pixelsPerMeter, imageWidth)
 
   // Convert height from Three.js units to meters
   const unitsToMeters = useCallback(
@@ -112,6 +212,26 @@ export function PolygonList({
     [unitsPerMeter]
   )
 
+  // Convert area from Three.js units squared to square meters
+  const formatArea = useCallback(
+    (area: number): string => {
+      if (!unitsPerMeter) return `${area.toFixed(2)} u²`
+      return `${(area / (unitsPerMeter * unitsPerMeter)).toFixed(1)} m²`
+    },
+    [unitsPerMeter]
+  )
+
+  // Footprint, perimeter and roof statistics come in m² and m once the image scale is known
+  const formatMeasuredArea = useCallback(
+    (area: number): string => (unitsPerMeter ? `${area.toFixed(1)} m²` : `${area.toFixed(2)} u²`),
+    [unitsPerMeter]
+  )
+
+  const formatMeasuredLength = useCallback(
+    (length: number): string => (unitsPerMeter ? `${length.toFixed(1)} m` : `${length.toFixed(2)} u`),
+    [unitsPerMeter]
+  )
+
   const toggleExpanded = useCallback((polygonId: string) => {
     setCollapsedPolygons((prev) => {
       const next = new Set(prev)
@@ -124,15 +244,46 @@ export function PolygonList({
     })
   }, [])
 
+  // Outline problems that break extrusion or roof faces
+  const issuesById = useMemo(() => validatePolygons(polygons), [polygons])
+
+  const statsById = useMemo(
+    () => new Map(polygons.map((p) => [p.id, getPolygonStats(p, buildings, polygons, { pixelsPerMeter, imageWidth })])),
+    [polygons, buildings, pixelsPerMeter, imageWidth]
+  )
+  const projectStats = useMemo(
+    () => getProjectStats(polygons, buildings, { pixelsPerMeter, imageWidth }),
+    [polygons, buildings, pixelsPerMeter, imageWidth]
+  )
+
+  // Roof faces of every building with their corner positions, derived from the polygons
+  const roofFacesById = useMemo(
+    () =>
+      new Map(
+        buildings.map((b) => {
+          const { vertices, faces } = getBuildingRoof(b, polygons)
+          return [b.id, faces.map((face) => ({ face, surface: face.vertexIndices.map((i) => vertices[i]) }))]
+        })
+      ),
+    [buildings, polygons]
+  )
+
+  const selectedIds = useMemo(
+    () => selectedPolygonIds ?? (selectedPolygonId ? [selectedPolygonId] : []),
+    [selectedPolygonIds, selectedPolygonId]
+  )
+
   const handleSelect = useCallback(
-    (polygonId: string) => {
-      if (selectedPolygonId === polygonId) {
+    (e: React.MouseEvent, polygonId: string) => {
+      if (e.shiftKey) {
+        onSelectPolygon?.(polygonId, true)
+      } else if (selectedIds.length === 1 && selectedIds[0] === polygonId) {
         onSelectPolygon?.(null)
       } else {
         onSelectPolygon?.(polygonId)
       }
     },
-    [selectedPolygonId, onSelectPolygon]
+    [selectedIds, onSelectPolygon]
   )
 
   const handleDelete = useCallback(
@@ -196,11 +347,94 @@ export function PolygonList({
     [onBuildingVisibilityChange]
   )
 
+  const handleBuildingRoofTypeChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>, buildingId: string) => {
+      e.stopPropagation()
+      onBuildingRoofTypeChange?.(buildingId, e.target.value as RoofType)
+    },
+    [onBuildingRoofTypeChange]
+  )
+
+  const handleBuildingRoofPitchChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>, buildingId: string) => {
+      e.stopPropagation()
+      const inputValue = parseFloat(e.target.value)
+      if (!isNaN(inputValue) && inputValue >= 0 && inputValue < 90) {
+        onBuildingRoofPitchChange?.(buildingId, inputValue)
+      }
+    },
+    [onBuildingRoofPitchChange]
+  )
+
+  const handleObstructionHeightChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>, polygonId: string) => {
+      e.stopPropagation()
+      const inputValue = parseFloat(e.target.value)
+      if (!isNaN(inputValue) && inputValue >= 0) {
+        onObstructionHeightChange?.(polygonId, metersToUnits(inputValue))
+      }
+    },
+    [onObstructionHeightChange, metersToUnits]
+  )
+
+  const handleObstructionSetbackChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>, polygonId: string) => {
+      e.stopPropagation()
+      const inputValue = parseFloat(e.target.value)
+      if (!isNaN(inputValue) && inputValue >= 0) {
+        onObstructionSetbackChange?.(polygonId, metersToUnits(inputValue))
+      }
+    },
+    [onObstructionSetbackChange, metersToUnits]
+  )
+
+  const handleOrthogonalize = useCallback(
+    (e: React.MouseEvent, polygonIds: string[]) => {
+      e.stopPropagation()
+      onOrthogonalize?.(polygonIds)
+    },
+    [onOrthogonalize]
+  )
+
+  const handleMerge = useCallback(
+    (e: React.MouseEvent, polygonIds: string[]) => {
+      e.stopPropagation()
+      onMergePolygons?.(polygonIds)
+    },
+    [onMergePolygons]
+  )
+
+  const handleSubtract = useCallback(
+    (e: React.MouseEvent, polygonIds: string[]) => {
+      e.stopPropagation()
+      onSubtractPolygons?.(polygonIds)
+    },
+    [onSubtractPolygons]
+  )
+
+  const handlePanelArrayDelete = useCallback(
+    (e: React.MouseEvent, panelArrayId: string) => {
+      e.stopPropagation()
+      onDeletePanelArray?.(panelArrayId)
+    },
+    [onDeletePanelArray]
+  )
+
+  const roofPolygons = polygons.filter((p) => !isObstruction(p))
+  const obstructionPolygons = polygons.filter(isObstruction)
+  const arrayYields = new Map(yields?.map((y) => [y.panelArrayId, y.estimate]))
+  const arrayShadingLoss = new Map(shading?.panelArrays.map((s) => [s.panelArrayId, s.profile.annual]))
+
   const getBuildingsForPolygon = useCallback(
     (polygonId: string) => buildings.filter((b) => b.polygonId === polygonId),
     [buildings]
   )
 
+  const getPanelArraysForPolygon = useCallback(
+    (polygonId: string) => panelArrays.filter((a) => a.polygonId === polygonId),
+    [panelArrays]
+  )
+
   if (polygons.length === 0) {
     return (
       <div className="polygon-list">
@@ -219,22 +453,58 @@ export function PolygonList({
     <div className="polygon-list">
       <div className="polygon-list-header">
         <span>Polygons</span>
-        <span className="polygon-list-count">{polygons.length}</span>
+        <div className="polygon-list-header-actions">
+          {onOrthogonalize && selectedIds.length > 0 && (
+            <button
+              className="polygon-list-header-button"
+              onClick={(e) => handleOrthogonalize(e, selectedIds)}
+              title="Square the corners of the selected polygons"
+            >
+              Square selected
+            </button>
+          )}
+          {onMergePolygons && selectedIds.length > 1 && (
+            <button
+              className="polygon-list-header-button"
+              onClick={(e) => handleMerge(e, selectedIds)}
+              title="Merge the selected polygons into the first one selected"
+            >
+              Merge
+            </button>
+          )}
+          {onSubtractPolygons && selectedIds.length > 1 && (
+            <button
+              className="polygon-list-header-button"
+              onClick={(e) => handleSubtract(e, selectedIds)}
+              title="Cut the other selected polygons out of the first one selected"
+            >
+              Subtract
+            </button>
+          )}
+          <span className="polygon-list-count">{polygons.length}</span>
+        </div>
       </div>
       <div className="polygon-list-items">
-        {polygons.map((polygon, index) => {
-          const isSelected = selectedPolygonId === polygon.id
+        {polygons.map((polygon) => {
+          const isObstructionPolygon = isObstruction(polygon)
+          const displayName = isObstructionPolygon
+            ? `Obstruction ${obstructionPolygons.indexOf(polygon) + 1}`
+            : `Polygon ${roofPolygons.indexOf(polygon) + 1}`
+          const isSelected = selectedIds.includes(polygon.id)
           const pointCount = polygon.points.length
           const lineCount = polygon.lines?.length || 0
+          const issues = issuesById.get(polygon.id)
+          const stats = statsById.get(polygon.id)
           const polygonBuildings = getBuildingsForPolygon(polygon.id)
-          const hasChildren = polygonBuildings.length > 0
+          const polygonPanelArrays = getPanelArraysForPolygon(polygon.id)
+          const hasChildren = polygonBuildings.length > 0 || polygonPanelArrays.length > 0
           const isExpanded = hasChildren && !collapsedPolygons.has(polygon.id)
 
           return (
             <div key={polygon.id} className="polygon-list-tree-item">
               <div
                 className={`polygon-list-item ${isSelected ? 'polygon-list-item--selected' : ''}`}
-                onClick={() => handleSelect(polygon.id)}
+                onClick={(e) => handleSelect(e, polygon.id)}
               >
                 {hasChildren && (
                   <button
@@ -249,14 +519,26 @@ export function PolygonList({
                 )}
                 {!hasChildren && <div className="polygon-list-expand-placeholder" />}
                 <div className="polygon-list-item-icon">
-                  <IconPolygon />
+                  {isObstructionPolygon ? <IconObstruction /> : <IconPolygon />}
                 </div>
                 <div className="polygon-list-item-info">
-                  <div className="polygon-list-item-name">Polygon {index + 1}</div>
+                  <div className="polygon-list-item-name">{displayName}</div>
                   <div className="polygon-list-item-meta">
                     {pointCount} points{lineCount > 0 && ` • ${lineCount} lines`}
                     {polygonBuildings.length > 0 && ` • ${polygonBuildings.length} building`}
+                    {polygonPanelArrays.length > 0 && ` • ${polygonPanelArrays.length} array${polygonPanelArrays.length === 1 ? '' : 's'}`}
                   </div>
+                  {stats && (
+                    <div
+                      className="polygon-list-item-meta"
+                      title="Footprint area, perimeter, sloped roof area and roof area left usable around obstructions and their setback"
+                    >
+                      {formatMeasuredArea(stats.footprintArea)} footprint • {formatMeasuredLength(stats.perimeter)} perimeter
+                      {!isObstructionPolygon && polygonBuildings.length > 0 && ` • ${formatMeasuredArea(stats.roofArea)} roof`}
+                      {!isObstructionPolygon && stats.usableArea < stats.roofArea && ` • ${formatMeasuredArea(stats.usableArea)} usable`}
+                    </div>
+                  )}
+                  {issues && <IssueBadges issues={issues} />}
                 </div>
                 <input
                   type="color"
@@ -266,22 +548,70 @@ export function PolygonList({
                   onClick={(e) => e.stopPropagation()}
                   title="Change color"
                 />
+                {onOrthogonalize && (
+                  <button
+                    className="polygon-list-item-action"
+                    onClick={(e) => handleOrthogonalize(e, [polygon.id])}
+                    title="Square corners"
+                  >
+                    <IconSquare />
+                  </button>
+                )}
                 <button
                   className={`polygon-list-item-visibility ${polygon.visible === false ? 'polygon-list-item-visibility--hidden' : ''}`}
                   onClick={(e) => handlePolygonVisibilityToggle(e, polygon.id, polygon.visible !== false)}
-                  title={polygon.visible === false ? 'Show polygon' : 'Hide polygon'}
+                  title={polygon.visible === false ? `Show ${isObstructionPolygon ? 'obstruction' : 'polygon'}` : `Hide ${isObstructionPolygon ? 'obstruction' : 'polygon'}`}
                 >
                   {polygon.visible === false ? <IconEyeOff /> : <IconEye />}
                 </button>
                 <button
                   className="polygon-list-item-delete"
                   onClick={(e) => handleDelete(e, polygon.id)}
-                  title="Delete polygon"
+                  title={isObstructionPolygon ? 'Delete obstruction' : 'Delete polygon'}
                 >
                   <IconTrash />
                 </button>
               </div>
 
+              {isSelected && selectedIds.length === 1 && onPolygonPointsChange && (
+                <PolygonEditor
+                  polygon={polygon}
+                  unitsPerMeter={unitsPerMeter}
+                  onPointsChange={(points) => onPolygonPointsChange(polygon.id, points)}
+                />
+              )}
+
+              {isObstructionPolygon && (
+                <div className="polygon-list-obstruction">
+                  <div className="polygon-list-building-height">
+                    <label className="polygon-list-building-height-label">
+                      Height{unitsPerMeter ? ' (m)' : ''}
+                    </label>
+                    <input
+                      type="number"
+                      className="polygon-list-building-height-input"
+                      min="0"
+                      step={unitsPerMeter ? '0.1' : '0.01'}
+                      value={parseFloat(unitsToMeters(polygon.obstructionHeight ?? 0).toFixed(2))}
+                      onChange={(e) => handleObstructionHeightChange(e, polygon.id)}
+                      title="Obstruction height above the roof"
+                    />
+                    <label className="polygon-list-building-height-label">
+                      Setback{unitsPerMeter ? ' (m)' : ''}
+                    </label>
+                    <input
+                      type="number"
+                      className="polygon-list-building-height-input"
+                      min="0"
+                      step={unitsPerMeter ? '0.1' : '0.01'}
+                      value={parseFloat(unitsToMeters(polygon.obstructionSetback ?? 0).toFixed(2))}
+                      onChange={(e) => handleObstructionSetbackChange(e, polygon.id)}
+                      title="Keep-out buffer around the obstruction"
+                    />
+                  </div>
+                </div>
+              )}
+
               {hasChildren && isExpanded && (
                 <div className="polygon-list-children">
                   {polygonBuildings.map((building, buildingIndex) => (
@@ -340,14 +670,123 @@ export function PolygonList({
                           onChange={(e) => handleBuildingHeightChange(e, building.id)}
                         />
                       </div>
+                      <div className="polygon-list-building-roof">
+                        <label className="polygon-list-building-height-label">Roof</label>
+                        <select
+                          className="polygon-list-building-roof-select"
+                          value={building.roofType ?? 'flat'}
+                          onChange={(e) => handleBuildingRoofTypeChange(e, building.id)}
+                        >
+                          {(Object.keys(ROOF_TYPE_LABELS) as RoofType[]).map((roofType) => (
+                            <option key={roofType} value={roofType}>
+                              {ROOF_TYPE_LABELS[roofType]}
+                            </option>
+                          ))}
+                        </select>
+                        {(building.roofType ?? 'flat') !== 'flat' && (
+                          <>
+                            <input
+                              type="number"
+                              className="polygon-list-building-height-input"
+                              min="0"
+                              max="89"
+                              step="1"
+                              value={building.roofPitch ?? DEFAULT_ROOF_PITCH}
+                              onChange={(e) => handleBuildingRoofPitchChange(e, building.id)}
+                              title="Roof pitch"
+                            />
+                            <span className="polygon-list-building-height-label">°</span>
+                          </>
+                        )}
+                      </div>
+                      {(roofFacesById.get(building.id) ?? []).length > 0 && (
+                        <div className="polygon-list-roof-faces">
+                          {(roofFacesById.get(building.id) ?? []).map(({ face, surface }, faceIndex) => {
+                            const obstructedArea = getObstructedArea(surface, obstructionPolygons)
+                            const faceShading = shading?.roofFaces.find(
+                              (s) => s.buildingId === building.id && s.faceIndex === faceIndex
+                            )
+
+                            return (
+                              <div key={faceIndex} className="polygon-list-roof-face">
+                                <span className="polygon-list-roof-face-name">Face {faceIndex + 1}</span>
+                                <span className="polygon-list-roof-face-meta">
+                                  {formatArea(face.area)}
+                                  {obstructedArea > 0 && ` (${formatArea(Math.max(0, face.area - obstructedArea))} usable)`}
+                                  {' • '}{face.pitch.toFixed(0)}°
+                                  {face.pitch > 0 && ` • ${formatAzimuth(face.azimuth)}`}
+                                  {faceShading && ` • ${formatShading(faceShading.profile.annual)}`}
+                                </span>
+                              </div>
+                            )
+                          })}
+                        </div>
+                      )}
                     </div>
                   ))}
+                  {polygonPanelArrays.map((panelArray, arrayIndex) => {
+                    const estimate = arrayYields.get(panelArray.id)
+                    const shadingLoss = arrayShadingLoss.get(panelArray.id)
+
+                    return (
+                      <div key={panelArray.id} className="polygon-list-building-item">
+                        <div className="polygon-list-building-row">
+                          <div className="polygon-list-building-icon">
+                            <IconPanels />
+                          </div>
+                          <div className="polygon-list-building-info">
+                            <div className="polygon-list-building-name">
+                              Array {arrayIndex + 1}
+                              {panelArray.faceIndex !== null && ` (Face ${panelArray.faceIndex + 1})`}
+                            </div>
+                            <div className="polygon-list-array-meta">
+                              {panelArray.panels.length} × {panelArray.module.name} •{' '}
+                              {((panelArray.panels.length * panelArray.module.power) / 1000).toFixed(2)} kWp
+                            </div>
+                            <div className="polygon-list-array-meta">
+                              Tilt {panelArray.tilt.toFixed(0)}°
+                              {panelArray.tilt > 0 && ` • ${formatAzimuth(panelArray.azimuth)}`}
+                            </div>
+                            {estimate && (
+                              <div
+                                className="polygon-list-array-meta"
+                                title={estimate.monthly
+                                  .map((kWh, month) => `${MONTH_NAMES[month]}: ${formatEnergy(kWh)}`)
+                                  .join('\n')}
+                              >
+                                {formatEnergy(estimate.annual)}/yr • {estimate.specificYield.toFixed(0)} kWh/kWp
+                              </div>
+                            )}
+                            {shadingLoss !== undefined && (
+                              <div className="polygon-list-array-meta">{formatShading(shadingLoss)}</div>
+                            )}
+                          </div>
+                          <button
+                            className="polygon-list-item-delete"
+                            onClick={(e) => handlePanelArrayDelete(e, panelArray.id)}
+                            title="Delete array"
+                          >
+                            <IconTrash />
+                          </button>
+                        </div>
+                      </div>
+                    )
+                  })}
                 </div>
               )}
             </div>
           )
         })}
       </div>
+      {projectStats.roofCount > 0 && (
+        <div className="polygon-list-totals">
+          <span>Total ({projectStats.roofCount} roof{projectStats.roofCount === 1 ? '' : 's'})</span>
+          <span className="polygon-list-totals-values">
+            {formatMeasuredArea(projectStats.footprintArea)} footprint • {formatMeasuredLength(projectStats.perimeter)} perimeter
+            {' • '}{formatMeasuredArea(projectStats.roofArea)} roof • {formatMeasuredArea(projectStats.usableArea)} usable
+          </span>
+        </div>
+      )}
     </div>
   )
 }
@@ -4,8 +4,12 @@ export {
   useHistoryOptional,
 } from './useHistory.js'
 
+export { useShadingAnalysis } from './useShadingAnalysis.js'
+
 export type {
   EditorState,
   HistoryContextValue,
   HistoryProviderProps,
 } from './useHistory.js'
+
+export type { UseShadingAnalysisOptions, UseShadingAnalysisResult } from './useShadingAnalysis.js'
@@ -1,15 +1,17 @@
 import { createContext, useContext, useState, useCallback, useRef, useMemo } from 'react'
-import type { Polygon, Building } from '../components/Canvas3D'
+import type { Polygon, Building, PanelArray } from '../components/Canvas3D'
 
 export interface EditorState {
   polygons: Polygon[]
   buildings: Building[]
+  panelArrays: PanelArray[]
 }
 
 export interface HistoryContextValue {
   state: EditorState
   setPolygons: (polygons: Polygon[]) => void
   setBuildings: (buildings: Building[]) => void
+  setPanelArrays: (panelArrays: PanelArray[]) => void
 
   // History actions
   undo: () => void
@@ -36,6 +38,7 @@ export interface HistoryProviderProps {
   maxHistorySize?: number
   initialPolygons?: Polygon[]
   initialBuildings?: Building[]
+  initialPanelArrays?: PanelArray[]
 }
 
 function cloneState(state: EditorState): EditorState {
@@ -48,6 +51,11 @@ function cloneState(state: EditorState): EditorState {
     buildings: state.buildings.map(b => ({
       ...b,
       points: b.points.map(pt => pt.clone()),
+      roofVertices: b.roofVertices?.map(pt => pt.clone()),
+    })),
+    panelArrays: state.panelArrays.map(a => ({
+      ...a,
+      panels: a.panels.map(corners => corners.map(pt => pt.clone())),
     })),
   }
 }
@@ -57,10 +65,12 @@ export function HistoryProvider({
   maxHistorySize = 50,
   initialPolygons = [],
   initialBuildings = [],
+  initialPanelArrays = [],
 }: HistoryProviderProps) {
   const [state, setState] = useState<EditorState>({
     polygons: initialPolygons,
     buildings: initialBuildings,
+    panelArrays: initialPanelArrays,
   })
 
   const undoStackRef = useRef<EditorState[]>([])
@@ -176,10 +186,15 @@ export function HistoryProvider({
     setState(prev => ({ ...prev, buildings }))
   }, [])
 
+  const setPanelArrays = useCallback((panelArrays: PanelArray[]) => {
+    setState(prev => ({ ...prev, panelArrays }))
+  }, [])
+
   const value: HistoryContextValue = useMemo(() => ({
     state,
     setPolygons,
     setBuildings,
+    setPanelArrays,
     undo,
     redo,
     takeSnapshot,
@@ -191,7 +206,7 @@ export function HistoryProvider({
     redoStack: redoStackRef.current,
     goToUndoState,
     goToRedoState,
-  }), [state, setPolygons, setBuildings, undo, redo, takeSnapshot, beginBatch, endBatch, goToUndoState, goToRedoState])
+  }), [state, setPolygons, setBuildings, setPanelArrays, undo, redo, takeSnapshot, beginBatch, endBatch, goToUndoState, goToRedoState])
 
   return (
     <HistoryContext.Provider value={value}>
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react'
+import type { Polygon, Building, PanelArray } from '../components/Canvas3D'
+import { analyzeShadingAsync } from '../utils/shading'
+import type { ShadingAnalysis } from '../utils/shading'
+import type { WeatherData } from '../utils/tmy'
+
+export interface UseShadingAnalysisOptions {
+  polygons: Polygon[]
+  buildings: Building[]
+  panelArrays: PanelArray[]
+  latitude?: number
+  longitude?: number
+  /** The year of this date is sampled (default: current year) */
+  date?: Date
+  /** Typical-year irradiance for the insolation figures (default: clear-sky model) */
+  weather?: WeatherData
+  /** Skip the analysis while false (default: true) */
+  enabled?: boolean
+  /** Wait this long after the last change before analyzing, in milliseconds (default: 500) */
+  delay?: number
+}
+
+export interface UseShadingAnalysisResult {
+  /** Latest finished analysis (null while disabled, until a location is set and until the first run has finished) */
+  analysis: ShadingAnalysis | null
+  /** Why the latest run failed (null once a run succeeds again) */
+  error: unknown
+}
+
+/**
+ * Annual shading of every roof face and panel array, recomputed shortly after the scene stops changing.
+ * The analysis runs in small chunks while the browser is idle, and a run is dropped as soon as the scene
+ * changes again. A failed run keeps the previous analysis and reports its error instead.
+ */
+export function useShadingAnalysis({
+  polygons,
+  buildings,
+  panelArrays,
+  latitude,
+  longitude,
+  date,
+  weather,
+  enabled = true,
+  delay = 500,
+}: UseShadingAnalysisOptions): UseShadingAnalysisResult {
+  const [analysis, setAnalysis] = useState<ShadingAnalysis | null>(null)
+  const [error, setError] = useState<unknown>(null)
+  const isActive = enabled && latitude !== undefined && longitude !== undefined
+  const year = date?.getFullYear()
+
+  useEffect(() => {
+    if (!enabled || latitude === undefined || longitude === undefined) return
+
+    // Ray casting a whole year is expensive, so skip the intermediate states of a drag
+    const controller = new AbortController()
+    const timeout = window.setTimeout(() => {
+      analyzeShadingAsync(buildings, polygons, panelArrays, { latitude, longitude, year, weather }, controller.signal)
+        .then((result) => {
+          setAnalysis(result)
+          setError(null)
+        })
+        .catch((reason: unknown) => {
+          // Runs are aborted whenever the scene changes again
+          if (!controller.signal.aborted) setError(reason)
+        })
+    }, delay)
+
+    return () => {
+      window.clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [polygons, buildings, panelArrays, latitude, longitude, year, weather, enabled, delay])
+
+  return isActive ? { analysis, error } : { analysis: null, error: null }
+}
@@ -1,6 +1,20 @@
 // Components
 export { Canvas3D } from './components/Canvas3D'
-export type { Canvas3DProps, Polygon, Building } from './components/Canvas3D'
+export type {
+  Canvas3DProps,
+  Polygon,
+  PolygonKind,
+  Building,
+  RoofType,
+  RoofFace,
+  PVModule,
+  PanelArray,
+  PanelLayoutSettings,
+  PanelOrientation,
+  HeatmapMode,
+  Selection,
+  TransformMode,
+} from './components/Canvas3D'
 
 export { PolygonList } from './components/PolygonList'
 export type { PolygonListProps } from './components/PolygonList'
@@ -12,5 +26,102 @@ export { HistoryDebugger } from './components/HistoryDebugger'
 export type { HistoryDebuggerProps } from './components/HistoryDebugger'
 
 // Hooks
-export { HistoryProvider, useHistory, useHistoryOptional } from './hooks'
-export type { EditorState, HistoryContextValue, HistoryProviderProps } from './hooks'
+export { HistoryProvider, useHistory, useHistoryOptional, useShadingAnalysis } from './hooks'
+export type { EditorState, HistoryContextValue, HistoryProviderProps, UseShadingAnalysisOptions, UseShadingAnalysisResult } from './hooks'
+
+// Utilities
+export {
+  buildRoof,
+  getBuildingRoof,
+  splitFootprint,
+  measureRoofFace,
+  layoutPanels,
+  getKeepOutZones,
+  getObstructedArea,
+  getSunDirection,
+  analyzeSurfaceShading,
+  analyzeShading,
+  analyzeShadingAsync,
+  estimateYield,
+  estimatePanelArrayYields,
+  parseTmyCsv,
+  loadTmyFile,
+  serializeProject,
+  deserializeProject,
+  readImageAsDataUrl,
+  PROJECT_VERSION,
+  createGeoreference,
+  sceneToGeo,
+  geoToScene,
+  exportGeoJSON,
+  importGeoJSON,
+  buildExportScene,
+  exportGLB,
+  exportDXF,
+  DXF_LAYERS,
+  buildProposalReport,
+  captureTopView,
+  snapPoint,
+  DEFAULT_SNAP_SETTINGS,
+  findLinkedVertices,
+  moveVertices,
+  orthogonalizePoints,
+  orthogonalizePolygons,
+  EMPTY_SELECTION,
+  updateSelection,
+  getSelectedVertices,
+  transformVertices,
+  copyPolygons,
+  pastePolygons,
+  unionPolygons,
+  subtractPolygon,
+  splitPolygon,
+  splitPolygonAlongLine,
+  copyBuildingsToPieces,
+  validatePolygon,
+  validatePolygons,
+  cleanupPolygon,
+  cleanupPolygons,
+  getPolygonStats,
+  getProjectStats,
+} from './utils'
+export type {
+  RoofGeometryData,
+  KeepOutZone,
+  ShadingOptions,
+  ShadingProfile,
+  ShadingAnalysis,
+  RoofFaceShading,
+  PanelArrayShading,
+  YieldOptions,
+  YieldEstimate,
+  PanelArrayYield,
+  WeatherData,
+  WeatherRecord,
+  ParseTmyOptions,
+  ProjectData,
+  ProjectDocument,
+  Georeference,
+  GroundControlPoint,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  GltfExportOptions,
+  DxfExportOptions,
+  ProposalReportOptions,
+  TopViewOptions,
+  SnapKind,
+  SnapSettings,
+  SnapResult,
+  VertexRef,
+  OrthogonalizeOptions,
+  SelectionMode,
+  ClipboardContent,
+  PolygonIssue,
+  PolygonIssueKind,
+  ValidationOptions,
+  CleanupOptions,
+  CleanupPolygonsOptions,
+  AreaStatsOptions,
+  PolygonStats,
+  ProjectStats,
+} from './utils'
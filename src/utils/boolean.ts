@@ -0,0 +1,336 @@
+import * as THREE from 'three'
+import type { Polygon, Building } from '../components/Canvas3D/types'
+import { signedArea, isPointInPolygon, pointSegmentDistance, segmentsIntersect, toGroundPoints } from './geometry'
+import { splitFootprint } from './roof'
+import { VERTEX_LINK_TOLERANCE } from './topology'
+
+// Rings smaller than this (in Three.js units squared) are rounding slivers
+const MIN_AREA = 1e-8
+const EPSILON = 1e-9
+
+/** Piece of an outline edge that no edge of the other outline crosses */
+interface Edge {
+  start: THREE.Vector3
+  end: THREE.Vector3
+}
+
+type Side = 'inside' | 'outside' | 'same' | 'opposite'
+
+function isSamePoint(a: THREE.Vector3, b: THREE.Vector3): boolean {
+  return Math.abs(a.x - b.x) <= VERTEX_LINK_TOLERANCE && Math.abs(a.z - b.z) <= VERTEX_LINK_TOLERANCE
+}
+
+function toGround(point: THREE.Vector3): THREE.Vector2 {
+  return new THREE.Vector2(point.x, point.z)
+}
+
+function ringArea(points: THREE.Vector3[]): number {
+  return signedArea(toGroundPoints(points))
+}
+
+// Both outlines of an operation run the same way: positive area, with the inside on the left of each edge
+function orient(points: THREE.Vector3[]): THREE.Vector3[] {
+  return ringArea(points) < 0 ? [...points].reverse() : points
+}
+
+// Point where segments ab and cd cross, for segments known to cross
+function crossingPoint(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3, d: THREE.Vector3): THREE.Vector3 {
+  const rx = b.x - a.x
+  const rz = b.z - a.z
+  const sx = d.x - c.x
+  const sz = d.z - c.z
+  const t = ((c.x - a.x) * sz - (c.z - a.z) * sx) / (rx * sz - rz * sx)
+  return a.clone().lerp(b, t)
+}
+
+// Cut each edge of the ring at the given points, ordered along the edge
+function cutRing(ring: THREE.Vector3[], cuts: THREE.Vector3[][]): Edge[] {
+  const edges: Edge[] = []
+  ring.forEach((a, i) => {
+    const b = ring[(i + 1) % ring.length]
+    const points = [a, ...cuts[i].sort((p, q) => a.distanceToSquared(p) - a.distanceToSquared(q)), b]
+    for (let k = 0; k < points.length - 1; k++) {
+      if (!isSamePoint(points[k], points[k + 1])) edges.push({ start: points[k], end: points[k + 1] })
+    }
+  })
+  return edges
+}
+
+// Edges of both outlines, cut where they cross each other and where a corner of one lies on an edge of the other
+function splitEdges(first: THREE.Vector3[], second: THREE.Vector3[]): [Edge[], Edge[]] {
+  const firstCuts: THREE.Vector3[][] = first.map(() => [])
+  const secondCuts: THREE.Vector3[][] = second.map(() => [])
+
+  first.forEach((a, i) => {
+    const b = first[(i + 1) % first.length]
+    second.forEach((c, j) => {
+      const d = second[(j + 1) % second.length]
+      if (segmentsIntersect(toGround(a), toGround(b), toGround(c), toGround(d))) {
+        // The same point goes into both outlines, so their pieces meet exactly
+        const point = crossingPoint(a, b, c, d)
+        firstCuts[i].push(point)
+        secondCuts[j].push(point)
+      }
+    })
+  })
+
+  const addTouching = (ring: THREE.Vector3[], other: THREE.Vector3[], cuts: THREE.Vector3[][]) => {
+    ring.forEach((a, i) => {
+      const b = ring[(i + 1) % ring.length]
+      for (const point of other) {
+        if (isSamePoint(point, a) || isSamePoint(point, b)) continue
+        if (pointSegmentDistance(toGround(point), toGround(a), toGround(b)) <= VERTEX_LINK_TOLERANCE) {
+          cuts[i].push(point)
+        }
+      }
+    })
+  }
+  addTouching(first, second, firstCuts)
+  addTouching(second, first, secondCuts)
+
+  return [cutRing(first, firstCuts), cutRing(second, secondCuts)]
+}
+
+// Where an edge piece lies relative to the other outline; pieces on its boundary run the same way or the opposite way
+function classify(edge: Edge, ring: THREE.Vector3[]): Side {
+  const midpoint = toGround(edge.start.clone().lerp(edge.end, 0.5))
+  const flat = toGroundPoints(ring)
+  for (let i = 0; i < flat.length; i++) {
+    const c = flat[i]
+    const d = flat[(i + 1) % flat.length]
+    if (pointSegmentDistance(midpoint, c, d) <= VERTEX_LINK_TOLERANCE) {
+      const direction = (edge.end.x - edge.start.x) * (d.x - c.x) + (edge.end.z - edge.start.z) * (d.y - c.y)
+      return direction > 0 ? 'same' : 'opposite'
+    }
+  }
+  return isPointInPolygon(midpoint, flat) ? 'inside' : 'outside'
+}
+
+// Turn from one edge into the next in radians, positive to the left
+function turnAngle(incoming: Edge, outgoing: Edge): number {
+  const ix = incoming.end.x - incoming.start.x
+  const iz = incoming.end.z - incoming.start.z
+  const ox = outgoing.end.x - outgoing.start.x
+  const oz = outgoing.end.z - outgoing.start.z
+  return Math.atan2(ix * oz - iz * ox, ix * ox + iz * oz)
+}
+
+/**
+ * Join edge pieces end to start into closed rings. Where several pieces leave a point the ring takes the
+ * sharpest left turn, so regions that only touch at a corner come out as separate rings.
+ */
+function linkRings(edges: Edge[]): THREE.Vector3[][] {
+  const unused = [...edges]
+  const rings: THREE.Vector3[][] = []
+
+  while (unused.length > 0) {
+    const [first] = unused.splice(0, 1)
+    const ring = [first.start]
+    let current = first
+    let isClosed = isSamePoint(current.end, ring[0])
+
+    while (!isClosed) {
+      const candidates = unused.filter((e) => isSamePoint(e.start, current.end))
+      if (candidates.length === 0) break
+      const incoming = current
+      const next = candidates.reduce((best, e) => (turnAngle(incoming, e) > turnAngle(incoming, best) ? e : best))
+      unused.splice(unused.indexOf(next), 1)
+      ring.push(next.start)
+      current = next
+      isClosed = isSamePoint(current.end, ring[0])
+    }
+
+    if (isClosed && ring.length >= 3 && Math.abs(ringArea(ring)) > MIN_AREA) rings.push(ring)
+  }
+  return rings
+}
+
+// Rings left by merging or subtracting two outlines: outlines have positive area and holes negative
+function combineOutlines(
+  first: THREE.Vector3[],
+  second: THREE.Vector3[],
+  operation: 'union' | 'difference'
+): THREE.Vector3[][] {
+  const a = orient(first)
+  const b = orient(second)
+  const [firstEdges, secondEdges] = splitEdges(a, b)
+  const kept: Edge[] = []
+
+  // A shared piece bounds the merged area when both outlines lie on the same side of it, and bounds the
+  // remainder of a subtraction when they lie on opposite sides
+  for (const edge of firstEdges) {
+    const side = classify(edge, b)
+    if (side === 'outside' || side === (operation === 'union' ? 'same' : 'opposite')) kept.push(edge)
+  }
+  for (const edge of secondEdges) {
+    const side = classify(edge, a)
+    if (operation === 'union' && side === 'outside') {
+      kept.push(edge)
+    } else if (operation === 'difference' && side === 'inside') {
+      kept.push({ start: edge.end, end: edge.start })
+    }
+  }
+
+  return linkRings(kept)
+}
+
+// Separate outlines, or null when the rings include a hole: polygons can't have holes, and joining one to
+// the outline by a zero-width slit would leave doubled corners that break roof faces and area figures
+function toOutlines(rings: THREE.Vector3[][]): THREE.Vector3[][] | null {
+  if (rings.some((ring) => ringArea(ring) < 0)) return null
+  return rings.filter((ring) => ringArea(ring) > 0)
+}
+
+// Whether the segment between two corners of the outline runs through its inside
+function runsInside(flat: THREE.Vector2[], a: THREE.Vector2, b: THREE.Vector2): boolean {
+  const midpoint = new THREE.Vector2().addVectors(a, b).multiplyScalar(0.5)
+  if (!isPointInPolygon(midpoint, flat)) return false
+  return flat.every((c, i) => !segmentsIntersect(a, b, c, flat[(i + 1) % flat.length]))
+}
+
+/**
+ * Internal lines of the source polygons, renumbered for a new outline. Lines are kept when both ends are
+ * still corners of the outline and the line runs inside it; lines that became an edge are dropped.
+ */
+function remapLines(points: THREE.Vector3[], sources: Polygon[]): [number, number][] {
+  const flat = toGroundPoints(points)
+  const indexOf = (point: THREE.Vector3) => points.findIndex((p) => isSamePoint(p, point))
+  const lines: [number, number][] = []
+
+  for (const source of sources) {
+    for (const [start, end] of source.lines || []) {
+      if (!source.points[start] || !source.points[end]) continue
+      const a = indexOf(source.points[start])
+      const b = indexOf(source.points[end])
+      if (a === -1 || b === -1 || a === b) continue
+      if ((a + 1) % points.length === b || (b + 1) % points.length === a) continue
+      if (!runsInside(flat, flat[a], flat[b])) continue
+      if (lines.some(([x, y]) => (x === a && y === b) || (x === b && y === a))) continue
+      lines.push([a, b])
+    }
+  }
+  return lines
+}
+
+// Polygon with a new outline, wound the same way as the original
+function withOutline(polygon: Polygon, outline: THREE.Vector3[], sources: Polygon[]): Polygon {
+  const ordered = ringArea(polygon.points) < 0 ? [...outline].reverse() : outline
+  const points = ordered.map((p) => p.clone())
+  return { ...polygon, points, lines: remapLines(points, sources) }
+}
+
+// The first piece keeps the polygon's id, the others are new polygons with the same properties
+function toPieces(polygon: Polygon, outlines: THREE.Vector3[][], sources: Polygon[]): Polygon[] {
+  return outlines.map((outline, i) =>
+    withOutline({ ...polygon, id: i === 0 ? polygon.id : crypto.randomUUID() }, outline, sources)
+  )
+}
+
+/**
+ * Merge two polygons that overlap or share an edge. The result keeps the first polygon's id, properties
+ * and winding, and the internal lines of both that still join two of its corners.
+ * Returns null when the polygons neither overlap nor share an edge, and when they would enclose a
+ * courtyard, since polygons can't have holes.
+ */
+export function unionPolygons(first: Polygon, second: Polygon): Polygon | null {
+  const outlines = toOutlines(combineOutlines(first.points, second.points, 'union'))
+  if (!outlines || outlines.length !== 1) return null
+  return withOutline(first, outlines[0], [first, second])
+}
+
+/**
+ * Cut one polygon out of another, e.g. a dormer footprint out of a roof. What remains may fall apart into
+ * several pieces: the first keeps the subject's id and the others get new ids.
+ * Returns null when the polygons don't overlap, and when the cutter lies completely inside and would leave
+ * a hole, since polygons can't have holes. Returns an empty list when nothing remains.
+ */
+export function subtractPolygon(subject: Polygon, cutter: Polygon): Polygon[] | null {
+  const outlines = toOutlines(combineOutlines(subject.points, cutter.points, 'difference'))
+  if (!outlines) return null
+  const remaining = outlines.reduce((sum, outline) => sum + ringArea(outline), 0)
+  if (Math.abs(remaining - Math.abs(ringArea(subject.points))) <= MIN_AREA) return null
+  return toPieces(subject, outlines, [subject])
+}
+
+/**
+ * Split a polygon along a cut from start to end. The polygon is divided wherever the cut runs through it
+ * from edge to edge (a cut across a U-shaped outline gives three pieces); a cut that ends inside the
+ * polygon divides nothing. The first piece keeps the polygon's id and the others get new ids.
+ * Returns null when the cut doesn't divide the polygon.
+ */
+export function splitPolygon(polygon: Polygon, start: THREE.Vector3, end: THREE.Vector3): Polygon[] | null {
+  const { points } = polygon
+  const cutX = end.x - start.x
+  const cutZ = end.z - start.z
+
+  // Where the cut meets each edge, as fractions along the cut (t) and along the edge (u)
+  const hits: { t: number; u: number; edgeIndex: number; point: THREE.Vector3 }[] = []
+  points.forEach((a, i) => {
+    const b = points[(i + 1) % points.length]
+    const edgeX = b.x - a.x
+    const edgeZ = b.z - a.z
+    const denominator = cutX * edgeZ - cutZ * edgeX
+    if (Math.abs(denominator) < EPSILON) return
+    const t = ((a.x - start.x) * edgeZ - (a.z - start.z) * edgeX) / denominator
+    const u = ((a.x - start.x) * cutZ - (a.z - start.z) * cutX) / denominator
+    if (t < -EPSILON || t > 1 + EPSILON || u < -EPSILON || u > 1 + EPSILON) return
+    const point = u <= EPSILON ? a : u >= 1 - EPSILON ? b : a.clone().lerp(b, u)
+    hits.push({ t, u, edgeIndex: i, point })
+  })
+
+  // Add the crossings as corners
+  const ring: THREE.Vector3[] = []
+  points.forEach((point, i) => {
+    ring.push(point)
+    const onEdge = hits.filter((h) => h.edgeIndex === i && h.u > EPSILON && h.u < 1 - EPSILON)
+    onEdge.sort((a, b) => a.u - b.u).forEach((h) => ring.push(h.point))
+  })
+
+  // Stretches of the cut between consecutive crossings that run inside the polygon
+  const flat = toGroundPoints(ring)
+  const crossings = hits
+    .sort((a, b) => a.t - b.t)
+    .map((h) => ring.findIndex((p) => isSamePoint(p, h.point)))
+    .filter((index, i, all) => index !== -1 && index !== all[i - 1])
+  const chords: [number, number][] = []
+  for (let i = 0; i < crossings.length - 1; i++) {
+    const a = crossings[i]
+    const b = crossings[i + 1]
+    if ((a + 1) % ring.length === b || (b + 1) % ring.length === a) continue
+    if (runsInside(flat, flat[a], flat[b])) chords.push([a, b])
+  }
+  if (chords.length === 0) return null
+
+  const faces = splitFootprint(ring, chords)
+  return toPieces(polygon, faces.map((face) => face.map((i) => ring[i])), [polygon])
+}
+
+/**
+ * Split a polygon in two along one of its internal lines, which becomes an edge of both pieces.
+ * Returns null when the line doesn't run through the polygon.
+ */
+export function splitPolygonAlongLine(polygon: Polygon, lineIndex: number): Polygon[] | null {
+  const line = polygon.lines[lineIndex]
+  if (!line) return null
+  const faces = splitFootprint(polygon.points, [line])
+  if (faces.length < 2) return null
+  return toPieces(polygon, faces.map((face) => face.map((i) => polygon.points[i])), [polygon])
+}
+
+/**
+ * Buildings for the pieces of a divided polygon: the first piece keeps the polygon's buildings and
+ * every other piece gets a copy with a new id. Points and roofs are rebuilt from the new outlines.
+ */
+export function copyBuildingsToPieces(buildings: Building[], polygonId: string, pieces: Polygon[]): Building[] {
+  const source = buildings.filter((b) => b.polygonId === polygonId)
+  return pieces.slice(1).flatMap((piece) =>
+    source.map((building) => ({
+      ...building,
+      id: crypto.randomUUID(),
+      polygonId: piece.id,
+      points: piece.points.map((p) => p.clone()),
+      roofVertices: undefined,
+      roofFaces: undefined,
+    }))
+  )
+}
@@ -0,0 +1,126 @@
+import type { Polygon } from '../components/Canvas3D/types'
+import { signedArea, pointSegmentDistance, toGroundPoints } from './geometry'
+import { findLinkedVertices } from './topology'
+import type { VertexRef } from './topology'
+import { DEFAULT_VALIDATION_TOLERANCE } from './validation'
+
+export interface CleanupOptions {
+  /**
+   * Neighbouring corners closer than this (in Three.js units) are merged, and corners this close to the
+   * straight line between their neighbours are dropped (default: DEFAULT_VALIDATION_TOLERANCE)
+   */
+  tolerance?: number
+  /** Corners that may be merged or dropped, e.g. the ones just dragged (default: all) */
+  pointIndices?: number[]
+  /** Corners that must not be dropped even where the outline runs straight, e.g. corners shared with other polygons */
+  keepIndices?: number[]
+}
+
+export interface CleanupPolygonsOptions {
+  tolerance?: number
+  /** Keep corners that other polygons share (default: true) */
+  shareVertices?: boolean
+  /** Corners that may be merged or dropped (default: every corner of the given polygons) */
+  vertices?: VertexRef[]
+}
+
+/**
+ * Clean up a polygon's outline: merge neighbouring corners that (almost) coincide, drop corners where the
+ * outline runs straight on, and wind it counter-clockwise seen from above, starting from the same corner.
+ * Internal lines are renumbered; lines that end up joining a corner to itself or to its neighbour are
+ * dropped, and corners that end a line are never dropped. Returns the polygon itself when nothing changed.
+ */
+export function cleanupPolygon(polygon: Polygon, options: CleanupOptions = {}): Polygon {
+  const { tolerance = DEFAULT_VALIDATION_TOLERANCE, pointIndices, keepIndices = [] } = options
+  const flat = toGroundPoints(polygon.points)
+  const lineEnds = new Set((polygon.lines || []).flat())
+  const canMerge = (i: number) => !pointIndices || pointIndices.includes(i)
+  const canDrop = (i: number) => canMerge(i) && !keepIndices.includes(i) && !lineEnds.has(i)
+
+  // Corners still in the outline, by their original index
+  let ring = polygon.points.map((_, i) => i)
+  const mergedInto = new Map<number, number>()
+
+  let hasChanged = true
+  while (hasChanged && ring.length > 3) {
+    hasChanged = false
+    for (let k = 0; k < ring.length; k++) {
+      const a = ring[k]
+      const b = ring[(k + 1) % ring.length]
+      if (flat[a].distanceTo(flat[b]) > tolerance) continue
+      const removed = canMerge(b) ? b : canMerge(a) ? a : null
+      if (removed === null) continue
+      mergedInto.set(removed, removed === b ? a : b)
+      ring = ring.filter((i) => i !== removed)
+      hasChanged = true
+      break
+    }
+  }
+
+  hasChanged = true
+  while (hasChanged && ring.length > 3) {
+    hasChanged = false
+    for (let k = 0; k < ring.length; k++) {
+      const i = ring[k]
+      if (!canDrop(i)) continue
+      const previous = ring[(k + ring.length - 1) % ring.length]
+      const next = ring[(k + 1) % ring.length]
+      if (pointSegmentDistance(flat[i], flat[previous], flat[next]) > tolerance) continue
+      ring = ring.filter((index) => index !== i)
+      hasChanged = true
+      break
+    }
+  }
+
+  // A positive area in (x, z) means clockwise seen from above
+  const order = signedArea(ring.map((i) => flat[i])) > 0 ? [ring[0], ...ring.slice(1).reverse()] : ring
+  if (order.length === polygon.points.length && order.every((original, index) => original === index)) return polygon
+
+  const newIndex = new Map(order.map((original, index) => [original, index]))
+  const resolve = (i: number) => {
+    let current = i
+    for (let target = mergedInto.get(current); target !== undefined; target = mergedInto.get(current)) {
+      current = target
+    }
+    return newIndex.get(current)
+  }
+
+  const lines: [number, number][] = []
+  for (const [start, end] of polygon.lines || []) {
+    const a = resolve(start)
+    const b = resolve(end)
+    if (a === undefined || b === undefined || a === b) continue
+    if ((a + 1) % order.length === b || (b + 1) % order.length === a) continue
+    if (lines.some(([x, y]) => (x === a && y === b) || (x === b && y === a))) continue
+    lines.push([a, b])
+  }
+
+  return { ...polygon, points: order.map((i) => polygon.points[i]), lines }
+}
+
+/**
+ * Clean up the given polygons (see cleanupPolygon). With shareVertices, corners that other polygons share
+ * are kept where the outline runs straight, so adjacent polygons stay joined.
+ */
+export function cleanupPolygons(
+  polygons: Polygon[],
+  polygonIds: string[],
+  { tolerance, shareVertices = true, vertices }: CleanupPolygonsOptions = {}
+): Polygon[] {
+  let changed = false
+  const result = polygons.map((polygon) => {
+    if (!polygonIds.includes(polygon.id)) return polygon
+
+    const pointIndices = vertices?.filter((v) => v.polygonId === polygon.id).map((v) => v.pointIndex)
+    const keepIndices = shareVertices
+      ? polygon.points
+          .map((_, pointIndex) => pointIndex)
+          .filter((pointIndex) => findLinkedVertices(polygons, { polygonId: polygon.id, pointIndex }).length > 1)
+      : []
+
+    const cleaned = cleanupPolygon(polygon, { tolerance, pointIndices, keepIndices })
+    if (cleaned !== polygon) changed = true
+    return cleaned
+  })
+  return changed ? result : polygons
+}
@@ -0,0 +1,56 @@
+import * as THREE from 'three'
+import type { Polygon, Building } from '../components/Canvas3D/types'
+
+/** Polygons and their buildings, copied for pasting */
+export interface ClipboardContent {
+  polygons: Polygon[]
+  buildings: Building[]
+}
+
+/**
+ * Copy the given polygons and the buildings extruded from them. Points are cloned, so later edits
+ * of the originals don't change the copy.
+ */
+export function copyPolygons(polygons: Polygon[], buildings: Building[], polygonIds: string[]): ClipboardContent {
+  const copied = polygons.filter((p) => polygonIds.includes(p.id))
+  return {
+    polygons: copied.map((p) => ({ ...p, points: p.points.map((point) => point.clone()), lines: [...(p.lines || [])] })),
+    buildings: buildings
+      .filter((b) => polygonIds.includes(b.polygonId))
+      .map((b) => ({
+        ...b,
+        points: b.points.map((point) => point.clone()),
+        roofVertices: b.roofVertices?.map((point) => point.clone()),
+      })),
+  }
+}
+
+/**
+ * Copies of the clipboard content ready to be added: every polygon and building gets a fresh id,
+ * buildings point to the new polygons, and everything is moved by the offset
+ */
+export function pastePolygons(content: ClipboardContent, offset: THREE.Vector3): ClipboardContent {
+  const move = (point: THREE.Vector3) => point.clone().add(offset)
+  const newIds = new Map<string, string>()
+
+  const polygons = content.polygons.map((p) => {
+    const id = crypto.randomUUID()
+    newIds.set(p.id, id)
+    return { ...p, id, points: p.points.map(move), lines: [...(p.lines || [])] }
+  })
+
+  const buildings: Building[] = []
+  for (const building of content.buildings) {
+    const polygonId = newIds.get(building.polygonId)
+    if (!polygonId) continue
+    buildings.push({
+      ...building,
+      id: crypto.randomUUID(),
+      polygonId,
+      points: building.points.map(move),
+      roofVertices: building.roofVertices?.map(move),
+    })
+  }
+
+  return { polygons, buildings }
+}
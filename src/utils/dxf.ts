@@ -0,0 +1,136 @@
+import * as THREE from 'three'
+import type { Polygon, PanelArray } from '../components/Canvas3D/types'
+import { isObstruction } from './obstructions'
+import { getUnitsPerMeter } from './geometry'
+
+export interface DxfExportOptions {
+  polygons: Polygon[]
+  panelArrays?: PanelArray[]
+  /** Image scale, as used by the measurement tool */
+  pixelsPerMeter: number
+  /** Image width in pixels */
+  imageWidth: number
+}
+
+/** Layer names and AutoCAD color indices of the exported drawing */
+export const DXF_LAYERS = {
+  outlines: { name: 'ROOF_OUTLINES', color: 7 },
+  lines: { name: 'ROOF_LINES', color: 3 },
+  obstructions: { name: 'OBSTRUCTIONS', color: 30 },
+  panels: { name: 'PV_MODULES', color: 5 },
+} as const
+
+// Group code / value pairs, one per line as DXF expects
+type DxfPair = [number, string | number]
+
+function formatValue(value: string | number): string {
+  return typeof value === 'number' ? String(Number(value.toFixed(6))) : value
+}
+
+function polyline(points: THREE.Vector2[], layer: string): DxfPair[] {
+  const pairs: DxfPair[] = [
+    [0, 'POLYLINE'],
+    [8, layer],
+    [66, 1],
+    [10, 0],
+    [20, 0],
+    [30, 0],
+    [70, 1], // closed
+  ]
+  for (const point of points) {
+    pairs.push([0, 'VERTEX'], [8, layer], [10, point.x], [20, point.y], [30, 0])
+  }
+  pairs.push([0, 'SEQEND'], [8, layer])
+  return pairs
+}
+
+function line(start: THREE.Vector2, end: THREE.Vector2, layer: string): DxfPair[] {
+  return [
+    [0, 'LINE'],
+    [8, layer],
+    [10, start.x],
+    [20, start.y],
+    [30, 0],
+    [11, end.x],
+    [21, end.y],
+    [31, 0],
+  ]
+}
+
+/**
+ * Write polygon outlines, internal lines, obstructions and PV modules as an ASCII DXF (R12) plan drawing.
+ * Coordinates are in meters with x pointing east and y pointing north (up on the image);
+ * each kind of geometry is on its own layer (see DXF_LAYERS). Throws when the image scale is unknown.
+ */
+export function exportDXF({ polygons, panelArrays = [], pixelsPerMeter, imageWidth }: DxfExportOptions): string {
+  const unitsPerMeter = getUnitsPerMeter(pixelsPerMeter, imageWidth)
+  if (!unitsPerMeter) {
+    throw new Error('DXF export needs pixelsPerMeter and imageWidth to convert to meters')
+  }
+
+  // Plan view: the scene's -Z axis is north
+  const toPlan = (point: THREE.Vector3) => new THREE.Vector2(point.x / unitsPerMeter, -point.z / unitsPerMeter)
+
+  const entities: DxfPair[] = []
+
+  for (const polygon of polygons) {
+    if (polygon.points.length < 2) continue
+    const points = polygon.points.map(toPlan)
+    const layer = isObstruction(polygon) ? DXF_LAYERS.obstructions.name : DXF_LAYERS.outlines.name
+    entities.push(...polyline(points, layer))
+
+    for (const [startIndex, endIndex] of polygon.lines) {
+      if (!points[startIndex] || !points[endIndex]) continue
+      entities.push(...line(points[startIndex], points[endIndex], DXF_LAYERS.lines.name))
+    }
+  }
+
+  for (const panelArray of panelArrays) {
+    for (const corners of panelArray.panels) {
+      if (corners.length < 4) continue
+      entities.push(...polyline(corners.map(toPlan), DXF_LAYERS.panels.name))
+    }
+  }
+
+  const layers = Object.values(DXF_LAYERS)
+  const document: DxfPair[] = [
+    [0, 'SECTION'],
+    [2, 'HEADER'],
+    [9, '$ACADVER'],
+    [1, 'AC1009'],
+    [0, 'ENDSEC'],
+    [0, 'SECTION'],
+    [2, 'TABLES'],
+    // R12 readers expect every linetype a layer uses to be defined
+    [0, 'TABLE'],
+    [2, 'LTYPE'],
+    [70, 1],
+    [0, 'LTYPE'],
+    [2, 'CONTINUOUS'],
+    [70, 0],
+    [3, 'Solid line'],
+    [72, 65],
+    [73, 0],
+    [40, 0],
+    [0, 'ENDTAB'],
+    [0, 'TABLE'],
+    [2, 'LAYER'],
+    [70, layers.length],
+    ...layers.flatMap(({ name, color }): DxfPair[] => [
+      [0, 'LAYER'],
+      [2, name],
+      [70, 0],
+      [62, color],
+      [6, 'CONTINUOUS'],
+    ]),
+    [0, 'ENDTAB'],
+    [0, 'ENDSEC'],
+    [0, 'SECTION'],
+    [2, 'ENTITIES'],
+    ...entities,
+    [0, 'ENDSEC'],
+    [0, 'EOF'],
+  ]
+
+  return document.map(([code, value]) => `${code}\n${formatValue(value)}`).join('\n') + '\n'
+}
@@ -0,0 +1,32 @@
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW']
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+/**
+ * Format a shading loss fraction as e.g. "12% shaded"
+ */
+export function formatShading(fraction: number): string {
+  return `${(fraction * 100).toFixed(0)}% shaded`
+}
+
+/**
+ * Format an energy amount as e.g. "4,210 kWh"
+ */
+export function formatEnergy(kWh: number): string {
+  return `${Math.round(kWh).toLocaleString('en-US')} kWh`
+}
+
+/**
+ * Format a length in meters as e.g. "9.45m", or in centimeters below one meter
+ */
+export function formatLength(meters: number): string {
+  return meters >= 1 ? `${meters.toFixed(2)}m` : `${(meters * 100).toFixed(0)}cm`
+}
+
+/**
+ * Format an azimuth in degrees as e.g. "180° S"
+ */
+export function formatAzimuth(azimuth: number): string {
+  const point = COMPASS_POINTS[Math.round(azimuth / 45) % COMPASS_POINTS.length]
+  return `${azimuth.toFixed(0)}° ${point}`
+}
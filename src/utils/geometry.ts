@@ -0,0 +1,228 @@
+import * as THREE from 'three'
+import { PLANE_WIDTH } from '../components/Canvas3D/constants'
+
+/**
+ * Signed area of a 2D polygon (shoelace formula).
+ * For points taken as (x, z) from the scene, a negative area means counter-clockwise seen from above.
+ */
+export function signedArea(points: THREE.Vector2[]): number {
+  let area = 0
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    area += a.x * b.y - b.x * a.y
+  }
+  return area / 2
+}
+
+export function isPointInPolygon(point: THREE.Vector2, polygon: THREE.Vector2[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if ((a.y > point.y) !== (b.y > point.y) &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/**
+ * Distance from point p to segment ab
+ */
+export function pointSegmentDistance(p: THREE.Vector2, a: THREE.Vector2, b: THREE.Vector2): number {
+  const ab = new THREE.Vector2().subVectors(b, a)
+  const lengthSq = ab.lengthSq()
+  if (lengthSq === 0) return p.distanceTo(a)
+  const t = Math.max(0, Math.min(1, new THREE.Vector2().subVectors(p, a).dot(ab) / lengthSq))
+  return p.distanceTo(new THREE.Vector2().copy(a).addScaledVector(ab, t))
+}
+
+/**
+ * Whether segments ab and cd cross each other (touching endpoints do not count)
+ */
+export function segmentsIntersect(a: THREE.Vector2, b: THREE.Vector2, c: THREE.Vector2, d: THREE.Vector2): boolean {
+  const cross = (o: THREE.Vector2, p: THREE.Vector2, q: THREE.Vector2) =>
+    (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x)
+  const d1 = cross(c, d, a)
+  const d2 = cross(c, d, b)
+  const d3 = cross(a, b, c)
+  const d4 = cross(a, b, d)
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))
+}
+
+/**
+ * Smallest distance between segments ab and cd
+ */
+export function segmentDistance(a: THREE.Vector2, b: THREE.Vector2, c: THREE.Vector2, d: THREE.Vector2): number {
+  if (segmentsIntersect(a, b, c, d)) return 0
+  return Math.min(
+    pointSegmentDistance(a, c, d),
+    pointSegmentDistance(b, c, d),
+    pointSegmentDistance(c, a, b),
+    pointSegmentDistance(d, a, b)
+  )
+}
+
+/**
+ * Smallest distance between the edges of two polygons
+ */
+export function polygonDistance(first: THREE.Vector2[], second: THREE.Vector2[]): number {
+  let min = Infinity
+  for (let i = 0; i < first.length; i++) {
+    const a = first[i]
+    const b = first[(i + 1) % first.length]
+    for (let j = 0; j < second.length; j++) {
+      min = Math.min(min, segmentDistance(a, b, second[j], second[(j + 1) % second.length]))
+    }
+  }
+  return min
+}
+
+/**
+ * Project scene points onto the ground plane as 2D (x, z) points
+ */
+export function toGroundPoints(points: THREE.Vector3[]): THREE.Vector2[] {
+  return points.map((p) => new THREE.Vector2(p.x, p.z))
+}
+
+/**
+ * Unnormalized Newell normal of a planar polygon; its length is twice the polygon's area
+ */
+export function newellNormal(points: THREE.Vector3[]): THREE.Vector3 {
+  const normal = new THREE.Vector3()
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    normal.x += (a.y - b.y) * (a.z + b.z)
+    normal.y += (a.z - b.z) * (a.x + b.x)
+    normal.z += (a.x - b.x) * (a.y + b.y)
+  }
+  return normal
+}
+
+/**
+ * Clip a polygon against a convex polygon (Sutherland-Hodgman).
+ * The clip polygon may have either winding.
+ */
+export function clipPolygonByConvex(subject: THREE.Vector2[], clip: THREE.Vector2[]): THREE.Vector2[] {
+  const orientation = Math.sign(signedArea(clip))
+  let result = subject
+
+  for (let i = 0; i < clip.length && result.length > 0; i++) {
+    const a = clip[i]
+    const b = clip[(i + 1) % clip.length]
+    // Positive when p lies on the inner side of edge ab
+    const side = (p: THREE.Vector2) => orientation * ((b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x))
+    const input = result
+    result = []
+
+    for (let j = 0; j < input.length; j++) {
+      const current = input[j]
+      const next = input[(j + 1) % input.length]
+      const sCurrent = side(current)
+      const sNext = side(next)
+
+      if (sCurrent >= 0) result.push(current)
+      if ((sCurrent >= 0) !== (sNext >= 0)) {
+        result.push(new THREE.Vector2().lerpVectors(current, next, sCurrent / (sCurrent - sNext)))
+      }
+    }
+  }
+
+  return result
+}
+
+// Split a simple polygon into triangles
+function triangulate(points: THREE.Vector2[]): THREE.Vector2[][] {
+  return THREE.ShapeUtils.triangulateShape(points, []).map((triangle) => triangle.map((i) => points[i]))
+}
+
+/**
+ * Area of the overlap between two simple polygons
+ */
+export function polygonIntersectionArea(first: THREE.Vector2[], second: THREE.Vector2[]): number {
+  if (first.length < 3 || second.length < 3) return 0
+
+  // Both polygons are split into convex triangles, whose pairwise overlaps add up to the total
+  const firstTriangles = triangulate(first)
+  const secondTriangles = triangulate(second)
+
+  let area = 0
+  for (const a of firstTriangles) {
+    for (const b of secondTriangles) {
+      const overlap = clipPolygonByConvex(a, b)
+      if (overlap.length >= 3) area += Math.abs(signedArea(overlap))
+    }
+  }
+  return area
+}
+
+/**
+ * Convex hull of a set of points (monotone chain), counter-clockwise in (x, y)
+ */
+export function convexHull(points: THREE.Vector2[]): THREE.Vector2[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y)
+  if (sorted.length < 3) return sorted
+
+  const cross = (o: THREE.Vector2, a: THREE.Vector2, b: THREE.Vector2) =>
+    (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+  const halfHull = (ordered: THREE.Vector2[]) => {
+    const hull: THREE.Vector2[] = []
+    for (const point of ordered) {
+      while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], point) <= 0) hull.pop()
+      hull.push(point)
+    }
+    hull.pop()
+    return hull
+  }
+
+  return [...halfHull(sorted), ...halfHull([...sorted].reverse())]
+}
+
+/**
+ * Three.js units per meter on the image plane, or null until the image scale is known.
+ * unitsPerMeter = planeWidth * pixelsPerMeter / imageWidth
+ */
+export function getUnitsPerMeter(
+  pixelsPerMeter: number | null | undefined,
+  imageWidth: number | null | undefined,
+  planeWidth: number = PLANE_WIDTH
+): number | null {
+  return pixelsPerMeter && imageWidth ? (planeWidth * pixelsPerMeter) / imageWidth : null
+}
+
+/**
+ * Bearing of the edge from start to end in degrees clockwise from north (the scene's -Z axis), in [0, 360)
+ */
+export function getBearing(start: THREE.Vector3, end: THREE.Vector3): number {
+  const bearing = THREE.MathUtils.radToDeg(Math.atan2(end.x - start.x, start.z - end.z))
+  return (bearing + 360) % 360
+}
+
+/**
+ * Move the end point of edge edgeIndex along the edge so it gets the given length (in Three.js units).
+ * The start point and every other point stay in place.
+ */
+export function setEdgeLength(points: THREE.Vector3[], edgeIndex: number, length: number): THREE.Vector3[] {
+  const start = points[edgeIndex]
+  const endIndex = (edgeIndex + 1) % points.length
+  const direction = new THREE.Vector3(points[endIndex].x - start.x, 0, points[endIndex].z - start.z)
+  if (direction.lengthSq() === 0) return points
+  direction.normalize()
+  return points.map((p, i) => (i === endIndex ? new THREE.Vector3(start.x + direction.x * length, p.y, start.z + direction.z * length) : p))
+}
+
+/**
+ * Turn edge edgeIndex around its start point to the given bearing (degrees clockwise from north), keeping its length
+ */
+export function setEdgeBearing(points: THREE.Vector3[], edgeIndex: number, bearing: number): THREE.Vector3[] {
+  const start = points[edgeIndex]
+  const endIndex = (edgeIndex + 1) % points.length
+  const length = Math.hypot(points[endIndex].x - start.x, points[endIndex].z - start.z)
+  const angle = THREE.MathUtils.degToRad(bearing)
+  return points.map((p, i) =>
+    i === endIndex ? new THREE.Vector3(start.x + Math.sin(angle) * length, p.y, start.z - Math.cos(angle) * length) : p
+  )
+}
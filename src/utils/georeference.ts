@@ -0,0 +1,281 @@
+import * as THREE from 'three'
+import type { Polygon, Building, PolygonKind } from '../components/Canvas3D/types'
+import { PLANE_WIDTH, COLORS, OBSTRUCTION_COLOR } from '../components/Canvas3D/constants'
+import { cleanupPolygon } from './cleanup'
+
+/**
+ * Ground-control transform of the image: where it lies on the earth, how it is turned and its scale
+ */
+export interface Georeference {
+  /** Latitude of the image center in WGS84 degrees */
+  latitude: number
+  /** Longitude of the image center in WGS84 degrees */
+  longitude: number
+  /** Bearing of the image's up direction, degrees clockwise from true north (0 when north is up) */
+  rotation: number
+  /** Ground size of one image pixel in meters */
+  metersPerPixel: number
+}
+
+/**
+ * A pixel of the image with its known position on the earth
+ */
+export interface GroundControlPoint {
+  /** Pixel column and row, from the top-left corner of the image */
+  pixel: [number, number]
+  latitude: number
+  longitude: number
+}
+
+export type GeoJSONPosition = [number, number] | [number, number, number]
+
+export interface GeoJSONGeometry {
+  type: 'Polygon' | 'MultiPolygon' | 'Point' | 'LineString' | 'MultiPoint' | 'MultiLineString'
+  coordinates: unknown
+}
+
+export interface GeoJSONFeature {
+  type: 'Feature'
+  geometry: GeoJSONGeometry | null
+  properties: Record<string, unknown> | null
+  id?: string | number
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection'
+  features: GeoJSONFeature[]
+}
+
+// WGS84 equatorial radius in meters; a local tangent plane is accurate to centimeters over a roof
+const EARTH_RADIUS = 6378137
+
+// Meters per Three.js unit on the image plane
+function getMetersPerUnit(georeference: Georeference, imageWidth: number): number {
+  return (georeference.metersPerPixel * imageWidth) / PLANE_WIDTH
+}
+
+// East and north offsets in meters from a reference position to another
+function toLocalMeters(latitude: number, longitude: number, origin: { latitude: number; longitude: number }): [number, number] {
+  const east = THREE.MathUtils.degToRad(longitude - origin.longitude) * EARTH_RADIUS * Math.cos(THREE.MathUtils.degToRad(origin.latitude))
+  const north = THREE.MathUtils.degToRad(latitude - origin.latitude) * EARTH_RADIUS
+  return [east, north]
+}
+
+function fromLocalMeters(east: number, north: number, origin: { latitude: number; longitude: number }): [number, number] {
+  const latitude = origin.latitude + THREE.MathUtils.radToDeg(north / EARTH_RADIUS)
+  const longitude = origin.longitude + THREE.MathUtils.radToDeg(east / (EARTH_RADIUS * Math.cos(THREE.MathUtils.degToRad(origin.latitude))))
+  return [latitude, longitude]
+}
+
+/**
+ * Fit the image transform to two or more ground control points (least-squares similarity transform).
+ * Throws when fewer than two distinct points are given.
+ */
+export function createGeoreference(points: GroundControlPoint[], imageWidth: number, imageHeight: number): Georeference {
+  if (points.length < 2) {
+    throw new Error('At least two ground control points are needed')
+  }
+
+  // Image offsets with y pointing up, and ground offsets in meters around the first point
+  const image = points.map(({ pixel }) => [pixel[0], -pixel[1]])
+  const ground = points.map(({ latitude, longitude }) => toLocalMeters(latitude, longitude, points[0]))
+
+  const mean = (values: number[][], axis: number) => values.reduce((sum, v) => sum + v[axis], 0) / values.length
+  const imageMean = [mean(image, 0), mean(image, 1)]
+  const groundMean = [mean(ground, 0), mean(ground, 1)]
+
+  // ground = a * image + b as complex numbers (x + iy), solved for a
+  let re = 0
+  let im = 0
+  let norm = 0
+  for (let i = 0; i < points.length; i++) {
+    const zx = image[i][0] - imageMean[0]
+    const zy = image[i][1] - imageMean[1]
+    const wx = ground[i][0] - groundMean[0]
+    const wy = ground[i][1] - groundMean[1]
+    re += wx * zx + wy * zy
+    im += wy * zx - wx * zy
+    norm += zx * zx + zy * zy
+  }
+  if (norm === 0) {
+    throw new Error('Ground control points must be at different pixels')
+  }
+  re /= norm
+  im /= norm
+
+  // Ground position of the image center
+  const cx = imageWidth / 2 - imageMean[0]
+  const cy = -imageHeight / 2 - imageMean[1]
+  const [latitude, longitude] = fromLocalMeters(
+    re * cx - im * cy + groundMean[0],
+    im * cx + re * cy + groundMean[1],
+    points[0]
+  )
+
+  return {
+    latitude,
+    longitude,
+    rotation: (((-THREE.MathUtils.radToDeg(Math.atan2(im, re))) % 360) + 360) % 360,
+    metersPerPixel: Math.hypot(re, im),
+  }
+}
+
+/**
+ * Convert a point on the image plane to [longitude, latitude] in WGS84
+ */
+export function sceneToGeo(point: THREE.Vector3, georeference: Georeference, imageWidth: number): [number, number] {
+  const metersPerUnit = getMetersPerUnit(georeference, imageWidth)
+  // Offsets along the image's right and up directions (-Z is up on the image)
+  const right = point.x * metersPerUnit
+  const up = -point.z * metersPerUnit
+
+  const rotation = THREE.MathUtils.degToRad(georeference.rotation)
+  const east = right * Math.cos(rotation) + up * Math.sin(rotation)
+  const north = -right * Math.sin(rotation) + up * Math.cos(rotation)
+
+  const [latitude, longitude] = fromLocalMeters(east, north, georeference)
+  return [longitude, latitude]
+}
+
+/**
+ * Convert [longitude, latitude] in WGS84 to a point on the image plane
+ */
+export function geoToScene(position: GeoJSONPosition, georeference: Georeference, imageWidth: number): THREE.Vector3 {
+  const metersPerUnit = getMetersPerUnit(georeference, imageWidth)
+  const [east, north] = toLocalMeters(position[1], position[0], georeference)
+
+  const rotation = THREE.MathUtils.degToRad(georeference.rotation)
+  const right = east * Math.cos(rotation) - north * Math.sin(rotation)
+  const up = east * Math.sin(rotation) + north * Math.cos(rotation)
+
+  return new THREE.Vector3(right / metersPerUnit, 0, -up / metersPerUnit)
+}
+
+// Closed ring, counter-clockwise as GeoJSON (RFC 7946) expects for exterior rings
+function toRing(points: THREE.Vector3[], georeference: Georeference, imageWidth: number): GeoJSONPosition[] {
+  const ring = points.map((point) => sceneToGeo(point, georeference, imageWidth))
+  let signedArea = 0
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i]
+    const [x2, y2] = ring[(i + 1) % ring.length]
+    signedArea += x1 * y2 - x2 * y1
+  }
+  if (signedArea < 0) ring.reverse()
+  return [...ring, ring[0]]
+}
+
+/**
+ * Export polygons and building footprints as a GeoJSON FeatureCollection in WGS84.
+ * Polygons carry their id, kind and color; footprints carry their polygon id, roof shape and height in meters.
+ */
+export function exportGeoJSON(
+  polygons: Polygon[],
+  buildings: Building[],
+  georeference: Georeference,
+  imageWidth: number
+): GeoJSONFeatureCollection {
+  const metersPerUnit = getMetersPerUnit(georeference, imageWidth)
+  const features: GeoJSONFeature[] = []
+
+  for (const polygon of polygons) {
+    if (polygon.points.length < 3) continue
+    features.push({
+      type: 'Feature',
+      id: polygon.id,
+      geometry: { type: 'Polygon', coordinates: [toRing(polygon.points, georeference, imageWidth)] },
+      properties: {
+        type: 'polygon',
+        kind: polygon.kind ?? 'roof',
+        color: polygon.color,
+        ...(polygon.kind === 'obstruction' && {
+          height: (polygon.obstructionHeight ?? 0) * metersPerUnit,
+          setback: (polygon.obstructionSetback ?? 0) * metersPerUnit,
+        }),
+      },
+    })
+  }
+
+  for (const building of buildings) {
+    if (building.points.length < 3) continue
+    features.push({
+      type: 'Feature',
+      id: building.id,
+      geometry: { type: 'Polygon', coordinates: [toRing(building.points, georeference, imageWidth)] },
+      properties: {
+        type: 'building',
+        polygonId: building.polygonId,
+        color: building.color,
+        height: building.height * metersPerUnit,
+        roofType: building.roofType ?? 'flat',
+        roofPitch: building.roofPitch,
+      },
+    })
+  }
+
+  return { type: 'FeatureCollection', features }
+}
+
+/**
+ * Place GeoJSON footprints (Polygon and MultiPolygon exterior rings) on the image plane as new polygons.
+ * Features with a kind of 'obstruction' become keep-out zones; other geometry types are ignored.
+ * Outlines are cleaned up like drawn ones (see cleanupPolygon).
+ */
+export function importGeoJSON(
+  geojson: GeoJSONFeatureCollection | GeoJSONFeature | GeoJSONGeometry,
+  georeference: Georeference,
+  imageWidth: number
+): Polygon[] {
+  const metersPerUnit = getMetersPerUnit(georeference, imageWidth)
+  const features: GeoJSONFeature[] =
+    geojson.type === 'FeatureCollection'
+      ? geojson.features
+      : geojson.type === 'Feature'
+        ? [geojson]
+        : [{ type: 'Feature', geometry: geojson, properties: null }]
+
+  const polygons: Polygon[] = []
+
+  for (const feature of features) {
+    const geometry = feature.geometry
+    if (!geometry) continue
+
+    const rings =
+      geometry.type === 'Polygon'
+        ? [(geometry.coordinates as GeoJSONPosition[][])[0]]
+        : geometry.type === 'MultiPolygon'
+          ? (geometry.coordinates as GeoJSONPosition[][][]).map((parts) => parts[0])
+          : []
+
+    const properties = feature.properties ?? {}
+    const kind: PolygonKind = properties.kind === 'obstruction' ? 'obstruction' : 'roof'
+
+    for (const ring of rings) {
+      if (!ring) continue
+      const points = ring.map((position) => geoToScene(position, georeference, imageWidth))
+      // Rings repeat the first position at the end
+      if (points.length > 1 && points[0].distanceTo(points[points.length - 1]) < 1e-9) points.pop()
+      if (points.length < 3) continue
+
+      const polygon: Polygon = {
+        id: crypto.randomUUID(),
+        points,
+        color:
+          typeof properties.color === 'string'
+            ? properties.color
+            : kind === 'obstruction'
+              ? OBSTRUCTION_COLOR
+              : COLORS[polygons.length % COLORS.length],
+        lines: [],
+        kind,
+      }
+      if (kind === 'obstruction') {
+        if (typeof properties.height === 'number') polygon.obstructionHeight = properties.height / metersPerUnit
+        if (typeof properties.setback === 'number') polygon.obstructionSetback = properties.setback / metersPerUnit
+      }
+      // GeoJSON exterior rings are wound either way, and traced footprints often carry doubled corners
+      polygons.push(cleanupPolygon(polygon))
+    }
+  }
+
+  return polygons
+}
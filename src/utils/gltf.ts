@@ -0,0 +1,127 @@
+import * as THREE from 'three'
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js'
+import type { Polygon, Building, PanelArray } from '../components/Canvas3D/types'
+import { PLANE_WIDTH, PANEL_COLOR } from '../components/Canvas3D/constants'
+import { getBuildingRoof, getRoofTriangles, getWallTriangles, applyAerialUVs } from './roof'
+import { buildObstruction, getObstructionTriangles, isObstruction } from './obstructions'
+import { getPanelTriangles } from './panels'
+
+export interface GltfExportOptions {
+  polygons: Polygon[]
+  buildings: Building[]
+  panelArrays?: PanelArray[]
+  /** Aerial image mapped onto the roofs and the ground plane */
+  imageUrl?: string | null
+  /** Image width divided by its height (default: 1) */
+  aspectRatio?: number
+  /** Add the aerial image as a ground plane (default: true) */
+  includeGround?: boolean
+  /** Three.js units per meter; when given the model is scaled to meters */
+  unitsPerMeter?: number
+}
+
+function createMesh(positions: number[], material: THREE.Material, name: string): THREE.Mesh {
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
+  geometry.computeVertexNormals()
+  const mesh = new THREE.Mesh(geometry, material)
+  mesh.name = name
+  return mesh
+}
+
+/**
+ * Build a standalone scene with the buildings, roof faces, obstructions and panels, ready for export.
+ * Hidden buildings and polygons are left out.
+ */
+export async function buildExportScene(options: GltfExportOptions): Promise<THREE.Scene> {
+  const { polygons, buildings, panelArrays = [], imageUrl, aspectRatio = 1, includeGround = true, unitsPerMeter } = options
+
+  let texture: THREE.Texture | null = null
+  if (imageUrl) {
+    texture = await new THREE.TextureLoader().loadAsync(imageUrl)
+    texture.colorSpace = THREE.SRGBColorSpace
+  }
+
+  const scene = new THREE.Scene()
+  const root = new THREE.Group()
+  root.name = 'roof-model'
+  if (unitsPerMeter) root.scale.setScalar(1 / unitsPerMeter)
+  scene.add(root)
+
+  const roofMaterial = texture
+    ? new THREE.MeshStandardMaterial({ map: texture, side: THREE.DoubleSide })
+    : null
+
+  for (const building of buildings) {
+    if (building.visible === false) continue
+    const roof = getBuildingRoof(building, polygons)
+    const wallMaterial = new THREE.MeshStandardMaterial({ color: building.color, side: THREE.DoubleSide })
+
+    const group = new THREE.Group()
+    group.name = `building-${building.id}`
+    group.add(createMesh(getWallTriangles(roof), wallMaterial, 'walls'))
+
+    const roofMesh = createMesh(getRoofTriangles(roof).positions, roofMaterial ?? wallMaterial, 'roof')
+    if (texture) applyAerialUVs(roofMesh.geometry, aspectRatio)
+    group.add(roofMesh)
+
+    root.add(group)
+  }
+
+  for (const polygon of polygons) {
+    if (!isObstruction(polygon) || polygon.visible === false || !(polygon.obstructionHeight ?? 0)) continue
+    const material = new THREE.MeshStandardMaterial({ color: polygon.color, side: THREE.DoubleSide })
+    root.add(createMesh(getObstructionTriangles(buildObstruction(polygon, buildings, polygons)), material, `obstruction-${polygon.id}`))
+  }
+
+  const panelMaterial = new THREE.MeshStandardMaterial({ color: PANEL_COLOR, metalness: 0.3, roughness: 0.4, side: THREE.DoubleSide })
+  for (const panelArray of panelArrays) {
+    root.add(createMesh(getPanelTriangles(panelArray.panels), panelMaterial, `panel-array-${panelArray.id}`))
+  }
+
+  if (includeGround && texture) {
+    const ground = new THREE.Mesh(
+      new THREE.PlaneGeometry(PLANE_WIDTH, PLANE_WIDTH / aspectRatio),
+      new THREE.MeshStandardMaterial({ map: texture })
+    )
+    ground.name = 'ground'
+    ground.rotation.x = -Math.PI / 2
+    root.add(ground)
+  }
+
+  return scene
+}
+
+/**
+ * Release the geometry, materials and texture of a scene built by buildExportScene
+ */
+export function disposeExportScene(scene: THREE.Scene): void {
+  scene.traverse((object) => {
+    if (object instanceof THREE.Mesh) {
+      object.geometry.dispose()
+      if (object.material instanceof THREE.MeshStandardMaterial) {
+        object.material.map?.dispose()
+        object.material.dispose()
+      }
+    }
+  })
+}
+
+/**
+ * Export the buildings, roof faces and panels as a binary glTF (GLB) file
+ */
+export async function exportGLB(options: GltfExportOptions): Promise<ArrayBuffer> {
+  const scene = await buildExportScene(options)
+  let result: ArrayBuffer | { [key: string]: unknown }
+  try {
+    result = await new GLTFExporter().parseAsync(scene, { binary: true })
+  } finally {
+    // The scene was only built for the file, so free it even when the export fails
+    disposeExportScene(scene)
+  }
+
+  if (!(result instanceof ArrayBuffer)) {
+    throw new Error('glTF exporter did not return binary data')
+  }
+  return result
+}
@@ -0,0 +1,57 @@
+import * as THREE from 'three'
+import type { HeatmapData, HeatmapMode } from '../components/Canvas3D/types'
+import { getPeriodInsolation } from './shading'
+import type { ShadingAnalysis } from './shading'
+
+// Color ramp from little (blue) to plenty (red) of sunlight
+const HEATMAP_STOPS = ['#313695', '#4575b4', '#74add1', '#fee090', '#f46d43', '#a50026']
+
+/** Color of surfaces that have not been analyzed yet */
+export const HEATMAP_NO_DATA_COLOR = '#9ca3af'
+
+/** CSS gradient matching getHeatmapColor, for legends */
+export const HEATMAP_GRADIENT = `linear-gradient(to right, ${HEATMAP_STOPS.join(', ')})`
+
+/**
+ * Color of a value on the heatmap ramp, scaled between the lowest and highest value shown
+ */
+export function getHeatmapColor(value: number, min: number, max: number): THREE.Color {
+  const normalized = max > min ? (value - min) / (max - min) : 1
+  const t = Math.min(1, Math.max(0, normalized)) * (HEATMAP_STOPS.length - 1)
+  const index = Math.min(Math.floor(t), HEATMAP_STOPS.length - 2)
+  return new THREE.Color(HEATMAP_STOPS[index]).lerp(new THREE.Color(HEATMAP_STOPS[index + 1]), t - index)
+}
+
+/**
+ * Insolation of every roof face and panel for a heatmap period, with the range shared by all of them
+ */
+export function buildHeatmapData(
+  shading: ShadingAnalysis,
+  mode: Exclude<HeatmapMode, 'off'>,
+  latitude: number
+): HeatmapData {
+  const roofFaces = new Map<string, number[]>()
+  const panels = new Map<string, number[]>()
+  const values: number[] = []
+
+  for (const face of shading.roofFaces) {
+    const insolation = getPeriodInsolation(face.profile, mode, latitude)
+    const faces = roofFaces.get(face.buildingId) ?? []
+    faces[face.faceIndex] = insolation
+    roofFaces.set(face.buildingId, faces)
+    values.push(insolation)
+  }
+
+  for (const array of shading.panelArrays) {
+    const insolation = array.panels.map((profile) => getPeriodInsolation(profile, mode, latitude))
+    panels.set(array.panelArrayId, insolation)
+    values.push(...insolation)
+  }
+
+  return {
+    roofFaces,
+    panels,
+    min: values.length > 0 ? Math.min(...values) : 0,
+    max: values.length > 0 ? Math.max(...values) : 0,
+  }
+}
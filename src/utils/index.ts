@@ -0,0 +1,59 @@
+export { buildRoof, getBuildingRoof, applyAerialUVs, splitFootprint, measureRoofFace } from './roof'
+export type { RoofGeometryData } from './roof'
+export { layoutPanels, getSurfaceFrame } from './panels'
+export type { SurfaceFrame, KeepOutZone } from './panels'
+export { isObstruction, getSurfaceHeightAt, buildObstruction, getKeepOutZones, getObstructedArea } from './obstructions'
+export type { ObstructionGeometry } from './obstructions'
+export { getSunDirection, buildShadingOccluder, analyzeSurfaceShading, analyzeShading, analyzeShadingAsync, getPeriodInsolation } from './shading'
+export type { ShadingOptions, ShadingProfile, ShadingAnalysis, RoofFaceShading, PanelArrayShading, InsolationPeriod } from './shading'
+export { getClearSkyIrradiance, getPlaneOfArrayIrradiance } from './irradiance'
+export type { SkyIrradiance, PlaneOfArrayIrradiance } from './irradiance'
+export { getHeatmapColor, buildHeatmapData } from './heatmap'
+export { getSurfaceNormal, estimateYield, estimatePanelArrayYields } from './yield'
+export type { YieldOptions, YieldEstimate, PanelArrayYield } from './yield'
+export { parseTmyCsv, loadTmyFile, getWeatherHours } from './tmy'
+export type { WeatherData, WeatherRecord, WeatherHour, ParseTmyOptions } from './tmy'
+export { serializeProject, deserializeProject, readImageAsDataUrl, PROJECT_FORMAT, PROJECT_VERSION } from './project'
+export type { ProjectData, ProjectDocument } from './project'
+export { createGeoreference, sceneToGeo, geoToScene, exportGeoJSON, importGeoJSON } from './georeference'
+export type {
+  Georeference,
+  GroundControlPoint,
+  GeoJSONPosition,
+  GeoJSONGeometry,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+} from './georeference'
+export { buildExportScene, disposeExportScene, exportGLB } from './gltf'
+export type { GltfExportOptions } from './gltf'
+export { exportDXF, DXF_LAYERS } from './dxf'
+export type { DxfExportOptions } from './dxf'
+export { buildProposalReport, captureTopView } from './report'
+export type { ProposalReportOptions, TopViewOptions } from './report'
+export { snapPoint, DEFAULT_SNAP_SETTINGS } from './snapping'
+export type { SnapKind, SnapSettings, SnapContext, SnapResult } from './snapping'
+export { orthogonalizePoints, orthogonalizePolygons, getDominantOrientation } from './orthogonalize'
+export type { OrthogonalizeOptions } from './orthogonalize'
+export { findLinkedVertices, findSharedEdges, moveVertices, insertPointOnEdge, VERTEX_LINK_TOLERANCE } from './topology'
+export type { VertexRef, EdgeRef } from './topology'
+export {
+  EMPTY_SELECTION,
+  isSelectionEmpty,
+  updateSelection,
+  getSelectedPolygonIds,
+  getSelectedVertices,
+  getSelectionCenter,
+  transformVertices,
+  transformPanelArrays,
+  findInScreenRect,
+} from './selection'
+export type { SelectionMode, ScreenRect } from './selection'
+export { copyPolygons, pastePolygons } from './clipboard'
+export type { ClipboardContent } from './clipboard'
+export { unionPolygons, subtractPolygon, splitPolygon, splitPolygonAlongLine, copyBuildingsToPieces } from './boolean'
+export { validatePolygon, validatePolygons, DEFAULT_VALIDATION_TOLERANCE } from './validation'
+export type { PolygonIssue, PolygonIssueKind, PolygonIssueSeverity, ValidationOptions } from './validation'
+export { cleanupPolygon, cleanupPolygons } from './cleanup'
+export type { CleanupOptions, CleanupPolygonsOptions } from './cleanup'
+export { getPolygonStats, getProjectStats } from './stats'
+export type { AreaStatsOptions, PolygonStats, ProjectStats } from './stats'
@@ -0,0 +1,74 @@
+import * as THREE from 'three'
+
+/**
+ * Solar irradiance from the sky at one moment, in W/m²
+ */
+export interface SkyIrradiance {
+  /** Direct normal irradiance */
+  beam: number
+  /** Diffuse horizontal irradiance */
+  diffuse: number
+  /** Global horizontal irradiance, when measured; otherwise derived from the beam and diffuse parts */
+  global?: number
+}
+
+/**
+ * Irradiance reaching a tilted surface, in W/m²
+ */
+export interface PlaneOfArrayIrradiance {
+  /** Direct sunlight, before shading */
+  beam: number
+  /** Diffuse light from the part of the sky the surface faces */
+  diffuse: number
+  /** Light reflected by the ground in front of the surface */
+  reflected: number
+}
+
+// Fraction of global irradiance reflected by the ground
+const DEFAULT_ALBEDO = 0.2
+
+function getDayOfYear(date: Date): number {
+  return Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 0)) / 86400000)
+}
+
+/**
+ * Clear-sky irradiance using the ASHRAE model: the beam is attenuated by the air mass,
+ * and the diffuse part is a seasonal fraction of the beam.
+ * altitude is the sun altitude in radians.
+ */
+export function getClearSkyIrradiance(date: Date, altitude: number): SkyIrradiance {
+  if (altitude <= 0) return { beam: 0, diffuse: 0 }
+
+  const season = (2 * Math.PI) / 365
+  const day = getDayOfYear(date)
+  // Apparent extraterrestrial flux, optical depth and sky diffuse factor
+  const flux = 1160 + 75 * Math.sin(season * (day - 275))
+  const depth = 0.174 + 0.035 * Math.sin(season * (day - 100))
+  const skyFactor = 0.095 + 0.04 * Math.sin(season * (day - 100))
+
+  const airMass = 1 / Math.sin(altitude)
+  const beam = flux * Math.exp(-depth * airMass)
+
+  return { beam, diffuse: skyFactor * beam }
+}
+
+/**
+ * Transpose sky irradiance onto a surface with an isotropic sky and ground.
+ * sunDirection points towards the sun and normal is the upward surface normal, both unit vectors in scene coordinates.
+ */
+export function getPlaneOfArrayIrradiance(
+  sky: SkyIrradiance,
+  sunDirection: THREE.Vector3,
+  normal: THREE.Vector3,
+  albedo = DEFAULT_ALBEDO
+): PlaneOfArrayIrradiance {
+  // Cosine of the tilt angle, 1 for a flat surface
+  const cosTilt = Math.min(1, Math.max(-1, normal.y))
+  const global = sky.global ?? sky.beam * Math.max(0, sunDirection.y) + sky.diffuse
+
+  return {
+    beam: sky.beam * Math.max(0, normal.dot(sunDirection)),
+    diffuse: sky.diffuse * ((1 + cosTilt) / 2),
+    reflected: albedo * global * ((1 - cosTilt) / 2),
+  }
+}
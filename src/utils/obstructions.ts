@@ -0,0 +1,148 @@
+import * as THREE from 'three'
+import type { Polygon, Building } from '../components/Canvas3D/types'
+import type { KeepOutZone } from './panels'
+import { getSurfaceFrame, toSurfaceCoordinates, projectOntoSurface } from './panels'
+import { convexHull, isPointInPolygon, newellNormal, polygonIntersectionArea, toGroundPoints } from './geometry'
+import { getBuildingRoof } from './roof'
+import { unionPolygons } from './boolean'
+
+// Segments of the circle that approximates the setback around each obstruction corner
+const SETBACK_SEGMENTS = 16
+
+export interface ObstructionGeometry {
+  /** Outline where the obstruction meets the roof (or the ground) */
+  base: THREE.Vector3[]
+  /** Flat top outline, obstructionHeight above the highest base point */
+  top: THREE.Vector3[]
+}
+
+export function isObstruction(polygon: Polygon): boolean {
+  return polygon.kind === 'obstruction'
+}
+
+/**
+ * Height of the highest roof surface above a ground position, or 0 when no building covers it
+ */
+export function getSurfaceHeightAt(x: number, z: number, buildings: Building[], polygons: Polygon[]): number {
+  const point = new THREE.Vector2(x, z)
+  let height = 0
+
+  for (const building of buildings) {
+    const { vertices, faces } = getBuildingRoof(building, polygons)
+    for (const face of faces) {
+      const facePoints = face.vertexIndices.map((i) => vertices[i])
+      if (!isPointInPolygon(point, toGroundPoints(facePoints))) continue
+
+      const normal = newellNormal(facePoints)
+      if (Math.abs(normal.y) < 1e-9) continue
+      const origin = facePoints[0]
+      const y = origin.y - (normal.x * (x - origin.x) + normal.z * (z - origin.z)) / normal.y
+      height = Math.max(height, y)
+    }
+  }
+
+  return height
+}
+
+/**
+ * Place an obstruction polygon on the surface below it
+ */
+export function buildObstruction(polygon: Polygon, buildings: Building[], polygons: Polygon[]): ObstructionGeometry {
+  const base = polygon.points.map((p) => new THREE.Vector3(p.x, getSurfaceHeightAt(p.x, p.z, buildings, polygons), p.z))
+  const topHeight = Math.max(0, ...base.map((p) => p.y)) + (polygon.obstructionHeight ?? 0)
+  const top = base.map((p) => new THREE.Vector3(p.x, topHeight, p.z))
+  return { base, top }
+}
+
+/**
+ * Keep-out zones for panel placement from the obstruction polygons
+ */
+export function getKeepOutZones(polygons: Polygon[]): KeepOutZone[] {
+  return polygons.filter(isObstruction).map((polygon) => ({
+    points: polygon.points,
+    setback: polygon.obstructionSetback ?? 0,
+  }))
+}
+
+// Keep-out zone grown by its setback, as the hull of circles around its corners (exact for convex zones)
+function growZone(outline: THREE.Vector2[], setback: number): THREE.Vector2[] {
+  if (setback <= 0) return outline
+  const circle = Array.from({ length: SETBACK_SEGMENTS }, (_, k) => {
+    const angle = (2 * Math.PI * k) / SETBACK_SEGMENTS
+    return new THREE.Vector2(Math.cos(angle) * setback, Math.sin(angle) * setback)
+  })
+  return convexHull(outline.flatMap((point) => circle.map((offset) => point.clone().add(offset))))
+}
+
+// Polygon in the (x, z) plane for a zone outline in surface coordinates, so the polygon operations apply
+function toZonePolygon(outline: THREE.Vector2[]): Polygon {
+  return { id: '', color: '', lines: [], points: outline.map((p) => new THREE.Vector3(p.x, 0, p.y)) }
+}
+
+/**
+ * Grown zones merged wherever they overlap or touch, so no part of the surface is counted twice. Zones
+ * that would enclose a gap between them can't be merged, since polygons can't have holes, and stay apart.
+ */
+function mergeZones(outlines: THREE.Vector2[][]): THREE.Vector2[][] {
+  const merged: Polygon[] = []
+  for (const outline of outlines) {
+    let zone = toZonePolygon(outline)
+    // A merged zone may reach zones it missed before, so start over after every merge
+    for (let i = 0; i < merged.length; ) {
+      const union = unionPolygons(zone, merged[i])
+      if (union) {
+        zone = union
+        merged.splice(i, 1)
+        i = 0
+      } else {
+        i++
+      }
+    }
+    merged.push(zone)
+  }
+  return merged.map((zone) => zone.points.map((p) => new THREE.Vector2(p.x, p.z)))
+}
+
+/**
+ * Sloped area of a planar surface that modules must keep clear of: the obstructions and their setback
+ * buffers, measured along the surface like in layoutPanels. In Three.js units squared. Overlapping
+ * obstructions and buffers count once; the buffer around a concave obstruction follows its convex hull.
+ */
+export function getObstructedArea(surface: THREE.Vector3[], polygons: Polygon[]): number {
+  if (surface.length < 3) return 0
+
+  const frame = getSurfaceFrame(surface)
+  if (Math.abs(frame.normal.y) < 1e-6) return 0
+
+  const outline = surface.map((p) => toSurfaceCoordinates(p, frame))
+  const zones = getKeepOutZones(polygons)
+    .filter((zone) => zone.points.length >= 3)
+    .map((zone) => {
+      const zoneOutline = zone.points.map((p) => toSurfaceCoordinates(projectOntoSurface(p, frame), frame))
+      return growZone(zoneOutline, zone.setback)
+    })
+  return mergeZones(zones).reduce((sum, zone) => sum + polygonIntersectionArea(outline, zone), 0)
+}
+
+/**
+ * Triangulate the obstruction walls and flat top into a flat list of positions
+ */
+export function getObstructionTriangles({ base, top }: ObstructionGeometry): number[] {
+  const positions: number[] = []
+
+  for (let i = 0; i < base.length; i++) {
+    const next = (i + 1) % base.length
+    const [b1, b2, t1, t2] = [base[i], base[next], top[i], top[next]]
+    positions.push(
+      b1.x, b1.y, b1.z, b2.x, b2.y, b2.z, t2.x, t2.y, t2.z,
+      b1.x, b1.y, b1.z, t2.x, t2.y, t2.z, t1.x, t1.y, t1.z
+    )
+  }
+
+  const contour = top.map((p) => new THREE.Vector2(p.x, -p.z))
+  for (const triangle of THREE.ShapeUtils.triangulateShape(contour, [])) {
+    triangle.forEach((i) => positions.push(top[i].x, top[i].y, top[i].z))
+  }
+
+  return positions
+}
@@ -0,0 +1,136 @@
+import * as THREE from 'three'
+import type { Polygon } from '../components/Canvas3D/types'
+import { findLinkedVertices, moveVertices } from './topology'
+
+export interface OrthogonalizeOptions {
+  /** Edges within this many degrees of the dominant axes are squared; others are kept (default: 15) */
+  maxDeviation?: number
+  /** Move corners shared with other polygons along (default: true) */
+  shareVertices?: boolean
+}
+
+const DEFAULT_MAX_DEVIATION = 15
+const PARALLEL_EPSILON = 1e-9
+
+// Signed area (shoelace) and area centroid in the XZ plane
+function getAreaAndCentroid(points: THREE.Vector2[]): { area: number; centroid: THREE.Vector2 } {
+  let area = 0
+  let cx = 0
+  let cy = 0
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    const cross = a.x * b.y - b.x * a.y
+    area += cross
+    cx += (a.x + b.x) * cross
+    cy += (a.y + b.y) * cross
+  }
+  area /= 2
+  if (Math.abs(area) < PARALLEL_EPSILON) {
+    const centroid = points.reduce((sum, p) => sum.add(p), new THREE.Vector2()).divideScalar(points.length)
+    return { area, centroid }
+  }
+  return { area, centroid: new THREE.Vector2(cx / (6 * area), cy / (6 * area)) }
+}
+
+/**
+ * Dominant orientation of the outline in radians, modulo 90°: the length-weighted mean
+ * of the edge directions, with directions 90° apart counted as the same.
+ */
+export function getDominantOrientation(points: THREE.Vector3[]): number {
+  let c = 0
+  let s = 0
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    const angle = Math.atan2(b.z - a.z, b.x - a.x)
+    const length = Math.hypot(b.x - a.x, b.z - a.z)
+    c += length * Math.cos(4 * angle)
+    s += length * Math.sin(4 * angle)
+  }
+  return c === 0 && s === 0 ? 0 : Math.atan2(s, c) / 4
+}
+
+/**
+ * Square a traced outline in one step. Edges close to the dominant orientation (or perpendicular to it)
+ * are turned onto it around their midpoints, other edges keep their direction, and every corner is placed
+ * where its two edges meet. The result is then scaled about the centroid to the original area and moved
+ * back onto the original centroid.
+ */
+export function orthogonalizePoints(points: THREE.Vector3[], maxDeviation: number = DEFAULT_MAX_DEVIATION): THREE.Vector3[] {
+  const count = points.length
+  if (count < 3) return points.map((p) => p.clone())
+
+  const flat = points.map((p) => new THREE.Vector2(p.x, p.z))
+  const orientation = getDominantOrientation(points)
+  const quarter = Math.PI / 2
+  const tolerance = THREE.MathUtils.degToRad(maxDeviation)
+
+  // Line of every edge: a point on it and its direction
+  const lines = flat.map((a, i) => {
+    const b = flat[(i + 1) % count]
+    const angle = Math.atan2(b.y - a.y, b.x - a.x)
+    // Deviation from the nearest dominant axis, in [-45°, 45°)
+    const deviation = ((((angle - orientation) % quarter) + quarter + quarter / 2) % quarter) - quarter / 2
+    const direction = Math.abs(deviation) <= tolerance ? angle - deviation : angle
+    return {
+      origin: new THREE.Vector2().addVectors(a, b).multiplyScalar(0.5),
+      direction: new THREE.Vector2(Math.cos(direction), Math.sin(direction)),
+    }
+  })
+
+  const project = (point: THREE.Vector2, line: (typeof lines)[number]) =>
+    line.origin.clone().addScaledVector(line.direction, new THREE.Vector2().subVectors(point, line.origin).dot(line.direction))
+
+  // Corner i joins the edge before it and the edge after it
+  const corners = flat.map((point, i) => {
+    const before = lines[(i - 1 + count) % count]
+    const after = lines[i]
+    const denominator = before.direction.cross(after.direction)
+    if (Math.abs(denominator) < PARALLEL_EPSILON) {
+      // Straight-through corner: keep it between the two lines
+      return project(point, before).add(project(point, after)).multiplyScalar(0.5)
+    }
+    const t = new THREE.Vector2().subVectors(after.origin, before.origin).cross(after.direction) / denominator
+    return before.origin.clone().addScaledVector(before.direction, t)
+  })
+
+  // Keep the area and position of the original outline
+  const original = getAreaAndCentroid(flat)
+  const squared = getAreaAndCentroid(corners)
+  const scale = Math.abs(squared.area) > PARALLEL_EPSILON ? Math.sqrt(Math.abs(original.area / squared.area)) : 1
+
+  return corners.map((corner, i) => {
+    const result = corner.sub(squared.centroid).multiplyScalar(scale).add(original.centroid)
+    return new THREE.Vector3(result.x, points[i].y, result.y)
+  })
+}
+
+/**
+ * Square the outlines of the given polygons. Polygons are processed in order; corners they share
+ * with other polygons are moved along unless shareVertices is false.
+ */
+export function orthogonalizePolygons(
+  polygons: Polygon[],
+  polygonIds: string[],
+  { maxDeviation = DEFAULT_MAX_DEVIATION, shareVertices = true }: OrthogonalizeOptions = {}
+): Polygon[] {
+  let result = polygons
+  for (const polygonId of polygonIds) {
+    const polygon = result.find((p) => p.id === polygonId)
+    if (!polygon || polygon.points.length < 3) continue
+
+    const squared = orthogonalizePoints(polygon.points, maxDeviation)
+    const linked = shareVertices
+      ? polygon.points.map((_, pointIndex) =>
+          findLinkedVertices(result, { polygonId, pointIndex }).filter((v) => v.polygonId !== polygonId)
+        )
+      : []
+
+    result = result.map((p) => (p.id === polygonId ? { ...p, points: squared } : p))
+    linked.forEach((vertices, pointIndex) => {
+      result = moveVertices(result, vertices, squared[pointIndex])
+    })
+  }
+  return result
+}
@@ -0,0 +1,182 @@
+import * as THREE from 'three'
+import type { PanelLayoutSettings, PVModule } from '../components/Canvas3D/types'
+import { PANEL_OFFSET } from '../components/Canvas3D/constants'
+import { isPointInPolygon, newellNormal, polygonDistance } from './geometry'
+
+/**
+ * Region that modules must stay clear of, such as a chimney or skylight
+ */
+export interface KeepOutZone {
+  /** Outline of the zone; only the horizontal (x, z) position is used */
+  points: THREE.Vector3[]
+  /** Extra clearance around the zone in Three.js units */
+  setback: number
+}
+
+/**
+ * Coordinate frame lying in the plane of a surface.
+ * The x axis runs horizontally (along the eaves of sloped surfaces), the y axis runs up the slope.
+ */
+export interface SurfaceFrame {
+  origin: THREE.Vector3
+  xAxis: THREE.Vector3
+  yAxis: THREE.Vector3
+  normal: THREE.Vector3
+}
+
+export function getSurfaceFrame(surface: THREE.Vector3[]): SurfaceFrame {
+  const normal = newellNormal(surface).normalize()
+  if (normal.y < 0) normal.negate()
+
+  let xAxis = new THREE.Vector3().crossVectors(new THREE.Vector3(0, 1, 0), normal)
+  if (xAxis.lengthSq() < 1e-8) {
+    // Flat surface: align rows with its longest edge
+    let longest = 0
+    for (let i = 0; i < surface.length; i++) {
+      const edge = new THREE.Vector3().subVectors(surface[(i + 1) % surface.length], surface[i])
+      if (edge.length() > longest) {
+        longest = edge.length()
+        xAxis = edge
+      }
+    }
+  }
+  xAxis.normalize()
+  const yAxis = new THREE.Vector3().crossVectors(normal, xAxis).normalize()
+
+  return { origin: surface[0].clone(), xAxis, yAxis, normal }
+}
+
+export function toSurfaceCoordinates(point: THREE.Vector3, frame: SurfaceFrame): THREE.Vector2 {
+  const offset = new THREE.Vector3().subVectors(point, frame.origin)
+  return new THREE.Vector2(offset.dot(frame.xAxis), offset.dot(frame.yAxis))
+}
+
+export function fromSurfaceCoordinates(point: THREE.Vector2, frame: SurfaceFrame): THREE.Vector3 {
+  return frame.origin
+    .clone()
+    .addScaledVector(frame.xAxis, point.x)
+    .addScaledVector(frame.yAxis, point.y)
+}
+
+/**
+ * Drop a point vertically onto the plane of the surface frame
+ */
+export function projectOntoSurface(point: THREE.Vector3, frame: SurfaceFrame): THREE.Vector3 {
+  const { origin, normal } = frame
+  const y = origin.y - (normal.x * (point.x - origin.x) + normal.z * (point.z - origin.z)) / normal.y
+  return new THREE.Vector3(point.x, y, point.z)
+}
+
+// Whether a module rectangle keeps the required distance from a keep-out zone
+function clearsKeepOut(rect: THREE.Vector2[], zone: THREE.Vector2[], setback: number): boolean {
+  const overlaps =
+    rect.some((corner) => isPointInPolygon(corner, zone)) ||
+    zone.some((point) => isPointInPolygon(point, rect))
+  if (overlaps) return false
+  const distance = polygonDistance(rect, zone)
+  return distance > 0 && distance >= setback
+}
+
+/**
+ * Fill a planar surface with a regular grid of rectangular modules.
+ * Module sizes and layout distances are in meters and are converted with unitsPerMeter.
+ * Returns the four corners of every module that fits inside the surface
+ * while keeping the setback distance from its edges and clear of the keep-out zones.
+ */
+export function layoutPanels(
+  surface: THREE.Vector3[],
+  module: PVModule,
+  settings: PanelLayoutSettings,
+  unitsPerMeter: number,
+  keepOutZones: KeepOutZone[] = []
+): THREE.Vector3[][] {
+  if (surface.length < 3 || unitsPerMeter <= 0) return []
+
+  const frame = getSurfaceFrame(surface)
+  const outline = surface.map((p) => toSurfaceCoordinates(p, frame))
+  // Vertical surfaces cannot hold modules, and zones cannot be projected onto them
+  if (Math.abs(frame.normal.y) < 1e-6) return []
+  const zones = keepOutZones
+    .filter((zone) => zone.points.length >= 3)
+    .map((zone) => ({
+      outline: zone.points.map((p) => toSurfaceCoordinates(projectOntoSurface(p, frame), frame)),
+      setback: zone.setback,
+    }))
+
+  const isPortrait = settings.orientation === 'portrait'
+  const width = (isPortrait ? module.width : module.height) * unitsPerMeter
+  const height = (isPortrait ? module.height : module.width) * unitsPerMeter
+  const columnStep = width + settings.columnSpacing * unitsPerMeter
+  const rowStep = height + settings.rowSpacing * unitsPerMeter
+  const setback = settings.setback * unitsPerMeter
+  if (width <= 0 || height <= 0) return []
+
+  const minX = Math.min(...outline.map((p) => p.x)) + setback
+  const maxX = Math.max(...outline.map((p) => p.x)) - setback
+  const minY = Math.min(...outline.map((p) => p.y)) + setback
+  const maxY = Math.max(...outline.map((p) => p.y)) - setback
+
+  // Tolerance for modules that touch the setback line exactly
+  const tolerance = Math.max(width, height) * 1e-6
+  const panels: THREE.Vector3[][] = []
+
+  for (let y = minY; y + height <= maxY + tolerance; y += rowStep) {
+    for (let x = minX; x + width <= maxX + tolerance; x += columnStep) {
+      const rect = [
+        new THREE.Vector2(x, y),
+        new THREE.Vector2(x + width, y),
+        new THREE.Vector2(x + width, y + height),
+        new THREE.Vector2(x, y + height),
+      ]
+
+      // Test a slightly inset rectangle so modules may touch the setback line (or the edge when there is no setback)
+      const inset = [
+        new THREE.Vector2(x + tolerance, y + tolerance),
+        new THREE.Vector2(x + width - tolerance, y + tolerance),
+        new THREE.Vector2(x + width - tolerance, y + height - tolerance),
+        new THREE.Vector2(x + tolerance, y + height - tolerance),
+      ]
+      const isInside = inset.every((corner) => isPointInPolygon(corner, outline))
+      const clearance = isInside ? polygonDistance(inset, outline) : 0
+
+      const isClear = zones.every((zone) => clearsKeepOut(inset, zone.outline, zone.setback))
+
+      if (clearance > 0 && clearance >= setback && isClear) {
+        panels.push(rect.map((corner) => fromSurfaceCoordinates(corner, frame)))
+      }
+    }
+  }
+
+  return panels
+}
+
+/**
+ * Corners of a module lifted slightly along its upward normal, so it does not z-fight with the surface below
+ */
+export function liftPanel(corners: THREE.Vector3[]): THREE.Vector3[] {
+  const normal = new THREE.Vector3()
+    .crossVectors(
+      new THREE.Vector3().subVectors(corners[1], corners[0]),
+      new THREE.Vector3().subVectors(corners[2], corners[0])
+    )
+    .normalize()
+  if (normal.y < 0) normal.negate()
+
+  return corners.map((p) => p.clone().addScaledVector(normal, PANEL_OFFSET))
+}
+
+/**
+ * Two triangles per module (flat position array), skipping panels with fewer than four corners
+ */
+export function getPanelTriangles(panels: THREE.Vector3[][]): number[] {
+  const positions: number[] = []
+  for (const corners of panels) {
+    if (corners.length < 4) continue
+    const [a, b, c, d] = liftPanel(corners)
+    positions.push(
+      a.x, a.y, a.z, b.x, b.y, b.z, c.x, c.y, c.z,
+      a.x, a.y, a.z, c.x, c.y, c.z, d.x, d.y, d.z
+    )
+  }
+  return positions
+}
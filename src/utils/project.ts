@@ -0,0 +1,206 @@
+import * as THREE from 'three'
+import type { Polygon, Building, PanelArray } from '../components/Canvas3D/types'
+import type { Georeference } from './georeference'
+
+/**
+ * Everything needed to restore a modeling session
+ */
+export interface ProjectData {
+  polygons: Polygon[]
+  buildings: Building[]
+  panelArrays?: PanelArray[]
+  /** Aerial image as a data URL (embedded) or a URL to load it from */
+  image?: string | null
+  pixelsPerMeter?: number | null
+  /** Ground-control transform of the image */
+  georeference?: Georeference | null
+  latitude?: number
+  longitude?: number
+  date?: Date
+  /** Time of day in hours (0-24) */
+  timeOfDay?: number
+}
+
+type SerializedPoint = [number, number, number]
+
+/**
+ * JSON shape of a saved project; points are stored as [x, y, z] in Three.js units
+ */
+export interface ProjectDocument {
+  format: typeof PROJECT_FORMAT
+  version: number
+  polygons: (Omit<Polygon, 'points'> & { points: SerializedPoint[] })[]
+  buildings: (Omit<Building, 'points' | 'roofVertices'> & { points: SerializedPoint[]; roofVertices?: SerializedPoint[] })[]
+  panelArrays: (Omit<PanelArray, 'panels'> & { panels: SerializedPoint[][] })[]
+  image: string | null
+  pixelsPerMeter: number | null
+  georeference: Georeference | null
+  latitude: number | null
+  longitude: number | null
+  /** ISO 8601 date */
+  date: string | null
+  timeOfDay: number | null
+}
+
+export const PROJECT_FORMAT = 'pv-roof-modeler'
+export const PROJECT_VERSION = 2
+
+type RawDocument = Record<string, unknown>
+
+// Upgrades a document from version n to n + 1; add an entry whenever the document shape changes
+const MIGRATIONS: Record<number, (document: RawDocument) => RawDocument> = {
+  // Unversioned documents are plain JSON.stringify output of the editor state, with points as { x, y, z }
+  0: (document) => {
+    const toTuples = (value: unknown): unknown => {
+      if (Array.isArray(value)) return value.map(toTuples)
+      if (isPointObject(value)) return [value.x, value.y, value.z]
+      return value
+    }
+    const convert = (items: unknown, keys: string[]) =>
+      Array.isArray(items)
+        ? items.map((item: RawDocument) => {
+            const converted = { ...item }
+            for (const key of keys) {
+              if (key in converted) converted[key] = toTuples(converted[key])
+            }
+            return converted
+          })
+        : []
+
+    return {
+      ...document,
+      format: PROJECT_FORMAT,
+      version: 1,
+      polygons: convert(document.polygons, ['points']),
+      buildings: convert(document.buildings ?? document.bodies, ['points', 'roofVertices']),
+      panelArrays: convert(document.panelArrays, ['panels']),
+    }
+  },
+  // Version 2 adds the georeference
+  1: (document) => ({ ...document, version: 2, georeference: null }),
+}
+
+function isPointObject(value: unknown): value is { x: number; y: number; z: number } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { x?: unknown }).x === 'number' &&
+    typeof (value as { y?: unknown }).y === 'number' &&
+    typeof (value as { z?: unknown }).z === 'number'
+  )
+}
+
+function toPoint(point: SerializedPoint): THREE.Vector3 {
+  return new THREE.Vector3(point[0], point[1], point[2])
+}
+
+function fromPoint(point: THREE.Vector3): SerializedPoint {
+  return [point.x, point.y, point.z]
+}
+
+/**
+ * Convert a project to a versioned JSON document
+ */
+export function serializeProject(project: ProjectData): string {
+  const document: ProjectDocument = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    polygons: project.polygons.map((polygon) => ({
+      ...polygon,
+      points: polygon.points.map(fromPoint),
+    })),
+    buildings: project.buildings.map((building) => ({
+      ...building,
+      points: building.points.map(fromPoint),
+      roofVertices: building.roofVertices?.map(fromPoint),
+    })),
+    panelArrays: (project.panelArrays ?? []).map((panelArray) => ({
+      ...panelArray,
+      panels: panelArray.panels.map((corners) => corners.map(fromPoint)),
+    })),
+    image: project.image ?? null,
+    pixelsPerMeter: project.pixelsPerMeter ?? null,
+    georeference: project.georeference ?? null,
+    latitude: project.latitude ?? null,
+    longitude: project.longitude ?? null,
+    date: project.date ? project.date.toISOString() : null,
+    timeOfDay: project.timeOfDay ?? null,
+  }
+
+  return JSON.stringify(document)
+}
+
+/**
+ * Restore a project saved with serializeProject, migrating documents written by older versions.
+ * Throws when the input is not a project document or was written by a newer version.
+ */
+export function deserializeProject(json: string | ProjectDocument): ProjectData {
+  let raw: unknown
+  try {
+    raw = typeof json === 'string' ? JSON.parse(json) : json
+  } catch {
+    throw new Error('Project is not valid JSON')
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('Project must be a JSON object')
+  }
+
+  let document = raw as RawDocument
+  if (document.format !== undefined && document.format !== PROJECT_FORMAT) {
+    throw new Error(`Unknown project format: ${String(document.format)}`)
+  }
+
+  let version = typeof document.version === 'number' ? document.version : 0
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project version ${version} is newer than the supported version ${PROJECT_VERSION}`)
+  }
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) {
+      throw new Error(`No migration from project version ${version}`)
+    }
+    document = migrate(document)
+    version++
+  }
+
+  const project = document as unknown as ProjectDocument
+  if (!Array.isArray(project.polygons) || !Array.isArray(project.buildings)) {
+    throw new Error('Project is missing polygons or buildings')
+  }
+
+  return {
+    polygons: project.polygons.map((polygon) => ({
+      ...polygon,
+      points: polygon.points.map(toPoint),
+      lines: polygon.lines ?? [],
+    })),
+    buildings: project.buildings.map((building) => ({
+      ...building,
+      points: building.points.map(toPoint),
+      roofVertices: building.roofVertices?.map(toPoint),
+    })),
+    panelArrays: (project.panelArrays ?? []).map((panelArray) => ({
+      ...panelArray,
+      panels: panelArray.panels.map((corners) => corners.map(toPoint)),
+    })),
+    image: project.image ?? null,
+    pixelsPerMeter: project.pixelsPerMeter ?? null,
+    georeference: project.georeference ?? null,
+    latitude: project.latitude ?? undefined,
+    longitude: project.longitude ?? undefined,
+    date: project.date ? new Date(project.date) : undefined,
+    timeOfDay: project.timeOfDay ?? undefined,
+  }
+}
+
+/**
+ * Read an image file as a data URL, to embed it in a saved project
+ */
+export function readImageAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read image'))
+    reader.readAsDataURL(file)
+  })
+}
@@ -0,0 +1,249 @@
+import * as THREE from 'three'
+import type { EditorState } from '../hooks/useHistory'
+import { PLANE_WIDTH } from '../components/Canvas3D/constants'
+import { buildExportScene, disposeExportScene } from './gltf'
+import type { GltfExportOptions } from './gltf'
+import { getObstructedArea, isObstruction } from './obstructions'
+import { getBuildingRoof } from './roof'
+import { getUnitsPerMeter } from './geometry'
+import { formatAzimuth, formatEnergy, MONTH_NAMES } from './format'
+import type { ShadingAnalysis } from './shading'
+import type { PanelArrayYield } from './yield'
+
+export interface ProposalReportOptions {
+  /** Polygons, buildings and panel arrays to report on */
+  state: EditorState
+  /** Top-down image of the scene as a data URL (see captureTopView) */
+  snapshot?: string | null
+  /** Report heading (default: 'Solar Proposal') */
+  title?: string
+  /** Customer or site name shown under the heading */
+  siteName?: string
+  /** Date printed on the report (default: today) */
+  date?: Date
+  /** Image scale; areas are in m² when known */
+  pixelsPerMeter?: number
+  imageWidth?: number
+  latitude?: number
+  longitude?: number
+  shading?: ShadingAnalysis | null
+  yields?: PanelArrayYield[] | null
+}
+
+export interface TopViewOptions extends Omit<GltfExportOptions, 'includeGround' | 'unitsPerMeter'> {
+  /** Width of the snapshot in pixels (default: 1200) */
+  width?: number
+}
+
+const REPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1f2937; margin: 0; padding: 32px; }
+  header { border-bottom: 3px solid #1e3a8a; margin-bottom: 24px; padding-bottom: 12px; }
+  h1 { margin: 0; font-size: 28px; color: #1e3a8a; }
+  h2 { font-size: 18px; margin: 28px 0 10px; color: #1e3a8a; }
+  .report-meta { color: #6b7280; font-size: 13px; margin-top: 4px; }
+  .report-snapshot { width: 100%; border: 1px solid #e5e7eb; border-radius: 4px; }
+  .report-summary { display: grid; grid-template-columns: repeat(auto-fit, minmax(140px, 1fr)); gap: 12px; }
+  .report-card { border: 1px solid #e5e7eb; border-radius: 4px; padding: 12px; }
+  .report-card-value { font-size: 22px; font-weight: 600; }
+  .report-card-label { font-size: 12px; color: #6b7280; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+  th { background: #f3f4f6; font-weight: 600; }
+  td.number, th.number { text-align: right; }
+  .report-bar { display: inline-block; height: 10px; background: #f59e0b; border-radius: 2px; }
+  .report-note { font-size: 12px; color: #6b7280; margin-top: 24px; }
+  @page { size: A4; margin: 15mm; }
+  @media print {
+    body { padding: 0; }
+    section { break-inside: avoid; }
+  }
+`
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function table(headers: string[], rows: string[][], numberColumns: number[]): string {
+  const cell = (tag: 'th' | 'td', value: string, column: number) =>
+    `<${tag}${numberColumns.includes(column) ? ' class="number"' : ''}>${value}</${tag}>`
+  return `<table>
+<thead><tr>${headers.map((header, i) => cell('th', escapeHtml(header), i)).join('')}</tr></thead>
+<tbody>
+${rows.map((row) => `<tr>${row.map((value, i) => cell('td', escapeHtml(value), i)).join('')}</tr>`).join('\n')}
+</tbody>
+</table>`
+}
+
+function card(value: string, label: string): string {
+  return `<div class="report-card"><div class="report-card-value">${escapeHtml(value)}</div><div class="report-card-label">${escapeHtml(label)}</div></div>`
+}
+
+/**
+ * Render the scene from straight above (north up) to a PNG data URL, for the report snapshot.
+ * Needs a browser with WebGL.
+ */
+export async function captureTopView({ width = 1200, ...options }: TopViewOptions): Promise<string> {
+  const aspectRatio = options.aspectRatio ?? 1
+  const planeHeight = PLANE_WIDTH / aspectRatio
+  const scene = await buildExportScene({ ...options, includeGround: true })
+  scene.add(new THREE.AmbientLight(0xffffff, 1.5))
+  const light = new THREE.DirectionalLight(0xffffff, 1.5)
+  light.position.set(2, 10, 4)
+  scene.add(light)
+
+  const camera = new THREE.OrthographicCamera(-PLANE_WIDTH / 2, PLANE_WIDTH / 2, planeHeight / 2, -planeHeight / 2, 0.1, 100)
+  camera.position.set(0, 50, 0)
+  camera.up.set(0, 0, -1)
+  camera.lookAt(0, 0, 0)
+
+  const renderer = new THREE.WebGLRenderer({ antialias: true, preserveDrawingBuffer: true })
+  try {
+    renderer.setSize(width, Math.round(width / aspectRatio))
+    renderer.setClearColor(0xffffff)
+    renderer.render(scene, camera)
+    return renderer.domElement.toDataURL('image/png')
+  } finally {
+    renderer.dispose()
+    disposeExportScene(scene)
+  }
+}
+
+/**
+ * Build a self-contained, printable HTML proposal: scene snapshot, roof faces, modules and kWp,
+ * shading losses and the yield estimate. Print it from the browser to get a PDF.
+ */
+export function buildProposalReport(options: ProposalReportOptions): string {
+  const { state, snapshot, title = 'Solar Proposal', siteName, date = new Date(), latitude, longitude, shading, yields } = options
+  const unitsPerMeter = getUnitsPerMeter(options.pixelsPerMeter, options.imageWidth)
+
+  const formatArea = (area: number) =>
+    unitsPerMeter ? `${(area / (unitsPerMeter * unitsPerMeter)).toFixed(1)} m²` : `${area.toFixed(2)} u²`
+  const formatPercent = (fraction: number | undefined) => (fraction !== undefined ? `${(fraction * 100).toFixed(0)}%` : '–')
+
+  const roofPolygons = state.polygons.filter((polygon) => !isObstruction(polygon))
+  const obstructionPolygons = state.polygons.filter(isObstruction)
+  const polygonName = (polygonId: string) => `Polygon ${roofPolygons.findIndex((p) => p.id === polygonId) + 1}`
+
+  // Roof faces of every visible building
+  const faceRows: string[][] = []
+  for (const building of state.buildings) {
+    if (building.visible === false) continue
+    const { vertices, faces } = getBuildingRoof(building, state.polygons)
+    faces.forEach((face, faceIndex) => {
+      const obstructedArea = getObstructedArea(face.vertexIndices.map((i) => vertices[i]), obstructionPolygons)
+      const faceShading = shading?.roofFaces.find((s) => s.buildingId === building.id && s.faceIndex === faceIndex)
+      faceRows.push([
+        `${polygonName(building.polygonId)} – Face ${faceIndex + 1}`,
+        formatArea(face.area),
+        formatArea(Math.max(0, face.area - obstructedArea)),
+        `${face.pitch.toFixed(0)}°`,
+        face.pitch > 0 ? formatAzimuth(face.azimuth) : 'Flat',
+        formatPercent(faceShading?.profile.annual),
+      ])
+    })
+  }
+
+  // Panel arrays with their yield and shading
+  let moduleCount = 0
+  let peakPower = 0
+  const arrayRows = state.panelArrays.map((panelArray, arrayIndex) => {
+    const arrayPower = (panelArray.panels.length * panelArray.module.power) / 1000
+    moduleCount += panelArray.panels.length
+    peakPower += arrayPower
+    const estimate = yields?.find((y) => y.panelArrayId === panelArray.id)?.estimate
+    const arrayShading = shading?.panelArrays.find((s) => s.panelArrayId === panelArray.id)
+    return [
+      `Array ${arrayIndex + 1} (${polygonName(panelArray.polygonId)}${panelArray.faceIndex !== null ? `, Face ${panelArray.faceIndex + 1}` : ''})`,
+      `${panelArray.panels.length} × ${panelArray.module.name}`,
+      `${arrayPower.toFixed(2)} kWp`,
+      `${panelArray.tilt.toFixed(0)}°${panelArray.tilt > 0 ? ` / ${formatAzimuth(panelArray.azimuth)}` : ''}`,
+      formatPercent(arrayShading?.profile.annual),
+      estimate ? formatEnergy(estimate.annual) : '–',
+    ]
+  })
+
+  const monthly = new Array<number>(12).fill(0)
+  for (const { estimate } of yields ?? []) {
+    estimate.monthly.forEach((kWh, month) => (monthly[month] += kWh))
+  }
+  const annual = monthly.reduce((sum, kWh) => sum + kWh, 0)
+  const maxMonthly = Math.max(...monthly, 1)
+
+  // Shading loss of the whole system, weighted by array power
+  const shadedPower = state.panelArrays.reduce((sum, panelArray) => {
+    const loss = shading?.panelArrays.find((s) => s.panelArrayId === panelArray.id)?.profile.annual
+    return sum + (loss ?? 0) * panelArray.panels.length * panelArray.module.power
+  }, 0)
+  const systemShading = shading && peakPower > 0 ? shadedPower / (peakPower * 1000) : undefined
+
+  const location =
+    latitude !== undefined && longitude !== undefined ? ` • ${latitude.toFixed(4)}°, ${longitude.toFixed(4)}°` : ''
+  const sections: string[] = []
+
+  if (snapshot) {
+    sections.push(`<section><h2>Site</h2><img class="report-snapshot" src="${escapeHtml(snapshot)}" alt="Top view of the roof" /></section>`)
+  }
+
+  sections.push(`<section><h2>System Summary</h2><div class="report-summary">
+${card(String(moduleCount), 'Modules')}
+${card(`${peakPower.toFixed(2)} kWp`, 'Installed power')}
+${yields ? card(formatEnergy(annual), 'Annual yield') : ''}
+${yields && peakPower > 0 ? card(`${(annual / peakPower).toFixed(0)} kWh/kWp`, 'Specific yield') : ''}
+${systemShading !== undefined ? card(formatPercent(systemShading), 'Shading loss') : ''}
+</div></section>`)
+
+  if (faceRows.length > 0) {
+    sections.push(`<section><h2>Roof Faces</h2>${table(
+      ['Face', 'Area', 'Usable area', 'Pitch', 'Azimuth', 'Shading loss'],
+      faceRows,
+      [1, 2, 3, 5]
+    )}</section>`)
+  }
+
+  if (arrayRows.length > 0) {
+    sections.push(`<section><h2>PV Modules</h2>${table(
+      ['Array', 'Modules', 'Power', 'Tilt / Azimuth', 'Shading loss', 'Annual yield'],
+      arrayRows,
+      [2, 4, 5]
+    )}</section>`)
+  }
+
+  if (yields && yields.length > 0) {
+    const rows = monthly
+      .map(
+        (kWh, month) => `<tr><td>${MONTH_NAMES[month]}</td><td class="number">${escapeHtml(formatEnergy(kWh))}</td>` +
+          `<td><span class="report-bar" style="width: ${((kWh / maxMonthly) * 100).toFixed(1)}%"></span></td></tr>`
+      )
+      .join('\n')
+    sections.push(`<section><h2>Estimated Production</h2><table>
+<thead><tr><th>Month</th><th class="number">Energy</th><th style="width: 50%"></th></tr></thead>
+<tbody>
+${rows}
+<tr><th>Year</th><th class="number">${escapeHtml(formatEnergy(annual))}</th><th></th></tr>
+</tbody>
+</table></section>`)
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<div class="report-meta">${siteName ? `${escapeHtml(siteName)} • ` : ''}${escapeHtml(date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }))}${escapeHtml(location)}</div>
+</header>
+${sections.join('\n')}
+<p class="report-note">Production is a simulated estimate including module temperature, shading and system losses; actual output depends on weather and installation.</p>
+</body>
+</html>
+`
+}
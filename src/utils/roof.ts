@@ -0,0 +1,611 @@
+import * as THREE from 'three'
+import type { RoofType, RoofFace, Polygon, Building } from '../components/Canvas3D/types'
+import { DEFAULT_ROOF_PITCH, PLANE_WIDTH } from '../components/Canvas3D/constants'
+import { signedArea, isPointInPolygon, newellNormal, segmentsIntersect, toGroundPoints } from './geometry'
+
+export interface RoofGeometryData {
+  /** Roof surface vertices. The first entries are the footprint points lifted onto the roof,
+   * followed by generated ridge and hip vertices. */
+  vertices: THREE.Vector3[]
+  /** Roof faces with their slope, orientation and surface area */
+  faces: RoofFace[]
+  /** Top edge of each wall, one polyline per footprint edge (following the roof above it), followed by
+   * the gable walls along internal lines where the faces on both sides meet at different heights */
+  wallProfiles: THREE.Vector3[][]
+}
+
+// Half-plane a*u + b*v + c >= 0 in the roof frame
+interface HalfPlane {
+  a: number
+  b: number
+  c: number
+}
+
+// Local frame of a roof section: u runs along the ridge, v across it
+interface RoofFrame {
+  axis: THREE.Vector2
+  normal: THREE.Vector2
+  uMin: number
+  uMax: number
+  vMin: number
+  vMax: number
+}
+
+const EPSILON = 1e-9
+
+/**
+ * Split the footprint into faces along the internal lines.
+ * Lines that run outside the footprint or cross an earlier line are ignored.
+ */
+export function splitFootprint(points: THREE.Vector3[], lines: [number, number][]): number[][] {
+  const flat = toGroundPoints(points)
+  let faces: number[][] = [points.map((_, i) => i)]
+
+  for (const [a, b] of lines) {
+    if (a === b || !flat[a] || !flat[b]) continue
+    const midpoint = new THREE.Vector2().addVectors(flat[a], flat[b]).multiplyScalar(0.5)
+
+    const faceIndex = faces.findIndex((face) => {
+      const ia = face.indexOf(a)
+      const ib = face.indexOf(b)
+      if (ia === -1 || ib === -1) return false
+      // Adjacent points in the face are already connected by an edge
+      if ((ia + 1) % face.length === ib || (ib + 1) % face.length === ia) return false
+      return isPointInPolygon(midpoint, face.map((i) => flat[i]))
+    })
+    if (faceIndex === -1) continue
+
+    const face = faces[faceIndex]
+    const start = Math.min(face.indexOf(a), face.indexOf(b))
+    const end = Math.max(face.indexOf(a), face.indexOf(b))
+    const first = face.slice(start, end + 1)
+    const second = [...face.slice(end), ...face.slice(0, start + 1)]
+
+    faces = [...faces.slice(0, faceIndex), first, second, ...faces.slice(faceIndex + 1)]
+  }
+
+  return faces
+}
+
+// Orient the frame along the longest footprint edge, with the ridge on the longer side of the bounds
+function computeRoofFrame(flat: THREE.Vector2[]): RoofFrame {
+  let longest = 0
+  let axis = new THREE.Vector2(1, 0)
+  let eaveMidpoint = flat[0].clone()
+  for (let i = 0; i < flat.length; i++) {
+    const edge = new THREE.Vector2().subVectors(flat[(i + 1) % flat.length], flat[i])
+    if (edge.length() > longest) {
+      longest = edge.length()
+      axis = edge.clone().normalize()
+      eaveMidpoint = new THREE.Vector2().addVectors(flat[i], flat[(i + 1) % flat.length]).multiplyScalar(0.5)
+    }
+  }
+
+  const bounds = (u: THREE.Vector2, v: THREE.Vector2) => {
+    const us = flat.map((p) => p.dot(u))
+    const vs = flat.map((p) => p.dot(v))
+    return { uMin: Math.min(...us), uMax: Math.max(...us), vMin: Math.min(...vs), vMax: Math.max(...vs) }
+  }
+
+  let normal = new THREE.Vector2(-axis.y, axis.x)
+  let b = bounds(axis, normal)
+  if (b.vMax - b.vMin > b.uMax - b.uMin) {
+    axis = normal
+    normal = new THREE.Vector2(-axis.y, axis.x)
+    b = bounds(axis, normal)
+  }
+
+  // Keep the longest edge on the low (vMin) side so shed roofs drain over it
+  const eaveV = eaveMidpoint.dot(normal)
+  if (eaveV - b.vMin > b.vMax - eaveV) {
+    normal.negate()
+    b = bounds(axis, normal)
+  }
+
+  return { axis, normal, ...b }
+}
+
+// Height above the eaves for a point in the roof frame
+function roofHeightAt(u: number, v: number, frame: RoofFrame, roofType: RoofType, slope: number): number {
+  const width = frame.vMax - frame.vMin
+  const length = frame.uMax - frame.uMin
+  const vCenter = (frame.vMin + frame.vMax) / 2
+  const uCenter = (frame.uMin + frame.uMax) / 2
+
+  switch (roofType) {
+    case 'shed':
+      return slope * (v - frame.vMin)
+    case 'gable':
+      return slope * (width / 2 - Math.abs(v - vCenter))
+    case 'hip':
+      return slope * Math.min(width / 2 - Math.abs(v - vCenter), length / 2 - Math.abs(u - uCenter))
+    default:
+      return 0
+  }
+}
+
+// Regions of the roof frame in which the height is linear (each region is one roof plane)
+function getRoofRegions(frame: RoofFrame, roofType: RoofType): HalfPlane[][] {
+  const { uMin, uMax, vMin, vMax } = frame
+  const vCenter = (vMin + vMax) / 2
+  const uCenter = (uMin + uMax) / 2
+
+  switch (roofType) {
+    case 'gable':
+      return [
+        [{ a: 0, b: -1, c: vCenter }],
+        [{ a: 0, b: 1, c: -vCenter }],
+      ]
+    case 'hip':
+      return [
+        // Long sides: closer to the eave than to the gable ends
+        [
+          { a: 0, b: -1, c: vCenter },
+          { a: 1, b: -1, c: vMin - uMin },
+          { a: -1, b: -1, c: uMax + vMin },
+        ],
+        [
+          { a: 0, b: 1, c: -vCenter },
+          { a: 1, b: 1, c: -uMin - vMax },
+          { a: -1, b: 1, c: uMax - vMax },
+        ],
+        // Hipped ends
+        [
+          { a: -1, b: 0, c: uCenter },
+          { a: -1, b: 1, c: uMin - vMin },
+          { a: -1, b: -1, c: vMax + uMin },
+        ],
+        [
+          { a: 1, b: 0, c: -uCenter },
+          { a: 1, b: 1, c: -vMin - uMax },
+          { a: 1, b: -1, c: vMax - uMax },
+        ],
+      ]
+    default:
+      return [[]]
+  }
+}
+
+// Sutherland-Hodgman clipping of a polygon against a half-plane
+function clipPolygon(polygon: THREE.Vector2[], plane: HalfPlane): THREE.Vector2[] {
+  const distance = (p: THREE.Vector2) => plane.a * p.x + plane.b * p.y + plane.c
+  const result: THREE.Vector2[] = []
+
+  for (let i = 0; i < polygon.length; i++) {
+    const current = polygon[i]
+    const next = polygon[(i + 1) % polygon.length]
+    const dCurrent = distance(current)
+    const dNext = distance(next)
+
+    if (dCurrent >= 0) result.push(current)
+    if ((dCurrent >= 0) !== (dNext >= 0)) {
+      const t = dCurrent / (dCurrent - dNext)
+      result.push(new THREE.Vector2().lerpVectors(current, next, t))
+    }
+  }
+
+  return result
+}
+
+/**
+ * Measure a planar roof face: pitch, azimuth (clockwise from north, where north is -Z)
+ * and true surface area, using the Newell normal of its vertices.
+ */
+export function measureRoofFace(vertices: THREE.Vector3[], vertexIndices: number[]): RoofFace {
+  const normal = newellNormal(vertexIndices.map((i) => vertices[i]))
+
+  const area = normal.length() / 2
+  if (area <= EPSILON) {
+    return { vertexIndices, pitch: 0, azimuth: 0, area: 0 }
+  }
+
+  normal.normalize()
+  if (normal.y < 0) normal.negate()
+
+  const pitch = THREE.MathUtils.radToDeg(Math.acos(Math.min(1, normal.y)))
+  const isFlat = Math.hypot(normal.x, normal.z) < 1e-6
+  const azimuth = isFlat
+    ? 0
+    : (THREE.MathUtils.radToDeg(Math.atan2(normal.x, -normal.z)) + 360) % 360
+
+  return { vertexIndices, pitch, azimuth, area }
+}
+
+// Tolerance for merging generated vertices, relative to the footprint size
+function getTolerance(flat: THREE.Vector2[]): number {
+  const xs = flat.map((p) => p.x)
+  const ys = flat.map((p) => p.y)
+  const size = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys))
+  return Math.max(size * 1e-6, EPSILON)
+}
+
+// Counter-clockwise seen from above means a negative signed area in the XZ plane
+function orientFace(indices: number[], vertices: THREE.Vector3[]): number[] {
+  const worldArea = signedArea(indices.map((i) => new THREE.Vector2(vertices[i].x, vertices[i].z)))
+  return worldArea > 0 ? [...indices].reverse() : indices
+}
+
+// Whether the ring of point indices has an edge between a and b
+function hasEdge(indices: number[], a: number, b: number): boolean {
+  const ia = indices.indexOf(a)
+  const ib = indices.indexOf(b)
+  return ia !== -1 && ib !== -1 && ((ia + 1) % indices.length === ib || (ib + 1) % indices.length === ia)
+}
+
+// Roof of the given type over the whole footprint, with the ridge along its longest side
+function buildTypedRoof(flat: THREE.Vector2[], eaveHeight: number, roofType: RoofType, slope: number): RoofGeometryData {
+  const frame = computeRoofFrame(flat)
+  const toFrame = (p: THREE.Vector2) => new THREE.Vector2(p.dot(frame.axis), p.dot(frame.normal))
+  const fromFrame = (p: THREE.Vector2) =>
+    new THREE.Vector2()
+      .addScaledVector(frame.axis, p.x)
+      .addScaledVector(frame.normal, p.y)
+  const lift = (p: THREE.Vector2) => {
+    const world = fromFrame(p)
+    return new THREE.Vector3(world.x, eaveHeight + roofHeightAt(p.x, p.y, frame, roofType, slope), world.y)
+  }
+
+  const tolerance = getTolerance(flat)
+  const framePoints = flat.map(toFrame)
+  const vertices2D = [...framePoints]
+  const findOrAddVertex = (p: THREE.Vector2): number => {
+    const existing = vertices2D.findIndex((v) => v.distanceTo(p) <= tolerance)
+    if (existing !== -1) return existing
+    vertices2D.push(p)
+    return vertices2D.length - 1
+  }
+
+  const regions = getRoofRegions(frame, roofType)
+  const faceIndices: number[][] = []
+  for (const region of regions) {
+    const clipped = region.reduce(
+      (polygon, plane) => (polygon.length >= 3 ? clipPolygon(polygon, plane) : polygon),
+      framePoints
+    )
+    if (clipped.length < 3 || Math.abs(signedArea(clipped)) <= tolerance * tolerance) continue
+
+    const indices = clipped
+      .map(findOrAddVertex)
+      .filter((index, i, all) => index !== all[(i + 1) % all.length])
+    if (indices.length >= 3) faceIndices.push(indices)
+  }
+
+  // Break each wall where it passes under a ridge or hip so its top follows the roof
+  const creases = regions.flat()
+  const wallProfiles = framePoints.map((start, i) => {
+    const end = framePoints[(i + 1) % framePoints.length]
+    const breaks = [0, 1]
+    for (const plane of creases) {
+      const dStart = plane.a * start.x + plane.b * start.y + plane.c
+      const dEnd = plane.a * end.x + plane.b * end.y + plane.c
+      if ((dStart > 0 && dEnd < 0) || (dStart < 0 && dEnd > 0)) {
+        breaks.push(dStart / (dStart - dEnd))
+      }
+    }
+    return breaks
+      .sort((a, b) => a - b)
+      .filter((t, index, sorted) => index === 0 || t - sorted[index - 1] > EPSILON)
+      .map((t) => lift(new THREE.Vector2().lerpVectors(start, end, t)))
+  })
+
+  const vertices = vertices2D.map(lift)
+  return {
+    vertices,
+    faces: faceIndices.map((indices) => measureRoofFace(vertices, orientFace(indices, vertices))),
+    wallProfiles,
+  }
+}
+
+// Internal lines that join two corners that aren't neighbours and run inside the footprint
+function getCreaseLines(flat: THREE.Vector2[], lines: [number, number][]): [number, number][] {
+  const count = flat.length
+  const creases: [number, number][] = []
+  for (const [a, b] of lines) {
+    if (a === b || !flat[a] || !flat[b]) continue
+    if ((a + 1) % count === b || (b + 1) % count === a) continue
+    if (creases.some(([c, d]) => (c === a && d === b) || (c === b && d === a))) continue
+
+    const midpoint = new THREE.Vector2().addVectors(flat[a], flat[b]).multiplyScalar(0.5)
+    const crossesEdge = flat.some((c, i) => segmentsIntersect(flat[a], flat[b], c, flat[(i + 1) % count]))
+    if (crossesEdge || !isPointInPolygon(midpoint, flat)) continue
+    creases.push([a, b])
+  }
+  return creases
+}
+
+/**
+ * Split the footprint into faces along the internal lines, keeping lines that cross or touch.
+ * Returns the corners of the faces, the footprint points followed by the points where lines cross,
+ * and every face as a counter-clockwise ring (in x, z) of indices into them.
+ */
+function splitAlongCreases(
+  flat: THREE.Vector2[],
+  creases: [number, number][],
+  tolerance: number
+): { nodes: THREE.Vector2[]; faces: number[][] } {
+  const nodes = [...flat]
+  const findOrAddNode = (p: THREE.Vector2): number => {
+    const existing = nodes.findIndex((node) => node.distanceTo(p) <= tolerance)
+    if (existing !== -1) return existing
+    nodes.push(p)
+    return nodes.length - 1
+  }
+
+  // Points along every line where it meets another line (or passes a corner), by position on the line
+  const stops = creases.map(([a, b]) => [
+    { t: 0, node: a },
+    { t: 1, node: b },
+  ])
+  creases.forEach(([a, b], i) => {
+    const start = flat[a]
+    const direction = new THREE.Vector2().subVectors(flat[b], start)
+    const lengthSq = direction.lengthSq()
+
+    for (let j = i + 1; j < creases.length; j++) {
+      const [c, d] = creases[j]
+      if (!segmentsIntersect(start, flat[b], flat[c], flat[d])) continue
+      const other = new THREE.Vector2().subVectors(flat[d], flat[c])
+      const t = ((flat[c].x - start.x) * other.y - (flat[c].y - start.y) * other.x) / (direction.x * other.y - direction.y * other.x)
+      const crossing = start.clone().addScaledVector(direction, t)
+      const node = findOrAddNode(crossing)
+      stops[i].push({ t, node })
+      stops[j].push({ t: crossing.distanceTo(flat[c]) / flat[c].distanceTo(flat[d]), node })
+    }
+
+    flat.forEach((corner, k) => {
+      if (k === a || k === b) return
+      const t = new THREE.Vector2().subVectors(corner, start).dot(direction) / lengthSq
+      if (t > 0 && t < 1 && start.clone().addScaledVector(direction, t).distanceTo(corner) <= tolerance) {
+        stops[i].push({ t, node: k })
+      }
+    })
+  })
+
+  // Planar graph of the outline and the line pieces between stops
+  const neighbours: number[][] = nodes.map(() => [])
+  const connect = (u: number, v: number) => {
+    if (u === v || neighbours[u].includes(v)) return
+    neighbours[u].push(v)
+    neighbours[v].push(u)
+  }
+  flat.forEach((_, i) => connect(i, (i + 1) % flat.length))
+  for (const lineStops of stops) {
+    const sorted = [...lineStops].sort((p, q) => p.t - q.t)
+    for (let k = 0; k < sorted.length - 1; k++) connect(sorted[k].node, sorted[k + 1].node)
+  }
+
+  const angle = (from: number, to: number) => Math.atan2(nodes[to].y - nodes[from].y, nodes[to].x - nodes[from].x)
+  neighbours.forEach((list, u) => list.sort((p, q) => angle(u, p) - angle(u, q)))
+
+  // Walk every face keeping it on the left; the walk around the outside runs clockwise and is dropped
+  const visited = new Set<string>()
+  const faces: number[][] = []
+  neighbours.forEach((list, u) => {
+    for (const v of list) {
+      if (visited.has(`${u},${v}`)) continue
+      const ring: number[] = []
+      let [from, to] = [u, v]
+      while (!visited.has(`${from},${to}`)) {
+        visited.add(`${from},${to}`)
+        ring.push(from)
+        const around = neighbours[to]
+        const next = around[(around.indexOf(from) - 1 + around.length) % around.length]
+        ;[from, to] = [to, next]
+      }
+      if (ring.length >= 3 && signedArea(ring.map((i) => nodes[i])) > tolerance * tolerance) faces.push(ring)
+    }
+  })
+
+  return { nodes, faces }
+}
+
+// Roof with one plane per face between the internal lines, rising at the pitch from the eave it touches
+function buildCreasedRoof(
+  flat: THREE.Vector2[],
+  creases: [number, number][],
+  eaveHeight: number,
+  slope: number
+): RoofGeometryData {
+  const count = flat.length
+  const tolerance = getTolerance(flat)
+  const { nodes, faces } = splitAlongCreases(flat, creases, tolerance)
+
+  // The eave of a face is its longest outline edge, or its longest edge when it touches the outline in corners only
+  const planes = faces.map((ring) => {
+    let eave: [number, number] | null = null
+    let eaveLength = -1
+    let isOutline = false
+    ring.forEach((a, k) => {
+      const b = ring[(k + 1) % ring.length]
+      const onOutline = a < count && b < count && ((a + 1) % count === b || (b + 1) % count === a)
+      const length = nodes[a].distanceTo(nodes[b])
+      if ((onOutline && !isOutline) || (onOutline === isOutline && length > eaveLength)) {
+        eave = [a, b]
+        eaveLength = length
+        isOutline = onOutline
+      }
+    })
+    const [a, b] = eave ?? [ring[0], ring[1]]
+    // Faces run counter-clockwise, so the inside lies left of the edge
+    const direction = new THREE.Vector2().subVectors(nodes[b], nodes[a]).normalize()
+    return { origin: nodes[a], inward: new THREE.Vector2(-direction.y, direction.x) }
+  })
+  const heightAt = (face: number, p: THREE.Vector2) => {
+    const { origin, inward } = planes[face]
+    return eaveHeight + slope * new THREE.Vector2().subVectors(p, origin).dot(inward)
+  }
+  const lift = (face: number, p: THREE.Vector2) => new THREE.Vector3(p.x, heightAt(face, p), p.y)
+  const faceWithEdge = (a: number, b: number) => faces.findIndex((ring) => hasEdge(ring, a, b))
+
+  // Footprint points come first, lifted onto the first face that holds them
+  const vertices = flat.map((p, i) => lift(Math.max(0, faces.findIndex((ring) => ring.includes(i))), p))
+  const findOrAddVertex = (p: THREE.Vector3): number => {
+    const existing = vertices.findIndex((v) => v.distanceTo(p) <= tolerance)
+    if (existing !== -1) return existing
+    vertices.push(p)
+    return vertices.length - 1
+  }
+
+  const faceIndices = faces
+    .map((ring, face) =>
+      ring
+        .map((i) => findOrAddVertex(lift(face, nodes[i])))
+        .filter((index, i, all) => index !== all[(i + 1) % all.length])
+    )
+    .filter((indices) => indices.length >= 3)
+
+  // Every wall follows the plane of the face above it
+  const wallProfiles = flat.map((start, i) => {
+    const end = flat[(i + 1) % count]
+    const face = Math.max(0, faceWithEdge(i, (i + 1) % count))
+    return [lift(face, start), lift(face, end)]
+  })
+
+  // Gable walls where the faces on both sides of a line meet at different heights, up to the higher one
+  faces.forEach((ring, first) => {
+    ring.forEach((a, k) => {
+      const b = ring[(k + 1) % ring.length]
+      const second = faces.findIndex((other, index) => index > first && hasEdge(other, a, b))
+      if (second === -1) return
+
+      const difference = (p: THREE.Vector2) => heightAt(first, p) - heightAt(second, p)
+      const d0 = difference(nodes[a])
+      const d1 = difference(nodes[b])
+      if (Math.abs(d0) <= tolerance && Math.abs(d1) <= tolerance) return
+
+      const profile = [nodes[a]]
+      if ((d0 > tolerance && d1 < -tolerance) || (d0 < -tolerance && d1 > tolerance)) {
+        profile.push(new THREE.Vector2().lerpVectors(nodes[a], nodes[b], d0 / (d0 - d1)))
+      }
+      profile.push(nodes[b])
+      wallProfiles.push(profile.map((p) => new THREE.Vector3(p.x, Math.max(heightAt(first, p), heightAt(second, p)), p.y)))
+    })
+  })
+
+  return {
+    vertices,
+    faces: faceIndices.map((indices) => measureRoofFace(vertices, orientFace(indices, vertices))),
+    wallProfiles,
+  }
+}
+
+/**
+ * Generate the roof surface for a building footprint.
+ * Without internal lines, the footprint gets a roof of the chosen type with the ridge along its longest
+ * side. Internal lines are the roof's creases (ridges, hips and valleys): the footprint is split along
+ * every line, including lines that cross or touch, and each face rises at the pitch from the eave edge it
+ * touches. Where the faces on both sides of a line don't meet, the step is closed by a gable wall.
+ * Flat roofs are split into faces along the lines but stay level.
+ */
+export function buildRoof(
+  points: THREE.Vector3[],
+  lines: [number, number][],
+  eaveHeight: number,
+  roofType: RoofType = 'flat',
+  roofPitch: number = DEFAULT_ROOF_PITCH
+): RoofGeometryData {
+  if (points.length < 3) {
+    return { vertices: [], faces: [], wallProfiles: [] }
+  }
+
+  const flat = toGroundPoints(points)
+  const slope = roofType === 'flat' ? 0 : Math.tan(THREE.MathUtils.degToRad(roofPitch))
+  const creases = getCreaseLines(flat, lines)
+
+  return creases.length > 0
+    ? buildCreasedRoof(flat, creases, eaveHeight, slope)
+    : buildTypedRoof(flat, eaveHeight, roofType, slope)
+}
+
+const NO_LINES: [number, number][] = []
+
+// Last roof built for each building, with the internal lines it was built from
+const buildingRoofs = new WeakMap<Building, { lines: [number, number][]; roof: RoofGeometryData }>()
+
+/**
+ * Roof of a building, built from its footprint and the internal lines of its polygon. Buildings are
+ * replaced rather than changed in place, so the result is kept until the building or the lines change.
+ */
+export function getBuildingRoof(building: Building, polygons: Polygon[]): RoofGeometryData {
+  const lines = polygons.find((p) => p.id === building.polygonId)?.lines ?? NO_LINES
+  const cached = buildingRoofs.get(building)
+  if (cached && cached.lines === lines) return cached.roof
+
+  const roof = buildRoof(building.points, lines, building.height, building.roofType, building.roofPitch)
+  buildingRoofs.set(building, { lines, roof })
+  return roof
+}
+
+/**
+ * Triangulate the roof faces into a flat list of positions (x, y, z per vertex).
+ * Each face is triangulated separately so it keeps its own slope; triangle normals point up.
+ * faceOfTriangle maps every triangle back to its index in roof.faces.
+ */
+export function getRoofTriangles(roof: RoofGeometryData): { positions: number[]; faceOfTriangle: number[] } {
+  const positions: number[] = []
+  const faceOfTriangle: number[] = []
+
+  roof.faces.forEach((face, faceIndex) => {
+    const facePoints = face.vertexIndices.map((i) => roof.vertices[i])
+    const contour = facePoints.map((p) => new THREE.Vector2(p.x, -p.z))
+    const triangles = THREE.ShapeUtils.triangulateShape(contour, [])
+
+    for (const [a, b, c] of triangles) {
+      const [p1, p2, p3] = [facePoints[a], facePoints[b], facePoints[c]]
+      const normal = new THREE.Vector3().crossVectors(
+        new THREE.Vector3().subVectors(p2, p1),
+        new THREE.Vector3().subVectors(p3, p1)
+      )
+      const ordered = normal.y >= 0 ? [p1, p2, p3] : [p1, p3, p2]
+      ordered.forEach((p) => positions.push(p.x, p.y, p.z))
+      faceOfTriangle.push(faceIndex)
+    }
+  })
+
+  return { positions, faceOfTriangle }
+}
+
+/**
+ * Triangulate the walls, which rise from the ground to the roof edge above each footprint edge
+ */
+export function getWallTriangles(roof: RoofGeometryData): number[] {
+  const positions: number[] = []
+
+  for (const profile of roof.wallProfiles) {
+    for (let i = 0; i < profile.length - 1; i++) {
+      const top1 = profile[i]
+      const top2 = profile[i + 1]
+      positions.push(
+        top1.x, 0, top1.z, top2.x, 0, top2.z, top2.x, top2.y, top2.z,
+        top1.x, 0, top1.z, top2.x, top2.y, top2.z, top1.x, top1.y, top1.z
+      )
+    }
+  }
+
+  return positions
+}
+
+/**
+ * Apply UV mapping for aerial texture projection: every vertex samples the image pixel below it
+ */
+export function applyAerialUVs(geometry: THREE.BufferGeometry, aspectRatio: number): void {
+  const planeHeight = PLANE_WIDTH / aspectRatio
+  const posAttribute = geometry.attributes.position
+
+  const uvs = new Float32Array(posAttribute.count * 2)
+
+  for (let i = 0; i < posAttribute.count; i++) {
+    const x = posAttribute.getX(i)
+    const z = posAttribute.getZ(i)
+
+    // Map world coordinates to UV (0-1 range)
+    const u = (x + PLANE_WIDTH / 2) / PLANE_WIDTH
+    // Flip v to match image orientation
+    const v = 1 - (z + planeHeight / 2) / planeHeight
+
+    uvs[i * 2] = u
+    uvs[i * 2 + 1] = v
+  }
+
+  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2))
+}
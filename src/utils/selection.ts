@@ -0,0 +1,187 @@
+import * as THREE from 'three'
+import type { Polygon, Building, PanelArray, Selection } from '../components/Canvas3D/types'
+import { findLinkedVertices } from './topology'
+import type { VertexRef } from './topology'
+
+export const EMPTY_SELECTION: Selection = { polygonIds: [], vertices: [], buildingIds: [] }
+
+/**
+ * How picked items change the selection: replace it (click), add to it (box select)
+ * or flip each item in or out of it (shift-click)
+ */
+export type SelectionMode = 'replace' | 'add' | 'toggle'
+
+/** Rectangle in pixels relative to the top-left corner of the canvas */
+export interface ScreenRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export function isSelectionEmpty(selection: Selection): boolean {
+  return selection.polygonIds.length === 0 && selection.vertices.length === 0 && selection.buildingIds.length === 0
+}
+
+function isSameVertex(a: VertexRef, b: VertexRef): boolean {
+  return a.polygonId === b.polygonId && a.pointIndex === b.pointIndex
+}
+
+function combine<T>(current: T[], items: T[], mode: SelectionMode, isSame: (a: T, b: T) => boolean): T[] {
+  if (mode === 'replace') return items
+  const result = [...current]
+  for (const item of items) {
+    const index = result.findIndex((existing) => isSame(existing, item))
+    if (index === -1) {
+      result.push(item)
+    } else if (mode === 'toggle') {
+      result.splice(index, 1)
+    }
+  }
+  return result
+}
+
+/**
+ * Apply picked polygons, corners and buildings to the selection
+ */
+export function updateSelection(selection: Selection, items: Partial<Selection>, mode: SelectionMode): Selection {
+  const isSameId = (a: string, b: string) => a === b
+  return {
+    polygonIds: combine(selection.polygonIds, items.polygonIds ?? [], mode, isSameId),
+    vertices: combine(selection.vertices, items.vertices ?? [], mode, isSameVertex),
+    buildingIds: combine(selection.buildingIds, items.buildingIds ?? [], mode, isSameId),
+  }
+}
+
+/**
+ * Polygons moved as a whole by a transform: the selected polygons and the footprints of the selected buildings
+ */
+export function getSelectedPolygonIds(buildings: Building[], selection: Selection): string[] {
+  const ids = new Set(selection.polygonIds)
+  for (const building of buildings) {
+    if (selection.buildingIds.includes(building.id)) ids.add(building.polygonId)
+  }
+  return [...ids]
+}
+
+/**
+ * Vertices moved by a transform of the selection: every point of the selected polygons and buildings
+ * and the selected corners. With shareVertices, corners of other polygons at the same positions are included.
+ */
+export function getSelectedVertices(
+  polygons: Polygon[],
+  buildings: Building[],
+  selection: Selection,
+  shareVertices: boolean = true
+): VertexRef[] {
+  const vertices: VertexRef[] = []
+  const add = (vertex: VertexRef) => {
+    if (!vertices.some((v) => isSameVertex(v, vertex))) vertices.push(vertex)
+  }
+
+  for (const polygonId of getSelectedPolygonIds(buildings, selection)) {
+    const polygon = polygons.find((p) => p.id === polygonId)
+    polygon?.points.forEach((_, pointIndex) => add({ polygonId, pointIndex }))
+  }
+  for (const vertex of selection.vertices) {
+    const polygon = polygons.find((p) => p.id === vertex.polygonId)
+    if (polygon && vertex.pointIndex < polygon.points.length) add(vertex)
+  }
+
+  if (shareVertices) {
+    for (const vertex of [...vertices]) {
+      findLinkedVertices(polygons, vertex).forEach(add)
+    }
+  }
+  return vertices
+}
+
+/**
+ * Center of the bounding box of the given vertices, or null when there are none
+ */
+export function getSelectionCenter(polygons: Polygon[], vertices: VertexRef[]): THREE.Vector3 | null {
+  const box = new THREE.Box3()
+  for (const vertex of vertices) {
+    const point = polygons.find((p) => p.id === vertex.polygonId)?.points[vertex.pointIndex]
+    if (point) box.expandByPoint(point)
+  }
+  return box.isEmpty() ? null : box.getCenter(new THREE.Vector3())
+}
+
+/**
+ * Apply a ground-plane transform (move, turn about the vertical axis, scale) to the given vertices
+ */
+export function transformVertices(polygons: Polygon[], vertices: VertexRef[], matrix: THREE.Matrix4): Polygon[] {
+  return polygons.map((polygon) => {
+    const indices = vertices.filter((v) => v.polygonId === polygon.id).map((v) => v.pointIndex)
+    if (indices.length === 0) return polygon
+    const points = [...polygon.points]
+    for (const index of indices) {
+      if (points[index]) points[index] = points[index].clone().applyMatrix4(matrix)
+    }
+    return { ...polygon, points }
+  })
+}
+
+/**
+ * Carry the panel arrays on the given polygons along with a transform of the polygons. Each panel moves
+ * with its center and turns with the transform but keeps its module size, and the array azimuth follows
+ * the rotation (in radians about the vertical axis, counter-clockwise seen from above).
+ */
+export function transformPanelArrays(
+  panelArrays: PanelArray[],
+  polygonIds: string[],
+  matrix: THREE.Matrix4,
+  rotation: number
+): PanelArray[] {
+  const turn = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), rotation)
+  return panelArrays.map((array) => {
+    if (!polygonIds.includes(array.polygonId)) return array
+    const panels = array.panels.map((corners) => {
+      const center = corners.reduce((sum, p) => sum.add(p), new THREE.Vector3()).divideScalar(corners.length)
+      const movedCenter = center.clone().applyMatrix4(matrix)
+      return corners.map((corner) => corner.clone().sub(center).applyQuaternion(turn).add(movedCenter))
+    })
+    const azimuth = (((array.azimuth - THREE.MathUtils.radToDeg(rotation)) % 360) + 360) % 360
+    return { ...array, panels, azimuth }
+  })
+}
+
+/**
+ * Polygons, corners and buildings inside a screen rectangle. Polygons that lie completely inside are
+ * selected whole (as their building when they have one); of the others, the corners inside are selected.
+ */
+export function findInScreenRect(
+  polygons: Polygon[],
+  buildings: Building[],
+  rect: ScreenRect,
+  camera: THREE.Camera,
+  size: { width: number; height: number }
+): Selection {
+  const isInside = (point: THREE.Vector3) => {
+    const ndc = point.clone().project(camera)
+    if (ndc.z > 1) return false
+    const x = ((ndc.x + 1) / 2) * size.width
+    const y = ((1 - ndc.y) / 2) * size.height
+    return x >= rect.left && x <= rect.left + rect.width && y >= rect.top && y <= rect.top + rect.height
+  }
+
+  const result: Selection = { polygonIds: [], vertices: [], buildingIds: [] }
+  for (const polygon of polygons) {
+    if (polygon.visible === false) continue
+    const inside = polygon.points.map(isInside)
+    if (inside.length > 0 && inside.every(Boolean)) {
+      const building = buildings.find((b) => b.polygonId === polygon.id)
+      if (building) {
+        result.buildingIds.push(building.id)
+      } else {
+        result.polygonIds.push(polygon.id)
+      }
+    } else {
+      inside.forEach((isPointInside, pointIndex) => {
+        if (isPointInside) result.vertices.push({ polygonId: polygon.id, pointIndex })
+      })
+    }
+  }
+  return result
+}
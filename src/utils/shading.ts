@@ -0,0 +1,475 @@
+import * as THREE from 'three'
+import SunCalc from 'suncalc'
+import { MeshBVH, acceleratedRaycast } from 'three-mesh-bvh'
+import type { Polygon, Building, PanelArray } from '../components/Canvas3D/types'
+import { isPointInPolygon } from './geometry'
+import { getBuildingRoof, getRoofTriangles, getWallTriangles } from './roof'
+import { buildObstruction, getObstructionTriangles, isObstruction } from './obstructions'
+import { getSurfaceFrame, toSurfaceCoordinates, fromSurfaceCoordinates } from './panels'
+import { getClearSkyIrradiance, getPlaneOfArrayIrradiance } from './irradiance'
+import type { SkyIrradiance } from './irradiance'
+import { getWeatherHours } from './tmy'
+import type { WeatherData } from './tmy'
+
+export interface ShadingOptions {
+  latitude: number
+  longitude: number
+  /** Year to sample, defaults to the current year */
+  year?: number
+  /** Offset of the site's local time from UTC in hours, defaults to the solar time zone of the longitude */
+  utcOffset?: number
+  /** Days sampled per month, spread evenly across it (default 1, the middle of the month) */
+  daysPerMonth?: number
+  /** Sample points along each axis of a surface (default 6) */
+  samplesPerAxis?: number
+  /** Most sample points traced for one panel array, spread over its panels with at least one each (default 256) */
+  maxSamplesPerArray?: number
+  /** Hourly irradiance of a typical year for the insolation figures, used instead of the clear-sky model */
+  weather?: WeatherData
+}
+
+/**
+ * Shading of one surface over a year.
+ * Fractions run from 0 (fully sunlit) to 1 (fully shaded).
+ */
+export interface ShadingProfile {
+  /**
+   * Shaded fraction per month (0-11) and local hour (0-23),
+   * or null when the sun is below the horizon or behind the surface
+   */
+  hourly: (number | null)[][]
+  /** Share of the direct sunlight on the surface lost to shading, per month */
+  monthly: number[]
+  /** Share of the direct sunlight on the surface lost to shading over the year */
+  annual: number
+  /** Irradiation reaching the surface after shading per month, in kWh/m² */
+  insolation: number[]
+  /** Irradiation reaching the surface after shading over the year, in kWh/m² */
+  annualInsolation: number
+}
+
+export interface RoofFaceShading {
+  buildingId: string
+  faceIndex: number
+  profile: ShadingProfile
+}
+
+export interface PanelArrayShading {
+  panelArrayId: string
+  /** Shading of the whole array */
+  profile: ShadingProfile
+  /** Shading of each panel, in the order of PanelArray.panels */
+  panels: ShadingProfile[]
+}
+
+export interface ShadingAnalysis {
+  roofFaces: RoofFaceShading[]
+  panelArrays: PanelArrayShading[]
+}
+
+/** Part of the year covered by an insolation figure */
+export type InsolationPeriod = 'annual' | 'summer' | 'winter'
+
+// Direct sunlight that strikes the surface at less than this cosine is ignored
+const MIN_INCIDENCE = 1e-3
+
+const DEFAULT_MAX_SAMPLES_PER_ARRAY = 256
+
+// Time spent tracing per chunk of analyzeShadingAsync when the browser can't report idle time, in milliseconds
+const CHUNK_BUDGET = 12
+
+/**
+ * Unit vector pointing towards the sun in scene coordinates, or null when the sun is below the horizon.
+ * Same conversion as SunLight: -Z is north, +X is east.
+ */
+export function getSunDirection(date: Date, latitude: number, longitude: number): THREE.Vector3 | null {
+  // azimuth 0 = south, positive = west; altitude 0 = horizon
+  const { azimuth, altitude } = SunCalc.getPosition(date, latitude, longitude)
+  if (altitude <= 0) return null
+  return new THREE.Vector3(
+    -Math.sin(azimuth) * Math.cos(altitude),
+    Math.sin(altitude),
+    Math.cos(azimuth) * Math.cos(altitude)
+  )
+}
+
+/**
+ * Merge every building (walls and roof) and every obstruction into one mesh that rays can be cast against
+ */
+export function buildShadingOccluder(buildings: Building[], polygons: Polygon[]): THREE.Mesh {
+  const positions: number[] = []
+
+  for (const building of buildings) {
+    const roof = getBuildingRoof(building, polygons)
+    positions.push(...getWallTriangles(roof), ...getRoofTriangles(roof).positions)
+  }
+
+  for (const polygon of polygons) {
+    if (!isObstruction(polygon) || !polygon.obstructionHeight || polygon.obstructionHeight <= 0) continue
+    positions.push(...getObstructionTriangles(buildObstruction(polygon, buildings, polygons)))
+  }
+
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
+  geometry.computeBoundingSphere()
+  // A bounding volume hierarchy keeps each ray from testing every triangle of the scene
+  geometry.boundsTree = new MeshBVH(geometry)
+  // Rays must hit triangles from either side
+  const mesh = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ side: THREE.DoubleSide }))
+  mesh.raycast = acceleratedRaycast
+  mesh.updateMatrixWorld()
+  return mesh
+}
+
+function disposeOccluder(occluder: THREE.Mesh): void {
+  occluder.geometry.boundsTree = undefined
+  occluder.geometry.dispose()
+  if (occluder.material instanceof THREE.Material) occluder.material.dispose()
+}
+
+// A raycaster that stops at the first hit, which is all a shadow test needs
+function createShadowRaycaster(): THREE.Raycaster {
+  const raycaster = new THREE.Raycaster()
+  raycaster.firstHitOnly = true
+  return raycaster
+}
+
+// Grid of points inside a planar surface, lifted slightly off it so rays do not hit the surface itself
+function sampleSurface(surface: THREE.Vector3[], samplesPerAxis: number): { points: THREE.Vector3[]; normal: THREE.Vector3 } {
+  const frame = getSurfaceFrame(surface)
+  const outline = surface.map((p) => toSurfaceCoordinates(p, frame))
+  const minX = Math.min(...outline.map((p) => p.x))
+  const maxX = Math.max(...outline.map((p) => p.x))
+  const minY = Math.min(...outline.map((p) => p.y))
+  const maxY = Math.max(...outline.map((p) => p.y))
+  const lift = Math.max(maxX - minX, maxY - minY) * 1e-4
+
+  const points: THREE.Vector3[] = []
+  for (let i = 0; i < samplesPerAxis; i++) {
+    for (let j = 0; j < samplesPerAxis; j++) {
+      // Cell centers, so samples never sit on the outline
+      const point = new THREE.Vector2(
+        minX + ((i + 0.5) / samplesPerAxis) * (maxX - minX),
+        minY + ((j + 0.5) / samplesPerAxis) * (maxY - minY)
+      )
+      if (isPointInPolygon(point, outline)) {
+        points.push(fromSurfaceCoordinates(point, frame).addScaledVector(frame.normal, lift))
+      }
+    }
+  }
+
+  // Tiny or thin surfaces may not contain any cell center
+  if (points.length === 0) {
+    const centroid = surface.reduce((sum, p) => sum.add(p), new THREE.Vector3()).divideScalar(surface.length)
+    points.push(centroid.addScaledVector(frame.normal, lift))
+  }
+
+  return { points, normal: frame.normal }
+}
+
+// Months of the summer half year in the northern hemisphere, April to September
+const NORTHERN_SUMMER = [3, 4, 5, 6, 7, 8]
+
+/**
+ * Insolation of a surface over a period, in kWh/m².
+ * Summer is the half year around the summer solstice, so it depends on the hemisphere.
+ */
+export function getPeriodInsolation(profile: ShadingProfile, period: InsolationPeriod, latitude: number): number {
+  if (period === 'annual') return profile.annualInsolation
+  const isNorthernSummer = (period === 'summer') === latitude >= 0
+  return profile.insolation
+    .filter((_, month) => NORTHERN_SUMMER.includes(month) === isNorthernSummer)
+    .reduce((total, value) => total + value, 0)
+}
+
+interface SunSample {
+  direction: THREE.Vector3
+  sky: SkyIrradiance
+  /** Number of days this sample stands for */
+  days: number
+}
+
+// Sun positions for every sampled day of every month, grouped by local hour
+function sampleSun(options: ShadingOptions): SunSample[][][] {
+  const { latitude, longitude } = options
+  const year = options.year ?? new Date().getFullYear()
+  const utcOffset = options.utcOffset ?? Math.round(longitude / 15)
+  const daysPerMonth = Math.max(1, Math.round(options.daysPerMonth ?? 1))
+
+  return Array.from({ length: 12 }, (_, month) => {
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+    return Array.from({ length: 24 }, (_, hour) => {
+      const samples: SunSample[] = []
+      for (let d = 0; d < daysPerMonth; d++) {
+        const day = Math.floor(((d + 0.5) / daysPerMonth) * daysInMonth) + 1
+        // Middle of the local hour, converted to UTC
+        const date = new Date(Date.UTC(year, month, day, hour, 30) - utcOffset * 3600 * 1000)
+        const direction = getSunDirection(date, latitude, longitude)
+        if (direction) {
+          const sky = getClearSkyIrradiance(date, Math.asin(direction.y))
+          samples.push({ direction, sky, days: daysInMonth / daysPerMonth })
+        }
+      }
+      return samples
+    })
+  })
+}
+
+// Every daylight hour of the weather data, with its sun direction
+function sampleWeather(options: ShadingOptions): SunSample[][][] | null {
+  if (!options.weather) return null
+  const { latitude, longitude } = options
+  const year = options.year ?? new Date().getFullYear()
+  const utcOffset = options.utcOffset ?? Math.round(longitude / 15)
+
+  const samples: SunSample[][][] = Array.from({ length: 12 }, () => Array.from({ length: 24 }, () => []))
+  for (const { date, month, hour, sky } of getWeatherHours(options.weather, year, utcOffset)) {
+    const direction = getSunDirection(date, latitude, longitude)
+    if (direction) samples[month][hour].push({ direction, sky, days: 1 })
+  }
+  return samples
+}
+
+// Irradiation per month in Wh/m² from weather samples, with the direct part reduced by the traced shading
+function getWeatherInsolation(normal: THREE.Vector3, totals: ShadingTotals, weatherSamples: SunSample[][][]): number[] {
+  return weatherSamples.map((hours, month) =>
+    hours.reduce((total, samples, hour) => {
+      const weight = totals.weight[month][hour]
+      const shaded = weight > 0 ? totals.shaded[month][hour] / weight : 0
+      return samples.reduce((sum, { direction, sky }) => {
+        const irradiance = getPlaneOfArrayIrradiance(sky, direction, normal)
+        return sum + irradiance.beam * (1 - shaded) + irradiance.diffuse + irradiance.reflected
+      }, total)
+    }, 0)
+  )
+}
+
+interface ShadingTotals {
+  /** Shaded fraction weighted by incidence, per month and hour */
+  shaded: number[][]
+  /** Incidence weight of direct sunlight, per month and hour */
+  weight: number[][]
+  /** Irradiation reaching the surface after shading per month, in Wh/m² */
+  insolation: number[]
+}
+
+function traceSurface(
+  points: THREE.Vector3[],
+  normal: THREE.Vector3,
+  sunSamples: SunSample[][][],
+  occluder: THREE.Mesh,
+  raycaster: THREE.Raycaster,
+  weatherSamples: SunSample[][][] | null
+): ShadingTotals {
+  const shaded = sunSamples.map((hours) => hours.map(() => 0))
+  const weight = sunSamples.map((hours) => hours.map(() => 0))
+  const insolation = sunSamples.map(() => 0)
+
+  sunSamples.forEach((hours, month) => {
+    hours.forEach((samples, hour) => {
+      for (const { direction, sky, days } of samples) {
+        const irradiance = getPlaneOfArrayIrradiance(sky, direction, normal)
+        // Diffuse and reflected light arrive even when the sun is blocked or behind the surface
+        insolation[month] += (irradiance.diffuse + irradiance.reflected) * days
+
+        const incidence = normal.dot(direction)
+        if (incidence < MIN_INCIDENCE) continue
+
+        let blocked = 0
+        for (const point of points) {
+          raycaster.set(point, direction)
+          if (raycaster.intersectObject(occluder, false).length > 0) blocked++
+        }
+
+        const shadedFraction = blocked / points.length
+        shaded[month][hour] += incidence * shadedFraction
+        weight[month][hour] += incidence
+        insolation[month] += irradiance.beam * (1 - shadedFraction) * days
+      }
+    })
+  })
+
+  const totals = { shaded, weight, insolation }
+  return weatherSamples ? { ...totals, insolation: getWeatherInsolation(normal, totals, weatherSamples) } : totals
+}
+
+function toProfile({ shaded, weight, insolation }: ShadingTotals): ShadingProfile {
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+  const monthlyShaded = shaded.map(sum)
+  const monthlyWeight = weight.map(sum)
+  const annualWeight = sum(monthlyWeight)
+
+  return {
+    hourly: shaded.map((hours, month) =>
+      hours.map((value, hour) => (weight[month][hour] > 0 ? value / weight[month][hour] : null))
+    ),
+    monthly: monthlyShaded.map((value, month) => (monthlyWeight[month] > 0 ? value / monthlyWeight[month] : 0)),
+    annual: annualWeight > 0 ? sum(monthlyShaded) / annualWeight : 0,
+    insolation: insolation.map((value) => value / 1000),
+    annualInsolation: sum(insolation) / 1000,
+  }
+}
+
+// Combine equally sized surfaces, such as the panels of an array
+function mergeTotals(totals: ShadingTotals[]): ShadingTotals {
+  const shaded = Array.from({ length: 12 }, () => new Array<number>(24).fill(0))
+  const weight = Array.from({ length: 12 }, () => new Array<number>(24).fill(0))
+  const insolation = new Array<number>(12).fill(0)
+  for (const total of totals) {
+    for (let month = 0; month < 12; month++) {
+      for (let hour = 0; hour < 24; hour++) {
+        shaded[month][hour] += total.shaded[month][hour]
+        weight[month][hour] += total.weight[month][hour]
+      }
+      insolation[month] += total.insolation[month] / totals.length
+    }
+  }
+  return { shaded, weight, insolation }
+}
+
+/**
+ * Shading of any planar surface by the given occluder over a year.
+ * Each sample point is shaded when a ray towards the sun hits the occluder;
+ * samples are weighted by the angle of incidence, so the figures are the share of direct sunlight lost.
+ */
+export function analyzeSurfaceShading(
+  surface: THREE.Vector3[],
+  occluder: THREE.Mesh,
+  options: ShadingOptions
+): ShadingProfile {
+  const { points, normal } = sampleSurface(surface, options.samplesPerAxis ?? 6)
+  return toProfile(
+    traceSurface(points, normal, sampleSun(options), occluder, createShadowRaycaster(), sampleWeather(options))
+  )
+}
+
+// Trace one surface per step, so the work can be spread over several tasks
+function* traceScene(
+  buildings: Building[],
+  polygons: Polygon[],
+  panelArrays: PanelArray[],
+  occluder: THREE.Mesh,
+  options: ShadingOptions
+): Generator<void, ShadingAnalysis> {
+  const sunSamples = sampleSun(options)
+  const weatherSamples = sampleWeather(options)
+  const raycaster = createShadowRaycaster()
+  const samplesPerAxis = options.samplesPerAxis ?? 6
+  const maxSamplesPerArray = options.maxSamplesPerArray ?? DEFAULT_MAX_SAMPLES_PER_ARRAY
+
+  const roofFaces: RoofFaceShading[] = []
+  for (const building of buildings) {
+    const { vertices, faces } = getBuildingRoof(building, polygons)
+    for (const [faceIndex, face] of faces.entries()) {
+      const surface = face.vertexIndices.map((i) => vertices[i])
+      const { points, normal } = sampleSurface(surface, samplesPerAxis)
+      roofFaces.push({
+        buildingId: building.id,
+        faceIndex,
+        profile: toProfile(traceSurface(points, normal, sunSamples, occluder, raycaster, weatherSamples)),
+      })
+      yield
+    }
+  }
+
+  const arrays: PanelArrayShading[] = []
+  for (const panelArray of panelArrays) {
+    // Panels are small, so fewer samples per panel are enough, and large arrays get fewer still
+    const budgetPerAxis = Math.floor(Math.sqrt(maxSamplesPerArray / Math.max(1, panelArray.panels.length)))
+    const samplesPerPanelAxis = Math.max(1, Math.min(Math.ceil(samplesPerAxis / 2), budgetPerAxis))
+
+    const panelTotals: ShadingTotals[] = []
+    for (const corners of panelArray.panels) {
+      const { points, normal } = sampleSurface(corners, samplesPerPanelAxis)
+      panelTotals.push(traceSurface(points, normal, sunSamples, occluder, raycaster, weatherSamples))
+      yield
+    }
+    arrays.push({
+      panelArrayId: panelArray.id,
+      profile: toProfile(mergeTotals(panelTotals)),
+      panels: panelTotals.map(toProfile),
+    })
+  }
+
+  return { roofFaces, panelArrays: arrays }
+}
+
+/**
+ * Shading of every roof face of every building and of every placed panel array.
+ * Buildings and obstructions are merged into one occluder that is shared by all surfaces.
+ */
+export function analyzeShading(
+  buildings: Building[],
+  polygons: Polygon[],
+  panelArrays: PanelArray[],
+  options: ShadingOptions
+): ShadingAnalysis {
+  const occluder = buildShadingOccluder(buildings, polygons)
+  try {
+    const steps = traceScene(buildings, polygons, panelArrays, occluder, options)
+    let step = steps.next()
+    while (!step.done) step = steps.next()
+    return step.value
+  } finally {
+    disposeOccluder(occluder)
+  }
+}
+
+// Run the callback when the browser is idle, or on the next task where it can't tell
+function whenIdle(callback: (deadline?: IdleDeadline) => void): void {
+  if (typeof requestIdleCallback === 'function') {
+    requestIdleCallback(callback, { timeout: 1000 })
+  } else {
+    setTimeout(callback, 0)
+  }
+}
+
+/**
+ * Same as analyzeShading, but traced a few surfaces at a time while the browser is idle, so the page stays
+ * responsive. Aborting the signal stops the analysis and rejects the promise with the signal's reason.
+ */
+export function analyzeShadingAsync(
+  buildings: Building[],
+  polygons: Polygon[],
+  panelArrays: PanelArray[],
+  options: ShadingOptions,
+  signal?: AbortSignal
+): Promise<ShadingAnalysis> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const occluder = buildShadingOccluder(buildings, polygons)
+    const steps = traceScene(buildings, polygons, panelArrays, occluder, options)
+
+    const runChunk = (deadline?: IdleDeadline) => {
+      if (signal?.aborted) {
+        disposeOccluder(occluder)
+        reject(signal.reason)
+        return
+      }
+
+      const end = performance.now() + CHUNK_BUDGET
+      const hasTime = () => (deadline ? deadline.timeRemaining() > 1 : performance.now() < end)
+      try {
+        do {
+          const step = steps.next()
+          if (step.done) {
+            disposeOccluder(occluder)
+            resolve(step.value)
+            return
+          }
+        } while (hasTime())
+      } catch (error) {
+        disposeOccluder(occluder)
+        reject(error)
+        return
+      }
+      whenIdle(runChunk)
+    }
+
+    whenIdle(runChunk)
+  })
+}
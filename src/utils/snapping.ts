@@ -0,0 +1,224 @@
+import * as THREE from 'three'
+import type { Polygon } from '../components/Canvas3D/types'
+import type { VertexRef } from './topology'
+
+export type SnapKind = 'vertex' | 'midpoint' | 'edge' | 'angle' | 'parallel' | 'perpendicular' | 'grid'
+
+export interface SnapSettings {
+  /** Master switch */
+  enabled: boolean
+  /** Snap to existing vertices of every polygon */
+  vertices: boolean
+  /** Snap to edge midpoints and onto edges */
+  edges: boolean
+  /** Snap the new edge to angle increments relative to the previous edge */
+  angles: boolean
+  /** Snap the new edge parallel or perpendicular to nearby edges */
+  alignment: boolean
+  /** Snap to a metric grid */
+  grid: boolean
+  /** Angle increment in degrees */
+  angleStep: number
+  /** Grid spacing in meters (in Three.js units while the image scale is unknown) */
+  gridSize: number
+  /** Snap distance in Three.js units */
+  tolerance: number
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  enabled: true,
+  vertices: true,
+  edges: true,
+  angles: true,
+  alignment: true,
+  grid: false,
+  angleStep: 45,
+  gridSize: 0.5,
+  tolerance: 0.08,
+}
+
+export interface SnapContext {
+  polygons: Polygon[]
+  settings: SnapSettings
+  /** Points placed before this one, most recent last; the new edge starts at the last one */
+  previousPoints?: THREE.Vector3[]
+  /** Vertices being moved (with the corners linked to them), which must not snap to themselves or their own edges */
+  exclude?: VertexRef[]
+  /** Three.js units per meter, for the metric grid */
+  unitsPerMeter?: number | null
+}
+
+export interface SnapResult {
+  point: THREE.Vector3
+  /** What the point snapped to, or null when it was left where it was */
+  kind: SnapKind | null
+  /** The existing vertex the point landed on */
+  vertex?: VertexRef
+  /** Edge or alignment line the point snapped to, for the indicator */
+  guide?: [THREE.Vector3, THREE.Vector3]
+}
+
+// Edges further than this many tolerances from the cursor are not used for alignment
+const ALIGNMENT_RANGE = 12
+
+interface Edge {
+  polygonId: string
+  start: THREE.Vector3
+  end: THREE.Vector3
+}
+
+function toGround(point: THREE.Vector3): THREE.Vector2 {
+  return new THREE.Vector2(point.x, point.z)
+}
+
+function fromGround(point: THREE.Vector2, y: number): THREE.Vector3 {
+  return new THREE.Vector3(point.x, y, point.y)
+}
+
+// Closest point on segment ab to p
+function projectOnSegment(p: THREE.Vector2, a: THREE.Vector2, b: THREE.Vector2): THREE.Vector2 {
+  const ab = new THREE.Vector2().subVectors(b, a)
+  const lengthSq = ab.lengthSq()
+  if (lengthSq === 0) return a.clone()
+  const t = THREE.MathUtils.clamp(new THREE.Vector2().subVectors(p, a).dot(ab) / lengthSq, 0, 1)
+  return a.clone().addScaledVector(ab, t)
+}
+
+function isExcluded(exclude: VertexRef[], polygonId: string, pointIndex: number): boolean {
+  return exclude.some((v) => v.polygonId === polygonId && v.pointIndex === pointIndex)
+}
+
+function getEdges(polygons: Polygon[], exclude: VertexRef[]): Edge[] {
+  const edges: Edge[] = []
+  for (const polygon of polygons) {
+    if (polygon.visible === false) continue
+    const count = polygon.points.length
+    for (let i = 0; i < count; i++) {
+      const j = (i + 1) % count
+      // Edges of the moved vertex move with it
+      if (isExcluded(exclude, polygon.id, i) || isExcluded(exclude, polygon.id, j)) continue
+      edges.push({ polygonId: polygon.id, start: polygon.points[i], end: polygon.points[j] })
+    }
+  }
+  return edges
+}
+
+/**
+ * Snap a point on the image plane to nearby geometry.
+ * Vertices win over edge midpoints, which win over edges; then the new edge is aligned to angle increments
+ * or nearby edges, and finally the point is rounded to the grid.
+ */
+export function snapPoint(point: THREE.Vector3, context: SnapContext): SnapResult {
+  const { polygons, settings, previousPoints = [], exclude = [], unitsPerMeter } = context
+  if (!settings.enabled) return { point, kind: null }
+
+  const cursor = toGround(point)
+  const tolerance = settings.tolerance
+
+  // Existing vertices
+  if (settings.vertices) {
+    let best: SnapResult | null = null
+    let bestDistance = tolerance
+    for (const polygon of polygons) {
+      if (polygon.visible === false) continue
+      for (let pointIndex = 0; pointIndex < polygon.points.length; pointIndex++) {
+        if (isExcluded(exclude, polygon.id, pointIndex)) continue
+        const vertex = toGround(polygon.points[pointIndex])
+        const distance = vertex.distanceTo(cursor)
+        if (distance <= bestDistance) {
+          bestDistance = distance
+          best = { point: fromGround(vertex, point.y), kind: 'vertex', vertex: { polygonId: polygon.id, pointIndex } }
+        }
+      }
+    }
+    if (best) return best
+  }
+
+  const edges = getEdges(polygons, exclude)
+
+  // Edge midpoints, then the closest point on an edge
+  if (settings.edges) {
+    let bestMidpoint: SnapResult | null = null
+    let bestProjection: SnapResult | null = null
+    let bestMidpointDistance = tolerance
+    let bestProjectionDistance = tolerance
+    for (const edge of edges) {
+      const a = toGround(edge.start)
+      const b = toGround(edge.end)
+      const midpoint = new THREE.Vector2().addVectors(a, b).multiplyScalar(0.5)
+      const midpointDistance = midpoint.distanceTo(cursor)
+      if (midpointDistance <= bestMidpointDistance) {
+        bestMidpointDistance = midpointDistance
+        bestMidpoint = { point: fromGround(midpoint, point.y), kind: 'midpoint', guide: [edge.start, edge.end] }
+      }
+      const projection = projectOnSegment(cursor, a, b)
+      const projectionDistance = projection.distanceTo(cursor)
+      if (projectionDistance <= bestProjectionDistance) {
+        bestProjectionDistance = projectionDistance
+        bestProjection = { point: fromGround(projection, point.y), kind: 'edge', guide: [edge.start, edge.end] }
+      }
+    }
+    if (bestMidpoint) return bestMidpoint
+    if (bestProjection) return bestProjection
+  }
+
+  const gridStep = settings.gridSize * (unitsPerMeter ?? 1)
+  const anchor = previousPoints.length > 0 ? toGround(previousPoints[previousPoints.length - 1]) : null
+
+  // Directions the new edge may follow from the previous point
+  if (anchor && cursor.distanceTo(anchor) > tolerance) {
+    const directions: { direction: THREE.Vector2; kind: SnapKind }[] = []
+
+    if (settings.angles && settings.angleStep > 0) {
+      // Relative to the previous edge, or to the image axes for the first edge
+      const reference =
+        previousPoints.length > 1
+          ? new THREE.Vector2().subVectors(anchor, toGround(previousPoints[previousPoints.length - 2])).normalize()
+          : new THREE.Vector2(1, 0)
+      const step = THREE.MathUtils.degToRad(settings.angleStep)
+      const count = Math.round((2 * Math.PI) / step)
+      for (let k = 0; k < count; k++) {
+        directions.push({ direction: reference.clone().rotateAround(new THREE.Vector2(), k * step), kind: 'angle' })
+      }
+    }
+
+    if (settings.alignment) {
+      for (const edge of edges) {
+        const a = toGround(edge.start)
+        const b = toGround(edge.end)
+        if (projectOnSegment(cursor, a, b).distanceTo(cursor) > tolerance * ALIGNMENT_RANGE) continue
+        const direction = new THREE.Vector2().subVectors(b, a)
+        if (direction.lengthSq() === 0) continue
+        direction.normalize()
+        directions.push({ direction, kind: 'parallel' })
+        directions.push({ direction: new THREE.Vector2(-direction.y, direction.x), kind: 'perpendicular' })
+      }
+    }
+
+    let best: { projection: THREE.Vector2; kind: SnapKind } | null = null
+    let bestDistance = tolerance
+    for (const { direction, kind } of directions) {
+      const length = new THREE.Vector2().subVectors(cursor, anchor).dot(direction)
+      if (length <= 0) continue
+      const projection = anchor.clone().addScaledVector(direction, length)
+      const distance = projection.distanceTo(cursor)
+      if (distance < bestDistance) {
+        bestDistance = distance
+        // Keep the edge length on the grid
+        const snappedLength = settings.grid && gridStep > 0 ? Math.max(gridStep, Math.round(length / gridStep) * gridStep) : length
+        best = { projection: anchor.clone().addScaledVector(direction, snappedLength), kind }
+      }
+    }
+    if (best) {
+      const snapped = fromGround(best.projection, point.y)
+      return { point: snapped, kind: best.kind, guide: [fromGround(anchor, point.y), snapped] }
+    }
+  }
+
+  if (settings.grid && gridStep > 0) {
+    const snapped = new THREE.Vector3(Math.round(point.x / gridStep) * gridStep, point.y, Math.round(point.z / gridStep) * gridStep)
+    return { point: snapped, kind: 'grid' }
+  }
+
+  return { point, kind: null }
+}
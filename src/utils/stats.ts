@@ -0,0 +1,87 @@
+import type { Polygon, Building } from '../components/Canvas3D/types'
+import { signedArea, toGroundPoints, getUnitsPerMeter } from './geometry'
+import { getObstructedArea, isObstruction } from './obstructions'
+import { getBuildingRoof } from './roof'
+
+export interface AreaStatsOptions {
+  /** Pixels per meter of the image; with imageWidth, gives the results in m² and m */
+  pixelsPerMeter?: number | null
+  /** Image width in pixels */
+  imageWidth?: number | null
+}
+
+/**
+ * Areas in m² and lengths in m when the image scale is known, otherwise in Three.js units
+ */
+export interface PolygonStats {
+  /** Area enclosed by the outline seen from above */
+  footprintArea: number
+  /** Length of the outline */
+  perimeter: number
+  /** Sloped surface of the roof faces built on the polygon, or the footprint area while it has no roof */
+  roofArea: number
+  /** Roof area left once the obstructions and their setback buffers are taken out (0 for obstructions) */
+  usableArea: number
+}
+
+export interface ProjectStats extends PolygonStats {
+  /** Number of roof outlines counted; obstructions are left out of the totals */
+  roofCount: number
+}
+
+/**
+ * Footprint area, perimeter, pitch-adjusted roof area and usable roof area of a polygon.
+ * The usable area leaves out the obstructions among the polygons, as getObstructedArea measures them.
+ */
+export function getPolygonStats(
+  polygon: Polygon,
+  buildings: Building[],
+  polygons: Polygon[],
+  options: AreaStatsOptions = {}
+): PolygonStats {
+  const unitsPerMeter = getUnitsPerMeter(options.pixelsPerMeter, options.imageWidth) ?? 1
+  const flat = toGroundPoints(polygon.points)
+
+  const footprintArea = flat.length >= 3 ? Math.abs(signedArea(flat)) : 0
+  const perimeter = flat.length >= 2 ? flat.reduce((sum, point, i) => sum + point.distanceTo(flat[(i + 1) % flat.length]), 0) : 0
+
+  const roofs = buildings
+    .filter((b) => b.polygonId === polygon.id)
+    .map((b) => getBuildingRoof(b, polygons))
+    .filter((roof) => roof.faces.length > 0)
+  // Every roof face, or the polygon itself while it has no roof
+  const surfaces = roofs.length > 0
+    ? roofs.flatMap((roof) =>
+        roof.faces.map((face) => ({ area: face.area, points: face.vertexIndices.map((i) => roof.vertices[i]) }))
+      )
+    : [{ area: footprintArea, points: polygon.points }]
+
+  const roofArea = surfaces.reduce((sum, surface) => sum + surface.area, 0)
+  const usableArea = isObstruction(polygon)
+    ? 0
+    : surfaces.reduce((sum, surface) => sum + Math.max(0, surface.area - getObstructedArea(surface.points, polygons)), 0)
+
+  return {
+    footprintArea: footprintArea / (unitsPerMeter * unitsPerMeter),
+    perimeter: perimeter / unitsPerMeter,
+    roofArea: roofArea / (unitsPerMeter * unitsPerMeter),
+    usableArea: usableArea / (unitsPerMeter * unitsPerMeter),
+  }
+}
+
+/**
+ * Totals over every roof outline of the project (obstructions excluded)
+ */
+export function getProjectStats(polygons: Polygon[], buildings: Building[], options: AreaStatsOptions = {}): ProjectStats {
+  const totals: ProjectStats = { footprintArea: 0, perimeter: 0, roofArea: 0, usableArea: 0, roofCount: 0 }
+  for (const polygon of polygons) {
+    if (isObstruction(polygon)) continue
+    const stats = getPolygonStats(polygon, buildings, polygons, options)
+    totals.footprintArea += stats.footprintArea
+    totals.perimeter += stats.perimeter
+    totals.roofArea += stats.roofArea
+    totals.usableArea += stats.usableArea
+    totals.roofCount++
+  }
+  return totals
+}
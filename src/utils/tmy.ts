@@ -0,0 +1,247 @@
+import type { SkyIrradiance } from './irradiance'
+
+/**
+ * One hour of a typical meteorological year
+ */
+export interface WeatherRecord {
+  /** Month (0-11) of the hour in the file's time zone */
+  month: number
+  /** Day of the month (1-31) */
+  day: number
+  /** Hour (0-23) at which the period starts */
+  hour: number
+  /** Global horizontal irradiance in W/m² */
+  ghi: number
+  /** Direct normal irradiance in W/m² */
+  dni: number
+  /** Diffuse horizontal irradiance in W/m² */
+  dhi: number
+  /** Ambient air temperature in °C */
+  temperature: number
+}
+
+/**
+ * Hourly irradiance and temperature for a site, typically 8760 records
+ */
+export interface WeatherData {
+  records: WeatherRecord[]
+  /** Offset of the record times from UTC in hours, or undefined when they are in the site's local time */
+  utcOffset?: number
+  /** Site location, when the file states it */
+  latitude?: number
+  longitude?: number
+}
+
+/**
+ * A weather record placed in a simulated year, with its month and hour in the site's local time
+ */
+export interface WeatherHour {
+  /** Middle of the hour */
+  date: Date
+  month: number
+  hour: number
+  sky: SkyIrradiance
+  temperature: number
+}
+
+export interface ParseTmyOptions {
+  /** Offset of the record times from UTC in hours, overriding the one found in the file */
+  utcOffset?: number
+}
+
+// Column names used by PVGIS, NREL TMY3, NSRDB and plain exports, compared in lower case
+const COLUMN_NAMES = {
+  ghi: ['ghi', 'g(h)', 'ghi (w/m^2)', 'ghi (w/m2)'],
+  dni: ['dni', 'gb(n)', 'dni (w/m^2)', 'dni (w/m2)'],
+  dhi: ['dhi', 'gd(h)', 'dhi (w/m^2)', 'dhi (w/m2)'],
+  temperature: ['temperature', 't2m', 'temp_air', 'dry-bulb (c)', 'dry bulb temperature', 'temp'],
+  month: ['month'],
+  day: ['day'],
+  hour: ['hour'],
+  timestamp: ['time(utc)', 'time', 'timestamp', 'datetime'],
+  date: ['date (mm/dd/yyyy)'],
+  time: ['time (hh:mm)'],
+}
+
+type ColumnName = keyof typeof COLUMN_NAMES
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let field = ''
+  let isQuoted = false
+  for (const char of line) {
+    if (char === '"') isQuoted = !isQuoted
+    else if (char === ',' && !isQuoted) {
+      fields.push(field.trim())
+      field = ''
+    } else field += char
+  }
+  fields.push(field.trim())
+  return fields
+}
+
+function findColumns(header: string[]): Partial<Record<ColumnName, number>> {
+  const normalized = header.map((name) => name.toLowerCase())
+  const columns: Partial<Record<ColumnName, number>> = {}
+  for (const [column, names] of Object.entries(COLUMN_NAMES) as [ColumnName, string[]][]) {
+    const index = normalized.findIndex((name) => names.includes(name))
+    if (index >= 0) columns[column] = index
+  }
+  return columns
+}
+
+// Time zone and location from the lines above the data header
+function parseMetadata(lines: string[]): Omit<WeatherData, 'records'> {
+  const metadata: Omit<WeatherData, 'records'> = {}
+
+  // PVGIS: "Latitude (decimal degrees): 52.230"; timestamps are in UTC
+  for (const line of lines) {
+    const match = /^(latitude|longitude)[^:]*:\s*(-?[\d.]+)/i.exec(line)
+    if (match) metadata[match[1].toLowerCase() as 'latitude' | 'longitude'] = parseFloat(match[2])
+  }
+
+  // NSRDB: a row of names followed by a row of values
+  if (lines.length >= 2) {
+    const names = splitCsvLine(lines[0]).map((name) => name.toLowerCase())
+    const values = splitCsvLine(lines[1])
+    const value = (name: string) => {
+      const index = names.indexOf(name)
+      return index >= 0 ? parseFloat(values[index]) : NaN
+    }
+    if (!isNaN(value('time zone'))) metadata.utcOffset = value('time zone')
+    if (!isNaN(value('latitude'))) metadata.latitude = value('latitude')
+    if (!isNaN(value('longitude'))) metadata.longitude = value('longitude')
+  }
+
+  // NREL TMY3: station id, name, state, time zone, latitude, longitude, elevation
+  if (lines.length === 1) {
+    const fields = splitCsvLine(lines[0])
+    if (fields.length >= 6 && !isNaN(parseFloat(fields[3]))) {
+      metadata.utcOffset = parseFloat(fields[3])
+      metadata.latitude = parseFloat(fields[4])
+      metadata.longitude = parseFloat(fields[5])
+    }
+  }
+
+  return metadata
+}
+
+/**
+ * Parse a typical-meteorological-year CSV with hourly GHI, DNI, DHI and temperature.
+ * Reads PVGIS and NREL (TMY3, NSRDB) exports, and any CSV with ghi, dni, dhi and temperature columns;
+ * rows without month, day and hour columns are taken as consecutive hours from January 1st.
+ */
+export function parseTmyCsv(csv: string, options: ParseTmyOptions = {}): WeatherData {
+  const lines = csv.split(/\r?\n/)
+  const headerIndex = lines.findIndex((line) => {
+    const columns = findColumns(splitCsvLine(line))
+    return columns.ghi !== undefined && columns.dni !== undefined && columns.dhi !== undefined
+  })
+  if (headerIndex < 0) {
+    throw new Error('No header with GHI, DNI and DHI columns found')
+  }
+
+  const metadataLines = lines.slice(0, headerIndex).filter((line) => line.trim() !== '')
+  const metadata = parseMetadata(metadataLines)
+  const columns = findColumns(splitCsvLine(lines[headerIndex]))
+  const isPvgis = columns.timestamp !== undefined && /utc/i.test(lines[headerIndex])
+  const records: WeatherRecord[] = []
+
+  for (const line of lines.slice(headerIndex + 1)) {
+    const fields = splitCsvLine(line)
+    const number = (column: ColumnName) => {
+      const index = columns[column]
+      return index !== undefined ? parseFloat(fields[index]) : NaN
+    }
+
+    const ghi = number('ghi')
+    const dni = number('dni')
+    const dhi = number('dhi')
+    // PVGIS ends the data with a legend
+    if (isNaN(ghi) || isNaN(dni) || isNaN(dhi)) continue
+
+    let month: number, day: number, hour: number
+    if (columns.date !== undefined && columns.time !== undefined) {
+      // TMY3: "01/31/1988" and "24:00", where the time ends the hour
+      const [m, d] = fields[columns.date].split('/').map(Number)
+      month = m - 1
+      day = d
+      hour = parseInt(fields[columns.time], 10) - 1
+    } else if (columns.month !== undefined && columns.day !== undefined && columns.hour !== undefined) {
+      month = number('month') - 1
+      day = number('day')
+      hour = number('hour')
+    } else if (columns.timestamp !== undefined) {
+      // PVGIS: "20070101:0010"; ISO: "2007-01-01T00:00"
+      const digits = fields[columns.timestamp].replace(/\D/g, '')
+      month = parseInt(digits.slice(4, 6), 10) - 1
+      day = parseInt(digits.slice(6, 8), 10)
+      hour = parseInt(digits.slice(8, 10), 10)
+    } else {
+      const start = new Date(Date.UTC(2001, 0, 1, records.length))
+      month = start.getUTCMonth()
+      day = start.getUTCDate()
+      hour = start.getUTCHours()
+    }
+
+    records.push({
+      month,
+      day,
+      hour,
+      ghi,
+      dni,
+      dhi,
+      temperature: isNaN(number('temperature')) ? 15 : number('temperature'),
+    })
+  }
+
+  if (records.length === 0) {
+    throw new Error('No hourly records found')
+  }
+
+  return {
+    records,
+    utcOffset: options.utcOffset ?? metadata.utcOffset ?? (isPvgis ? 0 : undefined),
+    latitude: metadata.latitude,
+    longitude: metadata.longitude,
+  }
+}
+
+/**
+ * Read a TMY CSV from a file picked by the user, or fetch it from a URL
+ */
+export async function loadTmyFile(source: Blob | string, options: ParseTmyOptions = {}): Promise<WeatherData> {
+  const csv = typeof source === 'string'
+    ? await fetch(source).then((response) => {
+        if (!response.ok) throw new Error(`Failed to load ${source}: ${response.status}`)
+        return response.text()
+      })
+    : await source.text()
+  return parseTmyCsv(csv, options)
+}
+
+/**
+ * Place the weather records in a year and convert their times to the site's local time.
+ * Records for February 29th are dropped in years that do not have one.
+ */
+export function getWeatherHours(weather: WeatherData, year: number, utcOffset: number): WeatherHour[] {
+  const hours: WeatherHour[] = []
+
+  for (const record of weather.records) {
+    const time = Date.UTC(year, record.month, record.day, record.hour, 30)
+    if (new Date(time).getUTCMonth() !== record.month) continue
+
+    const date = new Date(time - (weather.utcOffset ?? utcOffset) * 3600 * 1000)
+    const local = new Date(date.getTime() + utcOffset * 3600 * 1000)
+
+    hours.push({
+      date,
+      month: local.getUTCMonth(),
+      hour: local.getUTCHours(),
+      sky: { beam: record.dni, diffuse: record.dhi, global: record.ghi },
+      temperature: record.temperature,
+    })
+  }
+
+  return hours
+}
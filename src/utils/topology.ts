@@ -0,0 +1,92 @@
+import * as THREE from 'three'
+import type { Polygon } from '../components/Canvas3D/types'
+
+/** A point of a polygon, by polygon id and index into its points */
+export interface VertexRef {
+  polygonId: string
+  pointIndex: number
+}
+
+/** Edge of a polygon from point edgeIndex to the next point */
+export interface EdgeRef {
+  polygonId: string
+  edgeIndex: number
+}
+
+// Vertices closer than this (in Three.js units) are the same corner; snapped points are exactly equal
+export const VERTEX_LINK_TOLERANCE = 1e-6
+
+function isSamePosition(a: THREE.Vector3, b: THREE.Vector3): boolean {
+  return Math.abs(a.x - b.x) <= VERTEX_LINK_TOLERANCE && Math.abs(a.z - b.z) <= VERTEX_LINK_TOLERANCE
+}
+
+/**
+ * All vertices at the same position as the given one, in any polygon, including the vertex itself.
+ * Adjacent polygons share a corner by having a point at the same position (e.g. placed with vertex snapping).
+ */
+export function findLinkedVertices(polygons: Polygon[], vertex: VertexRef): VertexRef[] {
+  const position = polygons.find((p) => p.id === vertex.polygonId)?.points[vertex.pointIndex]
+  if (!position) return []
+
+  const linked: VertexRef[] = []
+  for (const polygon of polygons) {
+    polygon.points.forEach((point, pointIndex) => {
+      if (isSamePosition(point, position)) {
+        linked.push({ polygonId: polygon.id, pointIndex })
+      }
+    })
+  }
+  return linked
+}
+
+/**
+ * Edges of other polygons running between the same two corners as the given edge, in either direction
+ */
+export function findSharedEdges(polygons: Polygon[], edge: EdgeRef): EdgeRef[] {
+  const source = polygons.find((p) => p.id === edge.polygonId)
+  if (!source || source.points.length < 2) return []
+  const start = source.points[edge.edgeIndex]
+  const end = source.points[(edge.edgeIndex + 1) % source.points.length]
+
+  const shared: EdgeRef[] = []
+  for (const polygon of polygons) {
+    if (polygon.id === edge.polygonId) continue
+    const count = polygon.points.length
+    for (let i = 0; i < count; i++) {
+      const a = polygon.points[i]
+      const b = polygon.points[(i + 1) % count]
+      if ((isSamePosition(a, start) && isSamePosition(b, end)) || (isSamePosition(a, end) && isSamePosition(b, start))) {
+        shared.push({ polygonId: polygon.id, edgeIndex: i })
+      }
+    }
+  }
+  return shared
+}
+
+/**
+ * Move every given vertex to the position, keeping each polygon's other points
+ */
+export function moveVertices(polygons: Polygon[], vertices: VertexRef[], position: THREE.Vector3): Polygon[] {
+  return polygons.map((polygon) => {
+    const indices = vertices.filter((v) => v.polygonId === polygon.id).map((v) => v.pointIndex)
+    if (indices.length === 0) return polygon
+    const points = [...polygon.points]
+    for (const index of indices) {
+      points[index] = position.clone()
+    }
+    return { ...polygon, points }
+  })
+}
+
+/**
+ * Insert a point after edgeIndex, shifting the internal lines that refer to later points
+ */
+export function insertPointOnEdge(polygon: Polygon, edgeIndex: number, position: THREE.Vector3): Polygon {
+  const points = [...polygon.points]
+  points.splice(edgeIndex + 1, 0, position)
+  const lines = (polygon.lines || []).map(([a, b]) => [
+    a > edgeIndex ? a + 1 : a,
+    b > edgeIndex ? b + 1 : b,
+  ] as [number, number])
+  return { ...polygon, points, lines }
+}
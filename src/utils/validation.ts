@@ -0,0 +1,166 @@
+import * as THREE from 'three'
+import type { Polygon } from '../components/Canvas3D/types'
+import { signedArea, isPointInPolygon, pointSegmentDistance, segmentsIntersect, toGroundPoints } from './geometry'
+import { VERTEX_LINK_TOLERANCE } from './topology'
+
+/** Corners closer than this (in Three.js units) are reported as near-duplicates by default */
+export const DEFAULT_VALIDATION_TOLERANCE = 1e-3
+
+export type PolygonIssueKind =
+  | 'too-few-points'
+  | 'self-intersection'
+  | 'duplicate-vertex'
+  | 'zero-length-edge'
+  | 'clockwise-winding'
+  | 'line-outside'
+
+/**
+ * Errors break the extruded building or roof faces; warnings are worth cleaning up
+ * but still give a usable outline
+ */
+export type PolygonIssueSeverity = 'error' | 'warning'
+
+export interface PolygonIssue {
+  kind: PolygonIssueKind
+  severity: PolygonIssueSeverity
+  message: string
+  /** Corners involved, as indices into the polygon's points */
+  pointIndices: number[]
+  /** Edges involved, by the index of their start point */
+  edgeIndices: number[]
+  /** Internal lines involved, as indices into the polygon's lines */
+  lineIndices: number[]
+}
+
+export interface ValidationOptions {
+  /** Distance in Three.js units below which two corners count as near-duplicates (default: DEFAULT_VALIDATION_TOLERANCE) */
+  tolerance?: number
+}
+
+function issue(
+  kind: PolygonIssueKind,
+  severity: PolygonIssueSeverity,
+  message: string,
+  involved: Partial<Pick<PolygonIssue, 'pointIndices' | 'edgeIndices' | 'lineIndices'>>
+): PolygonIssue {
+  return { kind, severity, message, pointIndices: [], edgeIndices: [], lineIndices: [], ...involved }
+}
+
+// Corners and edges are numbered from 1 in messages, as in the polygon editor
+function edgeName(index: number, count: number): string {
+  return `${index + 1}–${((index + 1) % count) + 1}`
+}
+
+function checkOutline(flat: THREE.Vector2[], tolerance: number): PolygonIssue[] {
+  const issues: PolygonIssue[] = []
+  const count = flat.length
+
+  const zeroLength = new Set<number>()
+  for (let i = 0; i < count; i++) {
+    if (flat[i].distanceTo(flat[(i + 1) % count]) <= VERTEX_LINK_TOLERANCE) {
+      zeroLength.add(i)
+      issues.push(issue('zero-length-edge', 'error', `Edge ${edgeName(i, count)} has no length`, {
+        pointIndices: [i, (i + 1) % count],
+        edgeIndices: [i],
+      }))
+    }
+  }
+
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      // Neighbours on top of each other were already reported as a zero-length edge
+      if ((zeroLength.has(i) && j === i + 1) || (zeroLength.has(j) && (j + 1) % count === i)) continue
+      const distance = flat[i].distanceTo(flat[j])
+      if (distance > tolerance) continue
+      const message = distance <= VERTEX_LINK_TOLERANCE
+        ? `Corners ${i + 1} and ${j + 1} are at the same spot`
+        : `Corners ${i + 1} and ${j + 1} almost coincide`
+      issues.push(issue('duplicate-vertex', 'warning', message, { pointIndices: [i, j] }))
+    }
+  }
+
+  // Edges that cross, or a corner resting on an edge that doesn't end there
+  for (let i = 0; i < count; i++) {
+    const a = flat[i]
+    const b = flat[(i + 1) % count]
+    for (let j = i + 1; j < count; j++) {
+      const isAdjacent = j === i + 1 || (j + 1) % count === i
+      if (isAdjacent) continue
+      if (segmentsIntersect(a, b, flat[j], flat[(j + 1) % count])) {
+        issues.push(issue('self-intersection', 'error', `Edges ${edgeName(i, count)} and ${edgeName(j, count)} cross`, {
+          edgeIndices: [i, j],
+        }))
+      }
+    }
+    for (let k = 0; k < count; k++) {
+      if (k === i || k === (i + 1) % count) continue
+      const point = flat[k]
+      if (point.distanceTo(a) <= VERTEX_LINK_TOLERANCE || point.distanceTo(b) <= VERTEX_LINK_TOLERANCE) continue
+      if (pointSegmentDistance(point, a, b) <= VERTEX_LINK_TOLERANCE) {
+        issues.push(issue('self-intersection', 'error', `Corner ${k + 1} touches edge ${edgeName(i, count)}`, {
+          pointIndices: [k],
+          edgeIndices: [i],
+        }))
+      }
+    }
+  }
+
+  // Roof faces and exports expect counter-clockwise outlines seen from above (negative area in x, z)
+  if (signedArea(flat) > 0) {
+    issues.push(issue('clockwise-winding', 'warning', 'Corners run clockwise seen from above', {}))
+  }
+
+  return issues
+}
+
+function checkLines(flat: THREE.Vector2[], lines: [number, number][]): PolygonIssue[] {
+  const issues: PolygonIssue[] = []
+  const count = flat.length
+
+  lines.forEach(([start, end], lineIndex) => {
+    const a = flat[start]
+    const b = flat[end]
+    if (!a || !b || start === end) {
+      issues.push(issue('line-outside', 'error', `Line ${lineIndex + 1} doesn't join two corners`, {
+        lineIndices: [lineIndex],
+      }))
+      return
+    }
+    const midpoint = new THREE.Vector2().addVectors(a, b).multiplyScalar(0.5)
+    const crossesEdge = flat.some((c, i) => segmentsIntersect(a, b, c, flat[(i + 1) % count]))
+    if (crossesEdge || !isPointInPolygon(midpoint, flat)) {
+      issues.push(issue('line-outside', 'error', `Line ${lineIndex + 1} runs outside the polygon`, {
+        pointIndices: [start, end],
+        lineIndices: [lineIndex],
+      }))
+    }
+  })
+
+  return issues
+}
+
+/**
+ * Check a polygon for outlines that can't be extruded or split into roof faces: crossing or touching
+ * edges, corners on top of each other, clockwise winding, and internal lines that leave the polygon.
+ * Lines may cross each other: they are the creases of the roof. Returns an empty list for a clean polygon.
+ */
+export function validatePolygon(polygon: Polygon, options: ValidationOptions = {}): PolygonIssue[] {
+  const { tolerance = DEFAULT_VALIDATION_TOLERANCE } = options
+  if (polygon.points.length < 3) {
+    return [issue('too-few-points', 'error', 'A polygon needs at least 3 corners', {})]
+  }
+  const flat = toGroundPoints(polygon.points)
+  return [...checkOutline(flat, tolerance), ...checkLines(flat, polygon.lines || [])]
+}
+
+/**
+ * Issues of every polygon that has any, by polygon id
+ */
+export function validatePolygons(polygons: Polygon[], options: ValidationOptions = {}): Map<string, PolygonIssue[]> {
+  const result = new Map<string, PolygonIssue[]>()
+  for (const polygon of polygons) {
+    const issues = validatePolygon(polygon, options)
+    if (issues.length > 0) result.set(polygon.id, issues)
+  }
+  return result
+}
@@ -0,0 +1,162 @@
+import * as THREE from 'three'
+import type { PanelArray } from '../components/Canvas3D/types'
+import { getClearSkyIrradiance, getPlaneOfArrayIrradiance } from './irradiance'
+import { getSunDirection } from './shading'
+import type { ShadingAnalysis, ShadingProfile } from './shading'
+import { getWeatherHours } from './tmy'
+import type { WeatherData, WeatherHour } from './tmy'
+
+export interface YieldOptions {
+  latitude: number
+  longitude: number
+  /** Module tilt in degrees, 0 for flat */
+  tilt: number
+  /** Direction the modules face, degrees clockwise from north */
+  azimuth: number
+  /** Installed power in kWp */
+  peakPower: number
+  /** Year to simulate, defaults to the current year */
+  year?: number
+  /** Offset of the site's local time from UTC in hours, defaults to the solar time zone of the longitude */
+  utcOffset?: number
+  /** Power temperature coefficient in %/°C (default: -0.35) */
+  temperatureCoefficient?: number
+  /** Ambient air temperature in °C when no weather data is given (default: 15) */
+  ambientTemperature?: number
+  /** Inverter, wiring, soiling and mismatch losses as a fraction (default: 0.14) */
+  systemLosses?: number
+  /** Fraction of global irradiance reflected by the ground (default: 0.2) */
+  albedo?: number
+  /** Shading of the array; its hourly fractions reduce the direct sunlight */
+  shading?: ShadingProfile
+  /** Hourly irradiance and temperature of a typical year, used instead of the clear-sky model */
+  weather?: WeatherData
+}
+
+export interface YieldEstimate {
+  /** Energy produced per month, in kWh */
+  monthly: number[]
+  /** Energy produced over the year, in kWh */
+  annual: number
+  /** Annual energy per installed kWp, in kWh/kWp */
+  specificYield: number
+  /** Irradiation on the plane of the array per month, in kWh/m² */
+  irradiation: number[]
+}
+
+export interface PanelArrayYield {
+  panelArrayId: string
+  estimate: YieldEstimate
+}
+
+// Nominal operating cell temperature in °C, reached at 800 W/m² and 20 °C ambient
+const NOCT = 45
+
+/**
+ * Upward unit normal of a surface with the given tilt and azimuth, in scene coordinates (-Z is north, +X is east)
+ */
+export function getSurfaceNormal(tilt: number, azimuth: number): THREE.Vector3 {
+  const t = THREE.MathUtils.degToRad(tilt)
+  const a = THREE.MathUtils.degToRad(azimuth)
+  return new THREE.Vector3(Math.sin(t) * Math.sin(a), Math.cos(t), -Math.sin(t) * Math.cos(a))
+}
+
+// A daylight hour with the direction towards the sun
+interface SolarHour extends WeatherHour {
+  sun: THREE.Vector3
+}
+
+// Every daylight hour of the year, with typical-year or clear-sky irradiance
+function getSolarHours(options: Omit<YieldOptions, 'tilt' | 'azimuth' | 'peakPower'>): SolarHour[] {
+  const { latitude, longitude, ambientTemperature = 15, weather } = options
+  const year = options.year ?? new Date().getFullYear()
+  const utcOffset = options.utcOffset ?? Math.round(longitude / 15)
+  const hours: SolarHour[] = []
+
+  if (weather) {
+    for (const weatherHour of getWeatherHours(weather, year, utcOffset)) {
+      const sun = getSunDirection(weatherHour.date, latitude, longitude)
+      if (sun) hours.push({ ...weatherHour, sun })
+    }
+    return hours
+  }
+
+  for (let month = 0; month < 12; month++) {
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+    for (let day = 1; day <= daysInMonth; day++) {
+      for (let hour = 0; hour < 24; hour++) {
+        // Middle of the local hour, converted to UTC
+        const date = new Date(Date.UTC(year, month, day, hour, 30) - utcOffset * 3600 * 1000)
+        const sun = getSunDirection(date, latitude, longitude)
+        if (!sun) continue
+        const sky = getClearSkyIrradiance(date, Math.asin(sun.y))
+        hours.push({ date, month, hour, sky, temperature: ambientTemperature, sun })
+      }
+    }
+  }
+
+  return hours
+}
+
+function simulateYield(hours: SolarHour[], options: YieldOptions): YieldEstimate {
+  const { peakPower, temperatureCoefficient = -0.35, systemLosses = 0.14, albedo, shading } = options
+  const normal = getSurfaceNormal(options.tilt, options.azimuth)
+
+  const monthly = new Array<number>(12).fill(0)
+  const irradiation = new Array<number>(12).fill(0)
+
+  for (const { month, hour, sky, temperature, sun } of hours) {
+    const poa = getPlaneOfArrayIrradiance(sky, sun, normal, albedo)
+    const shaded = shading?.hourly[month]?.[hour] ?? 0
+    const total = poa.beam * (1 - shaded) + poa.diffuse + poa.reflected
+
+    const cellTemperature = temperature + ((NOCT - 20) / 800) * total
+    const temperatureFactor = 1 + (temperatureCoefficient / 100) * (cellTemperature - 25)
+
+    // Wh/m² over one hour, and kWh from kWp rated at 1000 W/m²
+    irradiation[month] += total / 1000
+    monthly[month] += peakPower * (total / 1000) * temperatureFactor * (1 - systemLosses)
+  }
+
+  const annual = monthly.reduce((sum, value) => sum + value, 0)
+
+  return {
+    monthly,
+    annual,
+    specificYield: peakPower > 0 ? annual / peakPower : 0,
+    irradiation,
+  }
+}
+
+/**
+ * Estimate the energy produced by a PV array over a year.
+ * Every hour of the year is simulated with typical-year or clear-sky irradiance transposed onto the plane of the array,
+ * corrected for cell temperature and reduced by the system losses.
+ */
+export function estimateYield(options: YieldOptions): YieldEstimate {
+  return simulateYield(getSolarHours(options), options)
+}
+
+/**
+ * Estimate the yield of every placed panel array from its tilt, azimuth, module power and, when given, its shading
+ */
+export function estimatePanelArrayYields(
+  panelArrays: PanelArray[],
+  options: Omit<YieldOptions, 'tilt' | 'azimuth' | 'peakPower' | 'temperatureCoefficient' | 'shading'>,
+  shading?: ShadingAnalysis | null
+): PanelArrayYield[] {
+  // The sun and sky are the same for every array
+  const hours = getSolarHours(options)
+
+  return panelArrays.map((panelArray) => ({
+    panelArrayId: panelArray.id,
+    estimate: simulateYield(hours, {
+      ...options,
+      tilt: panelArray.tilt,
+      azimuth: panelArray.azimuth,
+      peakPower: (panelArray.panels.length * panelArray.module.power) / 1000,
+      temperatureCoefficient: panelArray.module.temperatureCoefficient,
+      shading: shading?.panelArrays.find((s) => s.panelArrayId === panelArray.id)?.profile,
+    }),
+  }))
+}